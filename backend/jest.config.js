@@ -0,0 +1,9 @@
+module.exports = {
+  testEnvironment: 'node',
+  // Transpile only: type-checking every suite runs out of memory. `npm run typecheck` checks the tests instead.
+  transform: {
+    '^.+\\.ts$': ['ts-jest', { tsconfig: { isolatedModules: true } }],
+  },
+  setupFiles: ['<rootDir>/src/__tests__/setup.ts'],
+  testMatch: ['<rootDir>/src/**/__tests__/**/*.test.ts'],
+};
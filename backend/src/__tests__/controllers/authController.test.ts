@@ -0,0 +1,89 @@
+import { prisma } from '../../config/database';
+import { AuthController } from '../../controllers/authController';
+import { userUpdateSchema, validateSchema } from '../../middleware/validation';
+import { AuthenticatedRequest } from '../../types';
+import { FakePrisma } from '../helpers/fakePrisma';
+import { fakeResponse } from '../helpers/fakeResponse';
+
+jest.mock('../../config/database', () => {
+  const { FakePrisma } = require('../helpers/fakePrisma');
+  return { prisma: new FakePrisma() };
+});
+
+const db = prisma as unknown as FakePrisma;
+
+const account = {
+  id: 'user-1',
+  email: 'sleeper@example.com',
+  username: 'sleeper',
+  isVerified: false,
+  isAdmin: false,
+  verificationToken: 'hashed-verification-code',
+  verificationExpires: new Date('2026-10-20T12:00:00Z'),
+  resetPasswordToken: null,
+  resetPasswordExpires: null,
+  deletionRequestedAt: new Date('2026-10-18T12:00:00Z'),
+  deletionScheduledFor: new Date('2026-11-17T12:00:00Z'),
+  preferencesRevision: 1,
+};
+
+const usage = {
+  subscriptionStatus: 'FREE',
+  dreamEntriesThisMonth: 10,
+  dreamEntriesResetAt: new Date('2026-10-01T00:00:00Z'),
+  analysesThisMonth: 3,
+  transcriptionSecondsThisMonth: 600,
+};
+
+// Runs the body through the route's validation, then the handler, like PUT /api/auth/profile
+const updateProfile = async (body: Record<string, unknown>) => {
+  const req = { body, user: { id: 'user-1' } } as unknown as AuthenticatedRequest;
+  const res = fakeResponse();
+  const next = jest.fn();
+
+  validateSchema(userUpdateSchema)(req, res, next);
+  expect(next).toHaveBeenCalled();
+  await AuthController.updateProfile(req, res);
+
+  expect(res.statusCode).toBe(200);
+  return db.table('user')[0];
+};
+
+describe('AuthController.updateProfile', () => {
+  beforeEach(() => {
+    db.reset();
+    db.seed('user', { ...account, ...usage });
+  });
+
+  it('leaves verification, reset, deletion and admin fields alone', async () => {
+    const user = await updateProfile({
+      firstName: 'Luna',
+      isVerified: true,
+      isAdmin: true,
+      verificationToken: null,
+      resetPasswordToken: 'chosen-reset-code',
+      resetPasswordExpires: '2030-01-01T00:00:00Z',
+      deletionRequestedAt: null,
+      deletionScheduledFor: null,
+    });
+
+    expect(user).toMatchObject({ ...account, firstName: 'Luna' });
+  });
+
+  it('leaves usage counters and the subscription alone', async () => {
+    const user = await updateProfile({
+      reminderTime: '07:30',
+      subscriptionStatus: 'PREMIUM',
+      dreamEntriesThisMonth: 0,
+      analysesThisMonth: 0,
+      transcriptionSecondsThisMonth: 0,
+      dreamEntriesResetAt: '2030-01-01T00:00:00Z',
+    });
+
+    expect(user).toMatchObject({
+      ...usage,
+      reminderTime: '07:30',
+      preferencesRevision: 2,
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import { prisma } from '../../config/database';
+import { SyncController } from '../../controllers/syncController';
+import { AuthenticatedRequest, SyncOperation } from '../../types';
+import { FakePrisma } from '../helpers/fakePrisma';
+import { fakeResponse } from '../helpers/fakeResponse';
+
+jest.mock('../../config/database', () => {
+  const { FakePrisma } = require('../helpers/fakePrisma');
+  return { prisma: new FakePrisma() };
+});
+
+jest.mock('../../services/searchService', () => ({
+  searchService: { indexDream: jest.fn().mockResolvedValue(undefined) },
+}));
+
+jest.mock('../../services/embeddingService', () => ({
+  embeddingService: { indexDream: jest.fn().mockResolvedValue(undefined) },
+}));
+
+const db = prisma as unknown as FakePrisma;
+
+// Edited on another device since the client last saw it at revision 1
+const dream = {
+  id: 'dream-1',
+  userId: 'user-1',
+  title: 'The lighthouse',
+  content: 'A lighthouse kept blinking in a language I almost understood.',
+  mood: 'curious',
+  isDraft: false,
+  revision: 2,
+};
+
+const user = {
+  id: 'user-1',
+  preferences: { theme: 'dark', language: 'en' },
+  preferencesRevision: 2,
+  notificationsEnabled: true,
+  reminderTime: '07:00',
+  timezone: 'Europe/Berlin',
+};
+
+const sync = async (...operations: Array<Omit<SyncOperation, 'id'>>) => {
+  const req = {
+    body: { operations: operations.map((operation, index) => ({ id: `op-${index}`, ...operation })) },
+    user: { id: 'user-1' },
+  } as unknown as AuthenticatedRequest;
+  const res = fakeResponse();
+
+  await SyncController.syncBatch(req, res);
+
+  expect(res.statusCode).toBe(200);
+  return res.body.data.results;
+};
+
+const getDream = () => db.table('dream')[0];
+
+describe('SyncController conflict detection', () => {
+  beforeEach(() => {
+    db.reset();
+    db.seed('dream', { ...dream });
+    db.seed('user', { ...user, preferences: { ...user.preferences } });
+  });
+
+  it('applies an edit based on the current revision', async () => {
+    const [result] = await sync({ type: 'dream', action: 'update', data: { id: 'dream-1', mood: 'calm' }, baseRevision: 2 });
+
+    expect(result).toMatchObject({ success: true, data: { mood: 'calm', revision: 3 } });
+    expect(db.table('syncChange')).toEqual([
+      expect.objectContaining({ entityType: 'DREAM', entityId: 'dream-1', operation: 'UPDATE' }),
+    ]);
+  });
+
+  it('reports the fields a stale edit would overwrite and leaves the dream alone', async () => {
+    const [result] = await sync({
+      type: 'dream',
+      action: 'update',
+      data: { id: 'dream-1', title: 'The lighthouse keeper', mood: 'curious' },
+      baseRevision: 1,
+    });
+
+    expect(result).toMatchObject({
+      success: false,
+      error: 'Record was changed on another device',
+      conflict: {
+        type: 'dream',
+        recordId: 'dream-1',
+        baseRevision: 1,
+        serverRevision: 2,
+        conflictingFields: ['title'],
+        serverVersion: expect.objectContaining({ title: 'The lighthouse' }),
+      },
+    });
+    expect(getDream()).toMatchObject({ title: 'The lighthouse', revision: 2 });
+    expect(db.table('syncChange')).toHaveLength(0);
+  });
+
+  it('accepts a stale edit that already matches the server', async () => {
+    const [result] = await sync({ type: 'dream', action: 'update', data: { id: 'dream-1', mood: 'curious' }, baseRevision: 1 });
+
+    expect(result.success).toBe(true);
+    expect(getDream().revision).toBe(3);
+  });
+
+  it('refuses to delete a dream edited since the client saw it', async () => {
+    const [stale, current] = await sync(
+      { type: 'dream', action: 'delete', data: { id: 'dream-1' }, baseRevision: 1 },
+      { type: 'dream', action: 'delete', data: { id: 'dream-1' }, baseRevision: 2 }
+    );
+
+    expect(stale.conflict).toMatchObject({ conflictingFields: [], clientVersion: null });
+    expect(current.success).toBe(true);
+    expect(db.table('dream')).toHaveLength(0);
+  });
+
+  it('compares preferences key by key and keeps the keys a client leaves out', async () => {
+    const [conflicting, merged] = await sync(
+      { type: 'user', action: 'update', data: { preferences: { theme: 'dark', language: 'de' } }, baseRevision: 1 },
+      { type: 'user', action: 'update', data: { preferences: { fontSize: 'large' } }, baseRevision: 2 }
+    );
+
+    expect(conflicting.conflict).toMatchObject({ type: 'user', conflictingFields: ['preferences.language'] });
+    expect(merged.success).toBe(true);
+    expect(db.table('user')[0]).toMatchObject({
+      preferences: { theme: 'dark', language: 'en', fontSize: 'large' },
+      preferencesRevision: 3,
+    });
+  });
+});
@@ -0,0 +1,286 @@
+import { Prisma } from '@prisma/client';
+
+type Row = Record<string, any>;
+
+interface ModelConfig {
+  defaults?: () => Row;
+  unique?: string[][]; // Field sets besides id that reject duplicates with P2002
+}
+
+const OPERATORS = ['in', 'notIn', 'not', 'lt', 'lte', 'gt', 'gte', 'equals', 'contains', 'has'];
+
+// Enough of the Prisma client for service tests: rows live in memory, `where`
+// supports plain values, null, AND/OR/NOT and the comparison operators, and
+// `select`/`include` are ignored so callers get whole rows back
+export class FakePrisma {
+  readonly tables: Record<string, Row[]> = {};
+  private delegates = new Map<string, ReturnType<FakePrisma['createDelegate']>>();
+  private sequence = 0;
+
+  constructor(private readonly models: Record<string, ModelConfig> = {}) {
+    return new Proxy(this, {
+      get: (target, property: string | symbol, receiver) => {
+        if (typeof property === 'symbol' || property in target) {
+          return Reflect.get(target, property, receiver);
+        }
+        return target.model(property);
+      },
+    });
+  }
+
+  async $transaction(operations: unknown): Promise<unknown> {
+    if (typeof operations === 'function') {
+      return operations(this);
+    }
+    return Promise.all(operations as Promise<unknown>[]);
+  }
+
+  reset(): void {
+    for (const name of Object.keys(this.tables)) {
+      delete this.tables[name];
+    }
+  }
+
+  table(name: string): Row[] {
+    this.tables[name] ??= [];
+    return this.tables[name];
+  }
+
+  // Adds rows as they would be stored, defaults included
+  seed(name: string, ...rows: Row[]): Row[] {
+    return rows.map(row => this.insert(name, row));
+  }
+
+  // The same object every time, so tests can spy on its methods
+  model(name: string) {
+    if (!this.delegates.has(name)) {
+      this.delegates.set(name, this.createDelegate(name));
+    }
+    return this.delegates.get(name)!;
+  }
+
+  private createDelegate(name: string) {
+    const rows = () => this.table(name);
+    const findAll = (args: Row = {}) => {
+      let found = rows().filter(row => this.matches(row, args.where));
+      if (args.orderBy) {
+        found = this.sort(found, args.orderBy);
+      }
+      if (args.skip) {
+        found = found.slice(args.skip);
+      }
+      if (args.take !== undefined) {
+        found = found.slice(0, args.take);
+      }
+      return found;
+    };
+    const findOne = (args: Row) => {
+      const row = findAll(args)[0];
+      return row ? { ...row } : null;
+    };
+
+    return {
+      create: async (args: Row) => ({ ...this.insert(name, args.data) }),
+      createMany: async (args: Row) => {
+        const data = Array.isArray(args.data) ? args.data : [args.data];
+        data.forEach((row: Row) => this.insert(name, row));
+        return { count: data.length };
+      },
+      createManyAndReturn: async (args: Row) => {
+        const data = Array.isArray(args.data) ? args.data : [args.data];
+        return data.map((row: Row) => ({ ...this.insert(name, row) }));
+      },
+      findUnique: async (args: Row) => findOne(args),
+      findFirst: async (args: Row = {}) => findOne(args),
+      findUniqueOrThrow: async (args: Row) => {
+        const row = findOne(args);
+        if (!row) {
+          throw new Prisma.PrismaClientKnownRequestError(`No ${name} found`, { code: 'P2025', clientVersion: 'test' });
+        }
+        return row;
+      },
+      findMany: async (args: Row = {}) => findAll(args).map(row => ({ ...row })),
+      count: async (args: Row = {}) => findAll({ where: args.where }).length,
+      update: async (args: Row) => {
+        const row = rows().find(candidate => this.matches(candidate, args.where));
+        if (!row) {
+          throw new Prisma.PrismaClientKnownRequestError(`No ${name} found`, { code: 'P2025', clientVersion: 'test' });
+        }
+        this.apply(row, args.data);
+        return { ...row };
+      },
+      updateMany: async (args: Row) => {
+        const matched = rows().filter(row => this.matches(row, args.where));
+        matched.forEach(row => this.apply(row, args.data));
+        return { count: matched.length };
+      },
+      upsert: async (args: Row) => {
+        const row = rows().find(candidate => this.matches(candidate, args.where));
+        if (row) {
+          this.apply(row, args.update);
+          return { ...row };
+        }
+        return { ...this.insert(name, args.create) };
+      },
+      delete: async (args: Row) => {
+        const index = rows().findIndex(row => this.matches(row, args.where));
+        if (index < 0) {
+          throw new Prisma.PrismaClientKnownRequestError(`No ${name} found`, { code: 'P2025', clientVersion: 'test' });
+        }
+        return rows().splice(index, 1)[0];
+      },
+      deleteMany: async (args: Row = {}) => {
+        const kept = rows().filter(row => !this.matches(row, args.where));
+        const count = rows().length - kept.length;
+        this.tables[name] = kept;
+        return { count };
+      },
+    };
+  }
+
+  private insert(name: string, data: Row): Row {
+    const now = new Date();
+    const row: Row = {
+      id: `${name}-${++this.sequence}`,
+      createdAt: now,
+      updatedAt: now,
+      ...this.models[name]?.defaults?.(),
+    };
+    for (const [key, value] of Object.entries(data)) {
+      if (value !== undefined) {
+        row[key] = value;
+      }
+    }
+
+    const uniqueSets = [['id'], ...(this.models[name]?.unique ?? [])];
+    const duplicate = uniqueSets.some(fields =>
+      fields.every(field => row[field] != null) &&
+      this.table(name).some(existing => fields.every(field => this.equals(existing[field], row[field])))
+    );
+    if (duplicate) {
+      throw new Prisma.PrismaClientKnownRequestError(`Unique constraint failed on ${name}`, {
+        code: 'P2002',
+        clientVersion: 'test',
+      });
+    }
+
+    this.table(name).push(row);
+    return row;
+  }
+
+  private apply(row: Row, data: Row): void {
+    for (const [key, value] of Object.entries(data)) {
+      if (value === undefined) {
+        continue;
+      }
+      if (this.isPlainObject(value) && 'increment' in value) {
+        row[key] = (row[key] ?? 0) + value.increment;
+      } else if (this.isPlainObject(value) && 'decrement' in value) {
+        row[key] = (row[key] ?? 0) - value.decrement;
+      } else if (this.isPlainObject(value) && 'set' in value) {
+        row[key] = value.set;
+      } else {
+        row[key] = value;
+      }
+    }
+    if (!('updatedAt' in data)) {
+      row.updatedAt = new Date();
+    }
+  }
+
+  private matches(row: Row, where: Row | undefined): boolean {
+    if (!where) {
+      return true;
+    }
+
+    return Object.entries(where).every(([key, condition]) => {
+      if (condition === undefined) {
+        return true;
+      }
+      if (key === 'AND') {
+        return (Array.isArray(condition) ? condition : [condition]).every(part => this.matches(row, part));
+      }
+      if (key === 'OR') {
+        return condition.some((part: Row) => this.matches(row, part));
+      }
+      if (key === 'NOT') {
+        return !(Array.isArray(condition) ? condition : [condition]).some(part => this.matches(row, part));
+      }
+      if (this.isPlainObject(condition) && !(key in row) && !Object.keys(condition).some(op => OPERATORS.includes(op))) {
+        // Compound unique keys such as { dreamId_analysisType: { ... } }
+        return this.matches(row, condition);
+      }
+      return this.matchesValue(row[key], condition);
+    });
+  }
+
+  private matchesValue(value: unknown, condition: unknown): boolean {
+    if (!this.isPlainObject(condition)) {
+      return this.equals(value, condition);
+    }
+
+    return Object.entries(condition as Row).every(([operator, operand]) => {
+      if (operand === undefined) {
+        return true;
+      }
+      switch (operator) {
+        case 'equals':
+          return this.equals(value, operand);
+        case 'in':
+          return operand.some((option: unknown) => this.equals(value, option));
+        case 'notIn':
+          return !operand.some((option: unknown) => this.equals(value, option));
+        case 'not':
+          return !this.matchesValue(value, operand);
+        case 'lt':
+          return value != null && this.compare(value, operand) < 0;
+        case 'lte':
+          return value != null && this.compare(value, operand) <= 0;
+        case 'gt':
+          return value != null && this.compare(value, operand) > 0;
+        case 'gte':
+          return value != null && this.compare(value, operand) >= 0;
+        case 'contains':
+          return typeof value === 'string' && value.includes(operand);
+        case 'has':
+          return Array.isArray(value) && value.includes(operand);
+        default:
+          throw new Error(`FakePrisma does not support the ${operator} filter`);
+      }
+    });
+  }
+
+  private sort(rows: Row[], orderBy: Row | Row[]): Row[] {
+    const keys = (Array.isArray(orderBy) ? orderBy : [orderBy]).flatMap(order => Object.entries(order));
+    return [...rows].sort((a, b) => {
+      for (const [key, direction] of keys) {
+        const order = this.compare(a[key], b[key]);
+        if (order !== 0) {
+          return direction === 'desc' ? -order : order;
+        }
+      }
+      return 0;
+    });
+  }
+
+  // Nulls sort last when ascending, as in Postgres
+  private compare(a: any, b: any): number {
+    if (a == null || b == null) {
+      return a == null ? (b == null ? 0 : 1) : -1;
+    }
+    const left = a instanceof Date ? a.getTime() : a;
+    const right = b instanceof Date ? b.getTime() : b;
+    return left < right ? -1 : left > right ? 1 : 0;
+  }
+
+  private equals(a: unknown, b: unknown): boolean {
+    if (a instanceof Date && b instanceof Date) {
+      return a.getTime() === b.getTime();
+    }
+    return (a ?? null) === (b ?? null);
+  }
+
+  private isPlainObject(value: unknown): value is Row {
+    return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+  }
+}
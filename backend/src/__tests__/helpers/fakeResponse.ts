@@ -0,0 +1,22 @@
+import { Response } from 'express';
+
+export type FakeResponse = Response & { statusCode: number; body: any };
+
+// Keeps what a handler answered so tests can read it back
+export const fakeResponse = (): FakeResponse => {
+  const res = { statusCode: 200, body: undefined as any };
+  return Object.assign(res, {
+    status: jest.fn((code: number) => {
+      res.statusCode = code;
+      return res;
+    }),
+    json: jest.fn((body: unknown) => {
+      res.body = body;
+      return res;
+    }),
+    send: jest.fn((body: unknown) => {
+      res.body = body;
+      return res;
+    }),
+  }) as unknown as FakeResponse;
+};
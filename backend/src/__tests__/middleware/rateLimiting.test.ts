@@ -0,0 +1,91 @@
+import express, { NextFunction, Request, Response } from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { createRateLimit } from '../../middleware/rateLimiting';
+import { AuthenticatedRequest } from '../../types';
+
+const users: Record<string, { id: string; subscriptionStatus: string }> = {
+  'free-1': { id: 'free-1', subscriptionStatus: 'FREE' },
+  'free-2': { id: 'free-2', subscriptionStatus: 'FREE' },
+  premium: { id: 'premium', subscriptionStatus: 'PREMIUM' },
+  cancelled: { id: 'cancelled', subscriptionStatus: 'CANCELLED' },
+};
+
+// Stands in for authenticateToken: the x-user header picks who is signed in
+const signIn = (req: Request, res: Response, next: NextFunction) => {
+  const user = users[req.get('x-user') ?? ''];
+  if (user) {
+    (req as AuthenticatedRequest).user = user as AuthenticatedRequest['user'];
+  }
+  next();
+};
+
+const app = express();
+let server: Server;
+let baseUrl: string;
+
+// Every test gets a fresh limiter, mounted at its own path
+let routes = 0;
+const mountLimiter = () => {
+  const path = `/limited-${++routes}`;
+  app.get(path, signIn, createRateLimit({ name: path, windowMs: 60 * 1000, max: { FREE: 2, PREMIUM: 4 } }), (req, res) => {
+    res.json({ success: true });
+  });
+  return (user?: string) => fetch(`${baseUrl}${path}`, { headers: user ? { 'x-user': user } : {} });
+};
+
+const statuses = async (request: () => Promise<globalThis.Response>, times: number) => {
+  const result: number[] = [];
+  for (let i = 0; i < times; i++) {
+    result.push((await request()).status);
+  }
+  return result;
+};
+
+describe('createRateLimit', () => {
+  beforeAll(done => {
+    server = app.listen(0, () => {
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      done();
+    });
+  });
+
+  afterAll(done => {
+    server.close(done);
+  });
+
+  it('gives each signed-in user a budget of their own', async () => {
+    const request = mountLimiter();
+
+    expect(await statuses(() => request('free-1'), 3)).toEqual([200, 200, 429]);
+    // Same address, different user
+    expect(await statuses(() => request('free-2'), 2)).toEqual([200, 200]);
+  });
+
+  it('sizes the budget by tier', async () => {
+    const request = mountLimiter();
+
+    expect(await statuses(() => request('premium'), 5)).toEqual([200, 200, 200, 200, 429]);
+    // A cancelled subscription is back on the free budget
+    expect(await statuses(() => request('cancelled'), 3)).toEqual([200, 200, 429]);
+  });
+
+  it('counts anonymous requests per address on the free budget', async () => {
+    const request = mountLimiter();
+
+    const first = await request();
+    expect(first.headers.get('ratelimit-limit')).toBe('2');
+    expect(first.headers.get('ratelimit-remaining')).toBe('1');
+    await request();
+
+    const limited = await request();
+    expect(limited.status).toBe(429);
+    await expect(limited.json()).resolves.toMatchObject({
+      success: false,
+      error: 'Too many requests, please try again later',
+      data: { limit: 2, retryAfter: 1 },
+    });
+    // Signing in moves the client onto its own counter
+    expect((await request('free-1')).status).toBe(200);
+  });
+});
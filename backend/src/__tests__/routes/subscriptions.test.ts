@@ -0,0 +1,77 @@
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import Stripe from 'stripe';
+import app from '../../app';
+import { env } from '../../config/env';
+import { prisma } from '../../config/database';
+import { FakePrisma } from '../helpers/fakePrisma';
+import subscriptionCreated from '../fixtures/stripe/subscriptionCreated.json';
+
+jest.mock('../../config/database', () => {
+  const { FakePrisma } = require('../helpers/fakePrisma');
+  return {
+    prisma: new FakePrisma({
+      stripeEvent: { defaults: () => ({ status: 'PROCESSING', attempts: 1, error: null, processedAt: null }) },
+      subscription: { unique: [['stripeSubscriptionId']], defaults: () => ({ lastEventAt: null }) },
+      user: { defaults: () => ({ subscriptionStatus: 'FREE', subscriptionId: null, subscriptionEndsAt: null }) },
+    }),
+  };
+});
+
+jest.mock('../../services/notificationService', () => ({
+  notificationService: { sendPushNotification: jest.fn().mockResolvedValue(true) },
+}));
+
+const db = prisma as unknown as FakePrisma;
+const stripe = new Stripe(env.STRIPE_SECRET_KEY);
+
+// Spacing differs from JSON.stringify on purpose: the signature covers these exact bytes
+const payload = JSON.stringify(subscriptionCreated, null, 2);
+
+let server: Server;
+let baseUrl: string;
+
+const deliver = (body: string, signature: string) =>
+  fetch(`${baseUrl}/api/subscriptions/webhook`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', 'stripe-signature': signature },
+    body,
+  });
+
+describe('POST /api/subscriptions/webhook', () => {
+  beforeAll(done => {
+    server = app.listen(0, () => {
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      done();
+    });
+  });
+
+  afterAll(done => {
+    server.close(done);
+  });
+
+  beforeEach(() => {
+    db.reset();
+    db.seed('user', { id: 'user-1', email: 'dreamer@example.com' });
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  it('verifies the signature against the raw body', async () => {
+    const signature = stripe.webhooks.generateTestHeaderString({ payload, secret: env.STRIPE_WEBHOOK_SECRET });
+
+    const response = await deliver(payload, signature);
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe('Webhook handled successfully');
+    expect(db.table('user')[0]).toMatchObject({ subscriptionStatus: 'PREMIUM' });
+  });
+
+  it('rejects a body that does not match its signature', async () => {
+    const signature = stripe.webhooks.generateTestHeaderString({ payload, secret: env.STRIPE_WEBHOOK_SECRET });
+
+    const response = await deliver(JSON.stringify(subscriptionCreated), signature);
+
+    expect(response.status).toBe(400);
+    expect(db.table('stripeEvent')).toHaveLength(0);
+  });
+});
@@ -0,0 +1,140 @@
+import { prisma } from '../../config/database';
+import { analysisJobService } from '../../services/analysisJobService';
+import { analysisVersionService } from '../../services/analysisVersionService';
+import { llmService } from '../../services/llmService';
+import { notificationService } from '../../services/notificationService';
+import { FakePrisma } from '../helpers/fakePrisma';
+
+jest.mock('../../config/database', () => {
+  const { FakePrisma } = require('../helpers/fakePrisma');
+  return {
+    prisma: new FakePrisma({
+      analysisJob: {
+        defaults: () => ({
+          status: 'QUEUED',
+          progress: 0,
+          attempts: 0,
+          runAt: new Date(),
+          lockedAt: null,
+          lockedBy: null,
+          lastError: null,
+          analysisId: null,
+          completedAt: null,
+        }),
+      },
+      dreamAnalysis: { defaults: () => ({ isStale: false, staleAt: null }) },
+    }),
+  };
+});
+
+jest.mock('../../services/notificationService', () => ({
+  notificationService: { sendAnalysisCompleteNotification: jest.fn().mockResolvedValue(undefined) },
+}));
+
+const db = prisma as unknown as FakePrisma;
+const localProvider = llmService.getProvider('analysis');
+
+const dream = {
+  id: 'dream-1',
+  userId: 'user-1',
+  title: 'Flying over the harbour',
+  content: 'I was flying above a harbour full of lanterns while the ocean glowed beneath me.',
+  emotions: ['wonder'],
+  symbols: ['ocean'],
+  themes: ['freedom'],
+  dreamDate: new Date('2026-10-01T07:00:00Z'),
+  isProcessed: false,
+};
+
+const input = { userId: 'user-1', dreamId: 'dream-1', analysisType: 'BASIC' as const, includeHistory: false };
+
+const watching = { onProgress: jest.fn(), isWatching: () => false };
+
+const getJob = () => db.table('analysisJob')[0];
+
+const claimJob = async () => {
+  const result = await analysisJobService.enqueue(input, { claim: true });
+  if (result.exceeded) {
+    throw new Error(`Unexpected quota error: ${result.exceeded.quota}`);
+  }
+  expect(result.claimed).toBe(true);
+  return result.job;
+};
+
+describe('AnalysisJobService', () => {
+  beforeEach(() => {
+    db.reset();
+    db.seed('user', {
+      id: 'user-1',
+      subscriptionStatus: 'PREMIUM',
+      dreamEntriesThisMonth: 0,
+      dreamEntriesResetAt: new Date(),
+      analysesThisMonth: 0,
+      transcriptionSecondsThisMonth: 0,
+    });
+    db.seed('dream', { ...dream });
+    llmService.setProvider('analysis', localProvider);
+    jest.clearAllMocks();
+  });
+
+  it('analyzes a dream end to end on the local provider', async () => {
+    const job = await analysisJobService.runClaimed(await claimJob(), watching);
+
+    const [analysis] = db.table('dreamAnalysis');
+    expect(job).toMatchObject({ status: 'COMPLETED', progress: 100, attempts: 1, analysisId: analysis.id });
+    expect(analysis).toMatchObject({
+      dreamId: 'dream-1',
+      version: 1,
+      provider: 'local',
+      model: 'local-fixture',
+      contentHash: analysisVersionService.hashContent(dream),
+      confidence: 0.5,
+    });
+    expect(analysis.interpretation).toContain('flying');
+    expect(watching.onProgress).toHaveBeenCalled();
+
+    expect(db.table('dream')[0].isProcessed).toBe(true);
+    expect(db.table('user')[0].analysesThisMonth).toBe(1);
+    expect(db.table('syncChange')).toEqual([
+      expect.objectContaining({ entityType: 'DREAM_ANALYSIS', entityId: analysis.id, operation: 'CREATE' }),
+      expect.objectContaining({ entityType: 'DREAM', entityId: 'dream-1', operation: 'UPDATE' }),
+    ]);
+    expect(notificationService.sendAnalysisCompleteNotification).toHaveBeenCalledWith('user-1', dream.title);
+  });
+
+  it('writes the same analysis again for the same dream', async () => {
+    await analysisJobService.runClaimed(await claimJob(), watching);
+    await analysisJobService.runClaimed(await claimJob(), watching);
+
+    const [v1, v2] = db.table('dreamAnalysis');
+    expect(v2.version).toBe(2);
+    expect(v2.interpretation).toBe(v1.interpretation);
+  });
+
+  it('keeps the job completed when the notification fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    jest.mocked(notificationService.sendAnalysisCompleteNotification).mockRejectedValueOnce(new Error('Expo is down'));
+
+    const job = await analysisJobService.runClaimed(await claimJob(), watching);
+
+    expect(job).toMatchObject({ status: 'COMPLETED', lastError: null });
+    expect(db.table('dreamAnalysis')).toHaveLength(1);
+    expect(db.table('user')[0].analysesThisMonth).toBe(1);
+  });
+
+  it('dead-letters the job and gives the analysis back when the reply stays invalid', async () => {
+    llmService.setProvider('analysis', {
+      name: 'scripted',
+      complete: async () => 'I would rather not answer in JSON.',
+      embed: async () => [],
+    });
+
+    await analysisJobService.runClaimed(await claimJob(), watching);
+
+    expect(getJob()).toMatchObject({ status: 'DEAD_LETTER', attempts: 1, lockedBy: null });
+    expect(getJob().lastError).toMatch(/^Invalid analysis output/);
+    expect(db.table('dreamAnalysis')).toHaveLength(0);
+    expect(db.table('user')[0].analysesThisMonth).toBe(0);
+    expect(notificationService.sendAnalysisCompleteNotification).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,88 @@
+import { prisma } from '../../config/database';
+import { changeLogService } from '../../services/changeLogService';
+import { FakePrisma } from '../helpers/fakePrisma';
+
+jest.mock('../../config/database', () => {
+  const { FakePrisma } = require('../helpers/fakePrisma');
+  let lastId = 0;
+  // Change log ids autoincrement like the real table
+  return { prisma: new FakePrisma({ syncChange: { defaults: () => ({ id: ++lastId }) } }) };
+});
+
+const db = prisma as unknown as FakePrisma;
+
+const readAll = async (userId: string, cursor: string, limit: number) => {
+  const pages = [];
+  let next = cursor;
+  while (true) {
+    const page = await changeLogService.getChanges(userId, Number(next), limit);
+    pages.push(page);
+    next = page.nextCursor;
+    if (!page.hasMore) {
+      return pages;
+    }
+  }
+};
+
+describe('ChangeLogService', () => {
+  beforeEach(() => {
+    db.reset();
+  });
+
+  it('pages through the log in order and only shows the user their own changes', async () => {
+    for (const id of ['dream-1', 'dream-2', 'dream-3']) {
+      await changeLogService.record('user-1', 'DREAM', id, 'CREATE');
+      await changeLogService.record('user-2', 'DREAM', `other-${id}`, 'CREATE');
+    }
+    await changeLogService.record('user-1', 'DREAM', 'dream-1', 'UPDATE');
+
+    const pages = await readAll('user-1', '0', 2);
+
+    expect(pages.map(page => page.changes.map(change => `${change.entityId}:${change.operation}`))).toEqual([
+      ['dream-1:CREATE', 'dream-2:CREATE'],
+      ['dream-3:CREATE', 'dream-1:UPDATE'],
+    ]);
+    expect(pages[0].hasMore).toBe(true);
+    expect(pages[0].nextCursor).toBe(pages[0].changes[1].cursor);
+
+    // Nothing new: the cursor stays where it was
+    const last = pages[pages.length - 1].nextCursor;
+    await expect(changeLogService.getChanges('user-1', Number(last), 2)).resolves.toEqual({
+      changes: [],
+      nextCursor: last,
+      hasMore: false,
+    });
+  });
+
+  it('leaves tombstones for a deleted dream and what it took with it', async () => {
+    db.seed('dream', { id: 'dream-1', userId: 'user-1' });
+    db.seed('dreamAnalysis', { id: 'analysis-1', dreamId: 'dream-1' }, { id: 'analysis-2', dreamId: 'dream-1' });
+    db.seed('voiceRecording', { id: 'recording-1', dreamId: 'dream-1' });
+    await changeLogService.record('user-1', 'DREAM', 'dream-1', 'CREATE');
+    const { nextCursor } = await changeLogService.getChanges('user-1', 0, 100);
+
+    await changeLogService.deleteDream('user-1', 'dream-1');
+
+    expect(db.table('dream')).toHaveLength(0);
+    const { changes } = await changeLogService.getChanges('user-1', Number(nextCursor), 100);
+    expect(changes.map(({ entityType, entityId, operation }) => ({ entityType, entityId, operation }))).toEqual([
+      { entityType: 'DREAM', entityId: 'dream-1', operation: 'DELETE' },
+      { entityType: 'DREAM_ANALYSIS', entityId: 'analysis-1', operation: 'DELETE' },
+      { entityType: 'DREAM_ANALYSIS', entityId: 'analysis-2', operation: 'DELETE' },
+      { entityType: 'VOICE_RECORDING', entityId: 'recording-1', operation: 'UPDATE' },
+    ]);
+  });
+
+  it('translates a timestamp into the cursor of the last change before it', async () => {
+    db.seed(
+      'syncChange',
+      { id: 101, userId: 'user-1', createdAt: new Date('2026-10-19T08:00:00Z') },
+      { id: 102, userId: 'user-2', createdAt: new Date('2026-10-19T09:00:00Z') },
+      { id: 103, userId: 'user-1', createdAt: new Date('2026-10-19T10:00:00Z') }
+    );
+
+    await expect(changeLogService.getCursorBefore('user-1', new Date('2026-10-19T07:59:00Z'))).resolves.toBe(0);
+    await expect(changeLogService.getCursorBefore('user-1', new Date('2026-10-19T09:30:00Z'))).resolves.toBe(101);
+    await expect(changeLogService.getCursorBefore('user-1', new Date('2026-10-19T10:00:00Z'))).resolves.toBe(103);
+  });
+});
@@ -0,0 +1,105 @@
+import Joi from 'joi';
+import { prisma } from '../../config/database';
+import { CompletionRequest, LlmOutputError, LlmProvider, llmService } from '../../services/llmService';
+import { FakePrisma } from '../helpers/fakePrisma';
+
+jest.mock('../../config/database', () => {
+  const { FakePrisma } = require('../helpers/fakePrisma');
+  return { prisma: new FakePrisma() };
+});
+
+const db = prisma as unknown as FakePrisma;
+
+// Answers with the given replies in order and keeps every request it was sent
+class ScriptedProvider implements LlmProvider {
+  readonly name = 'scripted';
+  readonly model = 'scripted-model';
+  readonly requests: CompletionRequest[] = [];
+
+  constructor(private readonly replies: string[]) {}
+
+  async complete(request: CompletionRequest): Promise<string> {
+    this.requests.push(request);
+    return this.replies[this.requests.length - 1];
+  }
+
+  async embed(): Promise<number[][]> {
+    return [];
+  }
+}
+
+const schema = Joi.object<{ symbols: string[] }>({
+  symbols: Joi.array().items(Joi.string()).required(),
+}).required();
+
+const request = {
+  messages: [{ role: 'user' as const, content: 'Extract the symbols from this dream.' }],
+};
+
+const useReplies = (...replies: string[]) => {
+  const provider = new ScriptedProvider(replies);
+  llmService.setProvider('symbols', provider);
+  return provider;
+};
+
+describe('LlmService.completeStructured', () => {
+  beforeEach(() => {
+    db.reset();
+  });
+
+  it('returns a valid first reply without asking for a repair', async () => {
+    const provider = useReplies('{"symbols": ["water"], "mood": "calm"}');
+
+    await expect(llmService.completeStructured('symbols', schema, request)).resolves.toEqual({ symbols: ['water'] });
+
+    expect(provider.requests).toHaveLength(1);
+    expect(provider.requests[0]).toMatchObject({ task: 'symbols', model: 'scripted-model', json: true });
+    expect(db.table('systemLog')).toHaveLength(0);
+  });
+
+  it('repairs an invalid first reply', async () => {
+    const first = 'Here are the symbols: {"symbols": "water, moon"}';
+    const provider = useReplies(first, '{"symbols": ["water", "moon"]}');
+
+    const result = await llmService.completeStructured('symbols', schema, request, 'user-1');
+
+    expect(result).toEqual({ symbols: ['water', 'moon'] });
+    expect(provider.requests).toHaveLength(2);
+
+    const [original, reply, correction] = provider.requests[1].messages;
+    expect([original]).toEqual(request.messages);
+    expect(reply).toEqual({ role: 'assistant', content: first });
+    expect(correction).toMatchObject({ role: 'user', content: expect.stringContaining('"symbols" must be an array') });
+
+    expect(db.table('systemLog')).toEqual([
+      expect.objectContaining({
+        userId: 'user-1',
+        action: 'llm_output_invalid',
+        details: {
+          task: 'symbols',
+          provider: 'scripted',
+          model: 'scripted-model',
+          outcome: 'repaired',
+          issues: ['"symbols" must be an array'],
+        },
+      }),
+    ]);
+  });
+
+  it('throws LlmOutputError when the repaired reply is invalid too', async () => {
+    useReplies('No symbols here.', '{"symbols": [1, 2]}');
+
+    const attempt = llmService.completeStructured('symbols', schema, request);
+
+    await expect(attempt).rejects.toBeInstanceOf(LlmOutputError);
+    await expect(attempt).rejects.toMatchObject({
+      task: 'symbols',
+      issues: ['"symbols[0]" must be a string', '"symbols[1]" must be a string'],
+    });
+    expect(db.table('systemLog')[0].details).toMatchObject({
+      outcome: 'failed',
+      issues: ['The reply is not a JSON object'],
+      repairIssues: ['"symbols[0]" must be a string', '"symbols[1]" must be a string'],
+    });
+  });
+});
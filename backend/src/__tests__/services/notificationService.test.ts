@@ -0,0 +1,248 @@
+import { ExpoPushReceipt } from 'expo-server-sdk';
+import { prisma } from '../../config/database';
+import { notificationService, PushClient } from '../../services/notificationService';
+import { FakePrisma } from '../helpers/fakePrisma';
+
+jest.mock('../../config/database', () => {
+  const { FakePrisma } = require('../helpers/fakePrisma');
+  return {
+    prisma: new FakePrisma({
+      notification: { defaults: () => ({ deliveryStatus: 'SENT', delivered: false, deliveryError: null }) },
+      notificationDelivery: { defaults: () => ({ status: 'SENT', error: null, receiptAttempts: 0 }) },
+    }),
+  };
+});
+
+const db = prisma as unknown as FakePrisma;
+
+const now = new Date('2026-10-19T12:00:00Z');
+const sentAt = new Date('2026-10-19T11:40:00Z');
+
+const PHONE_TOKEN = 'ExponentPushToken[phone]';
+const TABLET_TOKEN = 'ExponentPushToken[tablet]';
+
+// Answers receipt lookups from a fixed table; ticket ids left out aren't ready yet
+const fakeClient = (receipts: Record<string, ExpoPushReceipt> | Error): PushClient => ({
+  chunkPushNotifications: messages => [messages],
+  sendPushNotificationsAsync: jest.fn(),
+  chunkPushNotificationReceiptIds: ids => [ids],
+  getPushNotificationReceiptsAsync: jest.fn(async (ids: string[]) => {
+    if (receipts instanceof Error) {
+      throw receipts;
+    }
+    return Object.fromEntries(ids.filter(id => receipts[id]).map(id => [id, receipts[id]]));
+  }),
+});
+
+const delivery = (id: string, notificationId: string, deviceId: string, pushToken: string) => ({
+  id,
+  notificationId,
+  deviceId,
+  pushToken,
+  expoTicketId: `ticket-${id}`,
+  nextReceiptCheckAt: now,
+  createdAt: sentAt,
+});
+
+const getDelivery = (id: string) => db.table('notificationDelivery').find(row => row.id === id)!;
+const getNotification = (id: string) => db.table('notification').find(row => row.id === id)!;
+
+describe('NotificationService.processReceipts', () => {
+  beforeEach(() => {
+    db.reset();
+    db.seed(
+      'device',
+      { id: 'phone', userId: 'user-1', pushToken: PHONE_TOKEN },
+      { id: 'tablet', userId: 'user-1', pushToken: TABLET_TOKEN }
+    );
+    db.seed(
+      'notification',
+      { id: 'both-devices', userId: 'user-1', sentAt },
+      { id: 'tablet-only', userId: 'user-1', sentAt },
+      { id: 'phone-only', userId: 'user-1', sentAt }
+    );
+    db.seed(
+      'notificationDelivery',
+      delivery('to-phone', 'both-devices', 'phone', PHONE_TOKEN),
+      delivery('to-tablet', 'both-devices', 'tablet', TABLET_TOKEN),
+      delivery('tablet-again', 'tablet-only', 'tablet', TABLET_TOKEN),
+      delivery('not-ready', 'phone-only', 'phone', PHONE_TOKEN)
+    );
+  });
+
+  it('settles deliveries and removes the device Expo no longer knows', async () => {
+    const deviceNotRegistered: ExpoPushReceipt = {
+      status: 'error',
+      message: '"ExponentPushToken[tablet]" is not a registered push notification recipient',
+      details: { error: 'DeviceNotRegistered' },
+    };
+    notificationService.setClient(fakeClient({
+      'ticket-to-phone': { status: 'ok' },
+      'ticket-to-tablet': deviceNotRegistered,
+      'ticket-tablet-again': deviceNotRegistered,
+    }));
+
+    const summary = await notificationService.processReceipts(now);
+
+    expect(summary).toEqual({ checked: 4, delivered: 1, failed: 2, retried: 1 });
+    expect(db.table('device').map(device => device.id)).toEqual(['phone']);
+
+    expect(getDelivery('to-phone')).toMatchObject({ status: 'DELIVERED', nextReceiptCheckAt: null });
+    expect(getDelivery('to-tablet')).toMatchObject({
+      status: 'FAILED',
+      error: 'DeviceNotRegistered',
+      nextReceiptCheckAt: null,
+    });
+
+    // One device got it, so the notification counts as delivered
+    expect(getNotification('both-devices')).toMatchObject({ deliveryStatus: 'DELIVERED', delivered: true });
+    expect(getNotification('tablet-only')).toMatchObject({
+      deliveryStatus: 'FAILED',
+      delivered: false,
+      deliveryError: 'DeviceNotRegistered',
+    });
+  });
+
+  it('checks again later for a receipt that is not ready', async () => {
+    notificationService.setClient(fakeClient({}));
+
+    await notificationService.processReceipts(now);
+
+    expect(getDelivery('not-ready')).toMatchObject({
+      status: 'SENT',
+      receiptAttempts: 1,
+      nextReceiptCheckAt: new Date(now.getTime() + 15 * 60 * 1000),
+    });
+    expect(getNotification('phone-only').deliveryStatus).toBe('SENT');
+  });
+
+  it('retries every receipt when Expo cannot be reached', async () => {
+    notificationService.setClient(fakeClient(new Error('socket hang up')));
+
+    const summary = await notificationService.processReceipts(now);
+
+    expect(summary).toEqual({ checked: 0, delivered: 0, failed: 0, retried: 4 });
+    expect(db.table('notificationDelivery').every(row => row.status === 'SENT' && row.receiptAttempts === 1)).toBe(true);
+    expect(db.table('device')).toHaveLength(2);
+  });
+
+  it('stops checking once Expo has discarded the receipt', async () => {
+    notificationService.setClient(fakeClient({}));
+
+    await notificationService.processReceipts(new Date(sentAt.getTime() + 24 * 60 * 60 * 1000));
+
+    expect(getDelivery('not-ready')).toMatchObject({
+      status: 'SENT',
+      error: 'ReceiptUnavailable',
+      nextReceiptCheckAt: null,
+    });
+  });
+});
+
+describe('NotificationService.sendPushNotification', () => {
+  const send = jest.fn(async (messages: unknown[]) => messages.map((_, index) => ({ status: 'ok' as const, id: `ticket-${index}` })));
+
+  beforeEach(() => {
+    db.reset();
+    // Relation selects aren't resolved, so the devices sit on the row
+    db.seed('user', {
+      id: 'user-1',
+      notificationsEnabled: true,
+      timezone: 'UTC',
+      mutedNotificationTypes: ['DREAM_REMINDER', 'SUBSCRIPTION_EXPIRING'],
+      quietHoursStart: '11:00',
+      quietHoursEnd: '13:00',
+      maxNotificationsPerDay: 1,
+      devices: [{ id: 'phone', pushToken: PHONE_TOKEN }],
+    });
+    db.seed('notification', { id: 'earlier', userId: 'user-1', type: 'ANALYSIS_COMPLETE', sentAt });
+    notificationService.setClient({ ...fakeClient({}), sendPushNotificationsAsync: send });
+    send.mockClear();
+    jest.useFakeTimers({ now, doNotFake: ['nextTick', 'setImmediate'] });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('sends billing notifications straight through muting, quiet hours and the daily limit', async () => {
+    const accepted = await notificationService.sendPushNotification(
+      'user-1',
+      'Payment Failed ⚠️',
+      'Please update your payment method.',
+      { type: 'payment_failed' },
+      'BILLING'
+    );
+
+    expect(accepted).toBe(true);
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(db.table('notification').find(row => row.type === 'BILLING')).toMatchObject({ sentAt: now });
+  });
+
+  it('holds back other types during quiet hours', async () => {
+    const accepted = await notificationService.sendPushNotification(
+      'user-1',
+      'Analysis ready',
+      'Your dream analysis is ready.',
+      {},
+      'ANALYSIS_COMPLETE'
+    );
+
+    expect(accepted).toBe(false);
+    expect(send).not.toHaveBeenCalled();
+    expect(db.table('notification').find(row => row.id !== 'earlier')).toMatchObject({
+      scheduledFor: new Date('2026-10-19T13:00:00Z'),
+    });
+  });
+});
+
+describe('NotificationService.getDueReminder', () => {
+  type Reminder = { dedupeKey: string; scheduledFor: Date } | null;
+  const service = notificationService as unknown as {
+    getDueReminder(user: { id: string; reminderTime: string | null; timezone: string }, now: Date): Reminder;
+  };
+
+  const dueAt = (reminderTime: string | null, timezone: string, now: string) =>
+    service.getDueReminder({ id: 'user-1', reminderTime, timezone }, new Date(now));
+
+  it('is due from the reminder time until the catch-up window closes', () => {
+    expect(dueAt('07:00', 'Europe/Berlin', '2026-10-19T04:59:00Z')).toBeNull();
+    expect(dueAt('07:00', 'Europe/Berlin', '2026-10-19T05:00:00Z')).toEqual({
+      dedupeKey: 'reminder:user-1:2026-10-19',
+      scheduledFor: new Date('2026-10-19T05:00:00Z'),
+    });
+    expect(dueAt('07:00', 'Europe/Berlin', '2026-10-19T05:29:00Z')?.dedupeKey).toBe('reminder:user-1:2026-10-19');
+    expect(dueAt('07:00', 'Europe/Berlin', '2026-10-19T05:30:00Z')).toBeNull();
+  });
+
+  it('catches up on a late-evening reminder after local midnight', () => {
+    expect(dueAt('23:50', 'Europe/Berlin', '2026-10-19T22:10:00Z')).toEqual({
+      dedupeKey: 'reminder:user-1:2026-10-19',
+      scheduledFor: new Date('2026-10-19T21:50:00Z'),
+    });
+  });
+
+  it('uses the local date and offset of a half-hour zone', () => {
+    expect(dueAt('07:00', 'Asia/Kolkata', '2026-10-19T01:45:00Z')).toEqual({
+      dedupeKey: 'reminder:user-1:2026-10-19',
+      scheduledFor: new Date('2026-10-19T01:30:00Z'),
+    });
+  });
+
+  it('sends a reminder skipped by spring-forward once the clocks jump', () => {
+    expect(dueAt('02:30', 'Europe/Berlin', '2026-03-29T01:40:00Z')).toEqual({
+      dedupeKey: 'reminder:user-1:2026-03-29',
+      scheduledFor: new Date('2026-03-29T01:30:00Z'),
+    });
+  });
+
+  it('sends a reminder repeated by fall-back only on its first occurrence', () => {
+    expect(dueAt('02:30', 'Europe/Berlin', '2026-10-25T00:40:00Z')?.dedupeKey).toBe('reminder:user-1:2026-10-25');
+    // The same wall-clock time an hour later is outside the window
+    expect(dueAt('02:30', 'Europe/Berlin', '2026-10-25T01:40:00Z')).toBeNull();
+  });
+
+  it('falls back to the default time in UTC', () => {
+    expect(dueAt(null, 'Not/AZone', '2026-10-19T08:05:00Z')?.scheduledFor).toEqual(new Date('2026-10-19T08:00:00Z'));
+  });
+});
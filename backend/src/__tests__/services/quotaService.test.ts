@@ -0,0 +1,98 @@
+import { prisma } from '../../config/database';
+import { quotaService } from '../../services/quotaService';
+import { FakePrisma } from '../helpers/fakePrisma';
+
+jest.mock('../../config/database', () => {
+  const { FakePrisma } = require('../helpers/fakePrisma');
+  return { prisma: new FakePrisma() };
+});
+
+const db = prisma as unknown as FakePrisma;
+
+const periodStart = new Date(Date.now() - 10 * 24 * 60 * 60 * 1000);
+
+const seedUser = (usage: Record<string, unknown> = {}) =>
+  db.seed('user', {
+    id: 'user-1',
+    subscriptionStatus: 'FREE',
+    dreamEntriesThisMonth: 0,
+    dreamEntriesResetAt: periodStart,
+    analysesThisMonth: 0,
+    transcriptionSecondsThisMonth: 0,
+    ...usage,
+  });
+
+const getUser = () => db.table('user')[0];
+
+describe('QuotaService.consume', () => {
+  beforeEach(() => {
+    db.reset();
+  });
+
+  it('counts uses up to the limit and refuses the next one', async () => {
+    seedUser({ dreamEntriesThisMonth: 4 });
+
+    await expect(quotaService.consume('user-1', 'dreamEntries')).resolves.toBeNull();
+    const exceeded = await quotaService.consume('user-1', 'dreamEntries');
+
+    const resetsAt = new Date(periodStart);
+    resetsAt.setMonth(resetsAt.getMonth() + 1);
+    expect(exceeded).toEqual({
+      quota: 'dreamEntries',
+      used: 5,
+      limit: 5,
+      resetsAt,
+      upgrade: { tier: 'PREMIUM', limit: null },
+    });
+    expect(getUser().dreamEntriesThisMonth).toBe(5);
+  });
+
+  it('gives the last slot to exactly one of several parallel requests', async () => {
+    seedUser({ analysesThisMonth: 9 });
+
+    const results = await Promise.all([1, 2, 3].map(() => quotaService.consume('user-1', 'analyses')));
+
+    expect(results.filter(result => result === null)).toHaveLength(1);
+    expect(getUser().analysesThisMonth).toBe(10);
+  });
+
+  it('refuses an amount that would overshoot the limit without counting any of it', async () => {
+    seedUser({ analysesThisMonth: 8 });
+
+    await expect(quotaService.consume('user-1', 'analyses', 3)).resolves.toMatchObject({ quota: 'analyses', used: 8 });
+    expect(getUser().analysesThisMonth).toBe(8);
+  });
+
+  it('keeps counting where the tier has no limit', async () => {
+    seedUser({ subscriptionStatus: 'PREMIUM', dreamEntriesThisMonth: 500 });
+
+    await expect(quotaService.consume('user-1', 'dreamEntries')).resolves.toBeNull();
+    expect(getUser().dreamEntriesThisMonth).toBe(501);
+  });
+
+  it('starts a new period before counting when the month is up', async () => {
+    seedUser({
+      dreamEntriesThisMonth: 5,
+      analysesThisMonth: 10,
+      transcriptionSecondsThisMonth: 1800,
+      dreamEntriesResetAt: new Date(Date.now() - 40 * 24 * 60 * 60 * 1000),
+    });
+
+    await expect(quotaService.consume('user-1', 'dreamEntries')).resolves.toBeNull();
+    expect(getUser()).toMatchObject({
+      dreamEntriesThisMonth: 1,
+      analysesThisMonth: 0,
+      transcriptionSecondsThisMonth: 0,
+    });
+    expect(getUser().dreamEntriesResetAt.getTime()).toBeGreaterThan(periodStart.getTime());
+  });
+
+  it('gives back a use without going below zero', async () => {
+    seedUser({ analysesThisMonth: 1 });
+
+    await quotaService.release('user-1', 'analyses');
+    await quotaService.release('user-1', 'analyses');
+
+    expect(getUser().analysesThisMonth).toBe(0);
+  });
+});
@@ -0,0 +1,81 @@
+import { prisma } from '../../config/database';
+import { sessionService } from '../../services/sessionService';
+import { FakePrisma } from '../helpers/fakePrisma';
+
+jest.mock('../../config/database', () => {
+  const { FakePrisma } = require('../helpers/fakePrisma');
+  return {
+    prisma: new FakePrisma({
+      session: { defaults: () => ({ revokedAt: null, revokedReason: null, lastUsedAt: new Date() }) },
+    }),
+  };
+});
+
+const db = prisma as unknown as FakePrisma;
+
+const context = { deviceName: 'Pixel', userAgent: 'DreamJournal/1.0', ipAddress: '10.0.0.1' };
+
+const getSession = (id: string) => db.table('session').find(row => row.id === id)!;
+
+describe('SessionService.rotate', () => {
+  beforeEach(() => {
+    db.reset();
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  it('swaps the refresh token for a new one', async () => {
+    const { session, refreshToken } = await sessionService.createSession('user-1', context);
+
+    const result = await sessionService.rotate(refreshToken, { ipAddress: '10.0.0.2' });
+
+    expect(result.status).toBe('rotated');
+    if (result.status !== 'rotated') {
+      return;
+    }
+    expect(result.refreshToken).not.toBe(refreshToken);
+    expect(result.refreshToken.startsWith(`${session.id}.`)).toBe(true);
+    expect(getSession(session.id)).toMatchObject({ revokedAt: null, ipAddress: '10.0.0.2', userAgent: context.userAgent });
+    await expect(sessionService.findByToken(result.refreshToken)).resolves.toMatchObject({ id: session.id });
+  });
+
+  it('revokes the session when a rotated-away token comes back', async () => {
+    const { session, refreshToken } = await sessionService.createSession('user-1', context);
+    const other = await sessionService.createSession('user-1', { deviceName: 'iPad' });
+    const rotated = await sessionService.rotate(refreshToken, context);
+
+    await expect(sessionService.rotate(refreshToken, context)).resolves.toEqual({ status: 'reused' });
+
+    expect(getSession(session.id)).toMatchObject({ revokedAt: expect.any(Date), revokedReason: 'reuse_detected' });
+    // The rotated token dies with the session; the user's other sessions stay
+    await expect(sessionService.rotate((rotated as { refreshToken: string }).refreshToken, context))
+      .resolves.toEqual({ status: 'invalid' });
+    await expect(sessionService.isActive(other.session.id)).resolves.toBe(true);
+  });
+
+  it('lets only one of two simultaneous refreshes win', async () => {
+    const { session, refreshToken } = await sessionService.createSession('user-1', context);
+
+    const results = await Promise.all([
+      sessionService.rotate(refreshToken, context),
+      sessionService.rotate(refreshToken, context),
+    ]);
+
+    expect(results.map(result => result.status).sort()).toEqual(['reused', 'rotated']);
+    expect(getSession(session.id).revokedReason).toBe('reuse_detected');
+  });
+
+  it('turns away malformed, unknown, expired and revoked tokens without revoking anything', async () => {
+    const { session, refreshToken } = await sessionService.createSession('user-1', context);
+    const expired = await sessionService.createSession('user-1', context);
+    getSession(expired.session.id).expiresAt = new Date(Date.now() - 1000);
+
+    for (const token of ['not-a-token', 'a.b.c', `missing-session.${refreshToken.split('.')[1]}`, expired.refreshToken]) {
+      await expect(sessionService.rotate(token, context)).resolves.toEqual({ status: 'invalid' });
+    }
+    expect(getSession(session.id).revokedAt).toBeNull();
+
+    await sessionService.revoke(session.id, 'user-1', 'logout');
+    await expect(sessionService.rotate(refreshToken, context)).resolves.toEqual({ status: 'invalid' });
+    expect(getSession(session.id).revokedReason).toBe('logout');
+  });
+});
@@ -0,0 +1,103 @@
+import Stripe from 'stripe';
+import { prisma } from '../../config/database';
+import { stripeService } from '../../services/stripeService';
+import { notificationService } from '../../services/notificationService';
+import { FakePrisma } from '../helpers/fakePrisma';
+import subscriptionCreated from '../fixtures/stripe/subscriptionCreated.json';
+import subscriptionUpdated from '../fixtures/stripe/subscriptionUpdated.json';
+import subscriptionDeleted from '../fixtures/stripe/subscriptionDeleted.json';
+
+jest.mock('../../config/database', () => {
+  const { FakePrisma } = require('../helpers/fakePrisma');
+  return {
+    prisma: new FakePrisma({
+      stripeEvent: { defaults: () => ({ status: 'PROCESSING', attempts: 1, error: null, processedAt: null }) },
+      subscription: { unique: [['stripeSubscriptionId']], defaults: () => ({ lastEventAt: null }) },
+      user: { defaults: () => ({ subscriptionStatus: 'FREE', subscriptionId: null, subscriptionEndsAt: null }) },
+    }),
+  };
+});
+
+jest.mock('../../services/notificationService', () => ({
+  notificationService: { sendPushNotification: jest.fn().mockResolvedValue(true) },
+}));
+
+const db = prisma as unknown as FakePrisma;
+
+// Fixtures are shared between tests, so each one gets its own copy
+const load = (fixture: object): Stripe.Event => JSON.parse(JSON.stringify(fixture));
+
+const getUser = () => db.table('user').find(user => user.id === 'user-1')!;
+const getLedgerRow = (eventId: string) => db.table('stripeEvent').find(row => row.id === eventId)!;
+
+describe('StripeService.handleWebhookEvent', () => {
+  beforeEach(() => {
+    db.reset();
+    db.seed('user', { id: 'user-1', email: 'dreamer@example.com' });
+    jest.clearAllMocks();
+  });
+
+  it('applies the first delivery and records it on the ledger', async () => {
+    await expect(stripeService.handleWebhookEvent(load(subscriptionCreated))).resolves.toBe('processed');
+
+    expect(getUser()).toMatchObject({ subscriptionStatus: 'PREMIUM', subscriptionId: 'sub_1QfixtureABC' });
+    expect(db.table('subscription')).toEqual([
+      expect.objectContaining({ status: 'PREMIUM', priceId: 'price_1Qpremium', userId: 'user-1' }),
+    ]);
+    expect(getLedgerRow('evt_1Qcreated')).toMatchObject({
+      status: 'PROCESSED',
+      type: 'customer.subscription.created',
+      objectId: 'sub_1QfixtureABC',
+    });
+    expect(notificationService.sendPushNotification).toHaveBeenCalledTimes(1);
+  });
+
+  it('answers duplicate for an event that was already applied', async () => {
+    await stripeService.handleWebhookEvent(load(subscriptionCreated));
+
+    await expect(stripeService.handleWebhookEvent(load(subscriptionCreated))).resolves.toBe('duplicate');
+
+    expect(db.table('subscription')).toHaveLength(1);
+    expect(getLedgerRow('evt_1Qcreated').attempts).toBe(1);
+    expect(notificationService.sendPushNotification).toHaveBeenCalledTimes(1);
+  });
+
+  it('drops an event older than the one last applied', async () => {
+    await stripeService.handleWebhookEvent(load(subscriptionCreated));
+    await stripeService.handleWebhookEvent(load(subscriptionUpdated));
+    await stripeService.handleWebhookEvent(load(subscriptionDeleted));
+
+    // Stripe redelivers the created event after the subscription ended
+    const late = load(subscriptionCreated);
+    late.id = 'evt_1QcreatedRetry';
+    await expect(stripeService.handleWebhookEvent(late)).resolves.toBe('skipped');
+
+    expect(getUser()).toMatchObject({ subscriptionStatus: 'FREE', subscriptionId: null });
+    expect(db.table('subscription')[0]).toMatchObject({
+      status: 'CANCELLED',
+      lastEventAt: new Date(subscriptionDeleted.created * 1000),
+    });
+    expect(getLedgerRow('evt_1QcreatedRetry').status).toBe('SKIPPED');
+  });
+
+  it('keeps a deletion that arrives before the subscription was created', async () => {
+    await expect(stripeService.handleWebhookEvent(load(subscriptionDeleted))).resolves.toBe('processed');
+    await expect(stripeService.handleWebhookEvent(load(subscriptionCreated))).resolves.toBe('skipped');
+    await expect(stripeService.handleWebhookEvent(load(subscriptionUpdated))).resolves.toBe('skipped');
+
+    expect(getUser().subscriptionStatus).toBe('FREE');
+    expect(db.table('subscription')).toEqual([expect.objectContaining({ status: 'CANCELLED' })]);
+  });
+
+  it('lets an admin replay an event that failed', async () => {
+    jest.spyOn(db.model('user'), 'updateMany').mockRejectedValueOnce(new Error('connection reset'));
+
+    await expect(stripeService.handleWebhookEvent(load(subscriptionCreated))).rejects.toThrow('connection reset');
+    expect(getLedgerRow('evt_1Qcreated')).toMatchObject({ status: 'FAILED', error: 'connection reset' });
+
+    const result = await stripeService.replayEvent('evt_1Qcreated');
+
+    expect(result).toMatchObject({ status: 'replayed', event: { status: 'PROCESSED', attempts: 2, error: null } });
+    expect(getUser().subscriptionStatus).toBe('PREMIUM');
+  });
+});
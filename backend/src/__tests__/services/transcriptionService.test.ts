@@ -0,0 +1,55 @@
+import { TranscriptionProvider, transcriptionService } from '../../services/transcriptionService';
+
+// The service starts on the provider TRANSCRIPTION_PROVIDER picks, local in tests
+const localProvider = (transcriptionService as unknown as { provider: TranscriptionProvider }).provider;
+
+const audio = Buffer.from('RIFF....WAVEfmt fake dream recording');
+
+describe('TranscriptionService', () => {
+  beforeEach(() => {
+    transcriptionService.setProvider(localProvider);
+  });
+
+  it('transcribes offline on the local provider', async () => {
+    const result = await transcriptionService.transcribe(audio, { fileName: 'dream.m4a' });
+
+    expect(transcriptionService.providerName).toBe('local');
+    expect(result).toEqual({
+      text: expect.stringMatching(/^Local transcription of dream\.m4a \(36 bytes, [0-9a-f]{12}\)$/),
+      language: 'en',
+      provider: 'local',
+    });
+  });
+
+  it('gives the same audio the same transcript', async () => {
+    const first = await transcriptionService.transcribe(audio, { fileName: 'dream.m4a', language: 'de' });
+    const again = await transcriptionService.transcribe(Buffer.from(audio), { fileName: 'dream.m4a', language: 'de' });
+    const other = await transcriptionService.transcribe(Buffer.from('another night'), { fileName: 'dream.m4a' });
+
+    expect(again).toEqual(first);
+    expect(first.language).toBe('de');
+    expect(other.text).not.toBe(first.text);
+  });
+
+  it('rejects an empty recording before calling the provider', async () => {
+    const transcribe = jest.fn();
+    transcriptionService.setProvider({ name: 'spy', transcribe });
+
+    await expect(transcriptionService.transcribe(Buffer.alloc(0), { fileName: 'empty.m4a' }))
+      .rejects.toThrow('Cannot transcribe an empty audio file');
+    expect(transcribe).not.toHaveBeenCalled();
+  });
+
+  it('hides provider errors behind a generic failure', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    transcriptionService.setProvider({
+      name: 'broken',
+      transcribe: async () => {
+        throw new Error('401 Incorrect API key provided');
+      },
+    });
+
+    await expect(transcriptionService.transcribe(audio, { fileName: 'dream.m4a' }))
+      .rejects.toThrow('Failed to transcribe voice recording');
+  });
+});
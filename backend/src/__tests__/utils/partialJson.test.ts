@@ -0,0 +1,67 @@
+import { PartialJsonUtils } from '../../utils/partialJson';
+
+const reply = JSON.stringify({
+  interpretation: 'You were "flying" over a city of {lanterns}.\nIt felt calm.',
+  symbolAnalysis: { water: ['calm', 'depth'], lantern: 'guidance' },
+  themes: ['freedom', 'discovery'],
+  confidence: 0.85,
+  isNightmare: false,
+  notes: null,
+}, null, 2);
+
+describe('PartialJsonUtils.readObject', () => {
+  it('reads nothing before the object starts', () => {
+    expect(PartialJsonUtils.readObject('')).toEqual({ values: {}, partial: null });
+    expect(PartialJsonUtils.readObject('Here is the analysis: ')).toEqual({ values: {}, partial: null });
+  });
+
+  it('skips text the model wrote ahead of the object', () => {
+    expect(PartialJsonUtils.readObject('Sure! {"themes": ["sea"], "interpretation": "The se')).toEqual({
+      values: { themes: ['sea'] },
+      partial: { key: 'interpretation', text: 'The se' },
+    });
+  });
+
+  it('reads every value of a complete object', () => {
+    expect(PartialJsonUtils.readObject(reply)).toEqual({ values: JSON.parse(reply), partial: null });
+  });
+
+  it('holds back nested values and numbers until they close', () => {
+    expect(PartialJsonUtils.readObject('{"themes": ["freedom", "disc').values).toEqual({});
+    expect(PartialJsonUtils.readObject('{"symbolAnalysis": {"water": "}"').values).toEqual({});
+    expect(PartialJsonUtils.readObject('{"confidence": 0.8').values).toEqual({});
+    expect(PartialJsonUtils.readObject('{"confidence": 0.85\n').values).toEqual({ confidence: 0.85 });
+  });
+
+  it('decodes a partial string without a half-written escape', () => {
+    expect(PartialJsonUtils.readObject('{"interpretation": "line one\\nline two').partial)
+      .toEqual({ key: 'interpretation', text: 'line one\nline two' });
+    expect(PartialJsonUtils.readObject('{"interpretation": "a \\"quoted\\').partial)
+      .toEqual({ key: 'interpretation', text: 'a "quoted' });
+    expect(PartialJsonUtils.readObject('{"interpretation": "caf\\u00').partial)
+      .toEqual({ key: 'interpretation', text: 'caf' });
+  });
+
+  it('ignores a key that is still being written', () => {
+    expect(PartialJsonUtils.readObject('{"confidence": 1, "interpre')).toEqual({
+      values: { confidence: 1 },
+      partial: null,
+    });
+    expect(PartialJsonUtils.readObject('{"interpretation"')).toEqual({ values: {}, partial: null });
+  });
+
+  it('never reports a value that changes once the rest arrives', () => {
+    const final = JSON.parse(reply);
+
+    for (let length = 0; length <= reply.length; length++) {
+      const { values, partial } = PartialJsonUtils.readObject(reply.substring(0, length));
+
+      for (const [key, value] of Object.entries(values)) {
+        expect(value).toEqual(final[key]);
+      }
+      if (partial) {
+        expect(final[partial.key].startsWith(partial.text)).toBe(true);
+      }
+    }
+  });
+});
@@ -0,0 +1,39 @@
+import { TimezoneUtils } from '../../utils/timezone';
+
+describe('TimezoneUtils.zonedTimeToUtc', () => {
+  it('converts an ordinary wall-clock time', () => {
+    expect(TimezoneUtils.zonedTimeToUtc({ year: 2026, month: 7, day: 1, hour: 8, minute: 0 }, 'America/New_York'))
+      .toEqual(new Date('2026-07-01T12:00:00Z'));
+  });
+
+  it('moves a time skipped by spring-forward ahead by the gap', () => {
+    // Berlin jumps from 02:00 to 03:00 on 29 March 2026
+    expect(TimezoneUtils.zonedTimeToUtc({ year: 2026, month: 3, day: 29, hour: 2, minute: 30 }, 'Europe/Berlin'))
+      .toEqual(new Date('2026-03-29T01:30:00Z'));
+    expect(TimezoneUtils.zonedTimeToUtc({ year: 2026, month: 3, day: 29, hour: 3, minute: 30 }, 'Europe/Berlin'))
+      .toEqual(new Date('2026-03-29T01:30:00Z'));
+  });
+
+  it('resolves a time repeated by fall-back to its first occurrence', () => {
+    // Berlin goes from 03:00 back to 02:00 on 25 October 2026
+    expect(TimezoneUtils.zonedTimeToUtc({ year: 2026, month: 10, day: 25, hour: 2, minute: 30 }, 'Europe/Berlin'))
+      .toEqual(new Date('2026-10-25T00:30:00Z'));
+    expect(TimezoneUtils.zonedTimeToUtc({ year: 2026, month: 10, day: 25, hour: 3, minute: 30 }, 'Europe/Berlin'))
+      .toEqual(new Date('2026-10-25T02:30:00Z'));
+  });
+
+  it('handles half-hour offsets', () => {
+    expect(TimezoneUtils.zonedTimeToUtc({ year: 2026, month: 10, day: 19, hour: 7, minute: 0 }, 'Asia/Kolkata'))
+      .toEqual(new Date('2026-10-19T01:30:00Z'));
+    // Adelaide is on daylight time (+10:30) from 4 October 2026
+    expect(TimezoneUtils.zonedTimeToUtc({ year: 2026, month: 10, day: 19, hour: 7, minute: 0 }, 'Australia/Adelaide'))
+      .toEqual(new Date('2026-10-18T20:30:00Z'));
+    expect(TimezoneUtils.zonedTimeToUtc({ year: 2026, month: 7, day: 1, hour: 7, minute: 0 }, 'Australia/Adelaide'))
+      .toEqual(new Date('2026-06-30T21:30:00Z'));
+  });
+
+  it('can land on the previous UTC day', () => {
+    expect(TimezoneUtils.zonedTimeToUtc({ year: 2026, month: 1, day: 1, hour: 0, minute: 15 }, 'Asia/Kolkata'))
+      .toEqual(new Date('2025-12-31T18:45:00Z'));
+  });
+});
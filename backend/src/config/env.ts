@@ -1,3 +1,4 @@
+import os from 'os';
 import { config } from 'dotenv';
 
 config();
@@ -12,7 +13,8 @@ export const env = {
   
   // JWT
   JWT_SECRET: process.env.JWT_SECRET!,
-  JWT_EXPIRES_IN: process.env.JWT_EXPIRES_IN || '7d',
+  JWT_EXPIRES_IN: process.env.JWT_EXPIRES_IN || '15m',
+  REFRESH_TOKEN_EXPIRES_DAYS: parseInt(process.env.REFRESH_TOKEN_EXPIRES_DAYS || '60'),
   
   // AWS S3
   AWS_ACCESS_KEY_ID: process.env.AWS_ACCESS_KEY_ID!,
@@ -23,16 +25,69 @@ export const env = {
   // OpenAI
   OPENAI_API_KEY: process.env.OPENAI_API_KEY!,
   
+  // Speech-to-text ('whisper' or 'local')
+  TRANSCRIPTION_PROVIDER: process.env.TRANSCRIPTION_PROVIDER || 'whisper',
+  WHISPER_MODEL: process.env.WHISPER_MODEL || 'whisper-1',
+  
+  // Language models, chosen per task ('openai', 'openai-compatible' or 'local').
+  // LLM_PROVIDER sets the default for every task.
+  LLM_ANALYSIS_PROVIDER: process.env.LLM_ANALYSIS_PROVIDER || process.env.LLM_PROVIDER || 'openai',
+  LLM_ANALYSIS_MODEL: process.env.LLM_ANALYSIS_MODEL || 'gpt-4-turbo-preview',
+  LLM_SYMBOLS_PROVIDER: process.env.LLM_SYMBOLS_PROVIDER || process.env.LLM_PROVIDER || 'openai',
+  LLM_SYMBOLS_MODEL: process.env.LLM_SYMBOLS_MODEL || 'gpt-3.5-turbo',
+  LLM_PATTERNS_PROVIDER: process.env.LLM_PATTERNS_PROVIDER || process.env.LLM_PROVIDER || 'openai',
+  LLM_PATTERNS_MODEL: process.env.LLM_PATTERNS_MODEL || 'gpt-4-turbo-preview',
+  
+  // OpenAI-compatible server (Ollama, llama.cpp, vLLM, ...)
+  LLM_COMPATIBLE_BASE_URL: process.env.LLM_COMPATIBLE_BASE_URL || 'http://localhost:11434/v1',
+  LLM_COMPATIBLE_API_KEY: process.env.LLM_COMPATIBLE_API_KEY || 'not-needed',
+  LLM_COMPATIBLE_JSON_MODE: process.env.LLM_COMPATIBLE_JSON_MODE !== 'false',
+  
+  // Dream embeddings (same providers as above)
+  EMBEDDING_PROVIDER: process.env.EMBEDDING_PROVIDER || process.env.LLM_PROVIDER || 'openai',
+  EMBEDDING_MODEL: process.env.EMBEDDING_MODEL || 'text-embedding-3-small',
+  SEMANTIC_SEARCH_MIN_SIMILARITY: parseFloat(process.env.SEMANTIC_SEARCH_MIN_SIMILARITY || '0.3'),
+  SEMANTIC_SEARCH_MAX_RESULTS: parseInt(process.env.SEMANTIC_SEARCH_MAX_RESULTS || '100'),
+  
+  // Background analysis worker
+  ANALYSIS_WORKER_ENABLED: process.env.ANALYSIS_WORKER_ENABLED !== 'false',
+  ANALYSIS_WORKER_POLL_MS: parseInt(process.env.ANALYSIS_WORKER_POLL_MS || '5000'),
+  ANALYSIS_JOB_MAX_ATTEMPTS: parseInt(process.env.ANALYSIS_JOB_MAX_ATTEMPTS || '3'),
+  ANALYSIS_JOB_BACKOFF_MS: parseInt(process.env.ANALYSIS_JOB_BACKOFF_MS || '30000'),
+  
   // Stripe
   STRIPE_SECRET_KEY: process.env.STRIPE_SECRET_KEY!,
   STRIPE_WEBHOOK_SECRET: process.env.STRIPE_WEBHOOK_SECRET!,
   
+  // Account deletion
+  ACCOUNT_DELETION_GRACE_DAYS: parseInt(process.env.ACCOUNT_DELETION_GRACE_DAYS || '30'),
+  
+  // Scheduled jobs. Every instance may run the scheduler; a database lease
+  // makes sure only one of them executes each tick.
+  SCHEDULER_ENABLED: process.env.SCHEDULER_ENABLED !== 'false',
+  INSTANCE_ID: process.env.INSTANCE_ID || process.env.FLY_MACHINE_ID || `${os.hostname()}-${process.pid}`,
+  JOB_LEASE_MS: parseInt(process.env.JOB_LEASE_MS || '300000'),
+  JOB_RUN_RETENTION_DAYS: parseInt(process.env.JOB_RUN_RETENTION_DAYS || '14'),
+  SUBSCRIPTION_EXPIRY_NOTICE_DAYS: parseInt(process.env.SUBSCRIPTION_EXPIRY_NOTICE_DAYS || '3'),
+  
+  // Transactional email ('console', 'file' or 'sendgrid')
+  MAIL_TRANSPORT: process.env.MAIL_TRANSPORT || 'console',
+  MAIL_FROM: process.env.MAIL_FROM || 'Dream Journal Pro <no-reply@dreamjournalpro.com>',
+  MAIL_OUTPUT_DIR: process.env.MAIL_OUTPUT_DIR || './tmp/mail',
+  SENDGRID_API_KEY: process.env.SENDGRID_API_KEY,
+  APP_URL: process.env.APP_URL,
+  PASSWORD_RESET_EXPIRES_MINUTES: parseInt(process.env.PASSWORD_RESET_EXPIRES_MINUTES || '60'),
+  PASSWORD_RESET_RESEND_SECONDS: parseInt(process.env.PASSWORD_RESET_RESEND_SECONDS || '60'),
+  EMAIL_VERIFICATION_EXPIRES_HOURS: parseInt(process.env.EMAIL_VERIFICATION_EXPIRES_HOURS || '48'),
+  EMAIL_VERIFICATION_RESEND_SECONDS: parseInt(process.env.EMAIL_VERIFICATION_RESEND_SECONDS || '60'),
+  
   // Expo Push Notifications
   EXPO_ACCESS_TOKEN: process.env.EXPO_ACCESS_TOKEN,
   
-  // Rate Limiting
+  // Rate Limiting (counters kept in 'memory')
   RATE_LIMIT_WINDOW_MS: parseInt(process.env.RATE_LIMIT_WINDOW_MS || '900000'),
   RATE_LIMIT_MAX_REQUESTS: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '100'),
+  RATE_LIMIT_STORE: process.env.RATE_LIMIT_STORE || 'memory',
 };
 
 // Validate required environment variables
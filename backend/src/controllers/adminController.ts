@@ -0,0 +1,209 @@
+import { Response } from 'express';
+import { JobRunStatus, StripeEventStatus } from '@prisma/client';
+import { schedulerService } from '../services/schedulerService';
+import { stripeService } from '../services/stripeService';
+import { llmService, LlmTask } from '../services/llmService';
+import { AuthenticatedRequest, ApiResponse } from '../types';
+
+export class AdminController {
+  // Registered jobs with their lease holder, next tick and latest run
+  static async getJobs(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const jobs = await schedulerService.listJobs();
+
+      const response: ApiResponse = {
+        success: true,
+        data: { jobs },
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Get jobs error:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to get jobs',
+      };
+      res.status(500).json(response);
+    }
+  }
+
+  static async getJobRuns(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { name } = req.params;
+      const { limit = 20, status } = req.query as { limit?: number; status?: JobRunStatus };
+
+      const runs = await schedulerService.getRuns(name, limit, status);
+
+      if (!runs) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'Job not found',
+        };
+        res.status(404).json(response);
+        return;
+      }
+
+      const response: ApiResponse = {
+        success: true,
+        data: { runs },
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Get job runs error:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to get job runs',
+      };
+      res.status(500).json(response);
+    }
+  }
+
+  // Starts the job right away and answers before it finishes; poll the runs for the outcome
+  static async triggerJob(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { name } = req.params;
+
+      const result = await schedulerService.trigger(name, req.user!.id);
+
+      if (result.status === 'not_found') {
+        const response: ApiResponse = {
+          success: false,
+          error: 'Job not found',
+        };
+        res.status(404).json(response);
+        return;
+      }
+
+      if (result.status === 'busy') {
+        const response: ApiResponse = {
+          success: false,
+          error: 'Job is already running',
+        };
+        res.status(409).json(response);
+        return;
+      }
+
+      const response: ApiResponse = {
+        success: true,
+        message: `Job ${name} started`,
+        data: { run: result.run },
+      };
+
+      res.status(202).json(response);
+    } catch (error) {
+      console.error('Trigger job error:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to trigger job',
+      };
+      res.status(500).json(response);
+    }
+  }
+
+  // Webhook ledger, newest first; filter by FAILED to find what needs a replay
+  static async getStripeEvents(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { limit = 50, status, type } = req.query as {
+        limit?: number;
+        status?: StripeEventStatus;
+        type?: string;
+      };
+
+      const events = await stripeService.listEvents(limit, status, type);
+
+      const response: ApiResponse = {
+        success: true,
+        data: { events },
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Get Stripe events error:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to get Stripe events',
+      };
+      res.status(500).json(response);
+    }
+  }
+
+  // Processes the event again and answers with its ledger row once done
+  static async replayStripeEvent(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const result = await stripeService.replayEvent(id);
+
+      if (result.status === 'not_found') {
+        const response: ApiResponse = {
+          success: false,
+          error: 'Event not found',
+        };
+        res.status(404).json(response);
+        return;
+      }
+
+      if (result.status === 'busy') {
+        const response: ApiResponse = {
+          success: false,
+          error: 'Event is already being processed',
+        };
+        res.status(409).json(response);
+        return;
+      }
+
+      if (result.event.status === 'FAILED') {
+        const response: ApiResponse = {
+          success: false,
+          error: `Event replay failed: ${result.event.error}`,
+          data: { event: result.event },
+        };
+        res.status(500).json(response);
+        return;
+      }
+
+      const response: ApiResponse = {
+        success: true,
+        message: `Event ${id} replayed`,
+        data: { event: result.event },
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Replay Stripe event error:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to replay Stripe event',
+      };
+      res.status(500).json(response);
+    }
+  }
+
+  // Per task and model: how often a reply needed repair, and how often repair failed too
+  static async getLlmFailures(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { days = 7, limit = 50, task } = req.query as {
+        days?: number;
+        limit?: number;
+        task?: LlmTask;
+      };
+
+      const failures = await llmService.getInvalidOutputs(days, limit, task);
+
+      const response: ApiResponse = {
+        success: true,
+        data: failures,
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Get LLM failures error:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to get LLM failures',
+      };
+      res.status(500).json(response);
+    }
+  }
+}
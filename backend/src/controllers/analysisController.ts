@@ -1,42 +1,107 @@
 import { Response } from 'express';
+import { AnalysisType } from '@prisma/client';
 import { prisma } from '../config/database';
 import { openaiService } from '../services/openaiService';
+import { analysisJobService } from '../services/analysisJobService';
+import { quotaService } from '../services/quotaService';
+import { entitlementService } from '../services/entitlementService';
+import { changeLogService } from '../services/changeLogService';
+import { AnalysisDiffUtils } from '../utils/analysisDiff';
 import { AuthenticatedRequest, ApiResponse } from '../types';
 
+// Comment lines keep proxies from closing a stream that is waiting on the model
+const STREAM_HEARTBEAT_MS = 15000;
+
 export class AnalysisController {
   static async analyzeDream(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
       const userId = req.user!.id;
       const dreamId = req.params.dreamId;
       const subscriptionStatus = req.user!.subscriptionStatus;
-      const { analysisType = 'BASIC' } = req.body;
+      const { analysisType = 'BASIC', regenerate = false } = req.body;
+
+      const dream = await AnalysisController.findDream(userId, dreamId, analysisType);
 
-      // Premium features check
-      if (analysisType !== 'BASIC' && subscriptionStatus === 'FREE') {
+      if (!dream) {
         const response: ApiResponse = {
           success: false,
-          error: 'Advanced analysis features require Premium subscription',
-          data: { upgradeRequired: true },
+          error: 'Dream not found',
         };
-        res.status(403).json(response);
+        res.status(404).json(response);
         return;
       }
 
-      // Find the dream
-      const dream = await prisma.dream.findFirst({
-        where: {
-          id: dreamId,
-          userId,
-        },
-        include: {
-          analysis: {
-            where: { analysisType },
-            orderBy: { createdAt: 'desc' },
-            take: 1,
+      // Return the latest analysis unless a new version was asked for. It is
+      // still returned after the dream is edited, flagged with isStale.
+      if (dream.analysis.length > 0 && !regenerate) {
+        const response: ApiResponse = {
+          success: true,
+          data: {
+            analysis: dream.analysis[0],
+            cached: true,
           },
-        },
+        };
+        res.json(response);
+        return;
+      }
+
+      // Queue the analysis; the worker runs it and notifies the user when done
+      const result = await analysisJobService.enqueue({
+        userId,
+        dreamId,
+        analysisType,
+        includeHistory: entitlementService.hasFeature(subscriptionStatus, 'analysis_history_context'),
       });
 
+      if (result.exceeded) {
+        const response: ApiResponse = {
+          success: false,
+          error: quotaService.getExceededMessage(result.exceeded),
+          data: { upgradeRequired: result.exceeded.upgrade !== null, ...result.exceeded },
+        };
+        res.status(402).json(response);
+        return;
+      }
+
+      const { job } = result;
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Dream analysis queued',
+        data: {
+          jobId: job.id,
+          status: job.status,
+          progress: job.progress,
+        },
+      };
+
+      res.status(202).json(response);
+    } catch (error) {
+      console.error('Dream analysis error:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to analyze dream',
+      };
+      res.status(500).json(response);
+    }
+  }
+
+  // Same as analyzeDream, but runs the analysis in this request and streams it
+  // as Server-Sent Events: `job`, then `interpretation` deltas and a `section`
+  // for each other part as the model finishes it, then `complete` with the
+  // stored analysis. `error` means it failed; the job retries in the background
+  // when status is FAILED. `queued` means a worker already has it, so poll the job.
+  static async streamAnalysis(req: AuthenticatedRequest, res: Response): Promise<void> {
+    let heartbeat: ReturnType<typeof setInterval> | null = null;
+
+    try {
+      const userId = req.user!.id;
+      const dreamId = req.params.dreamId;
+      const subscriptionStatus = req.user!.subscriptionStatus;
+      const { analysisType = 'BASIC', regenerate = false } = req.body;
+
+      const dream = await AnalysisController.findDream(userId, dreamId, analysisType);
+
       if (!dream) {
         const response: ApiResponse = {
           success: false,
@@ -46,94 +111,138 @@ export class AnalysisController {
         return;
       }
 
-      // Return existing analysis if found
-      if (dream.analysis.length > 0) {
+      if (dream.analysis.length > 0 && !regenerate) {
+        AnalysisController.openStream(res);
+        AnalysisController.sendEvent(res, 'complete', { analysis: dream.analysis[0], cached: true });
+        res.end();
+        return;
+      }
+
+      const result = await analysisJobService.enqueue({
+        userId,
+        dreamId,
+        analysisType,
+        includeHistory: entitlementService.hasFeature(subscriptionStatus, 'analysis_history_context'),
+      }, { claim: true });
+
+      if (result.exceeded) {
         const response: ApiResponse = {
-          success: true,
-          data: {
-            analysis: dream.analysis[0],
-            cached: true,
-          },
+          success: false,
+          error: quotaService.getExceededMessage(result.exceeded),
+          data: { upgradeRequired: result.exceeded.upgrade !== null, ...result.exceeded },
         };
-        res.json(response);
+        res.status(402).json(response);
         return;
       }
 
-      // Get user's recent dreams for context (Premium feature)
-      let userHistory: any[] = [];
-      if (subscriptionStatus === 'PREMIUM') {
-        const recentDreams = await prisma.dream.findMany({
-          where: {
-            userId,
-            id: { not: dreamId },
-          },
-          select: {
-            dreamDate: true,
-            symbols: true,
-            emotions: true,
-            themes: true,
-          },
-          orderBy: { dreamDate: 'desc' },
-          take: 5,
-        });
+      const { job, claimed } = result;
+
+      AnalysisController.openStream(res);
 
-        userHistory = recentDreams.map((d: any) => ({
-          date: d.dreamDate,
-          symbols: d.symbols,
-          emotions: d.emotions,
-          themes: d.themes,
-        }));
+      if (!claimed) {
+        AnalysisController.sendEvent(res, 'queued', { jobId: job.id, status: job.status, progress: job.progress });
+        res.end();
+        return;
       }
 
-      // Perform AI analysis
-      const startTime = Date.now();
-      const analysisResult = await openaiService.analyzeDream({
-        title: dream.title,
-        content: dream.content,
-        emotions: dream.emotions,
-        symbols: dream.symbols,
-        themes: dream.themes,
-        userHistory,
-        analysisType: analysisType as any,
+      // The analysis is finished and stored even if the client goes away
+      let watching = true;
+      res.on('close', () => {
+        watching = false;
       });
-      const processingTime = Date.now() - startTime;
-
-      // Save analysis to database
-      const analysis = await prisma.dreamAnalysis.create({
-        data: {
-          userId,
-          dreamId,
-          interpretation: analysisResult.interpretation,
-          symbolAnalysis: analysisResult.symbolAnalysis,
-          emotionalAnalysis: analysisResult.emotionalAnalysis,
-          themes: analysisResult.themes,
-          insights: analysisResult.insights,
-          reflectionQuestions: analysisResult.reflectionQuestions,
-          actionableAdvice: analysisResult.actionableAdvice,
-          analysisType,
-          confidence: analysisResult.confidence,
-          processingTime,
+      heartbeat = setInterval(() => {
+        if (watching) {
+          res.write(': heartbeat\n\n');
+        }
+      }, STREAM_HEARTBEAT_MS);
+
+      AnalysisController.sendEvent(res, 'job', { jobId: job.id });
+
+      const finished = await analysisJobService.runClaimed(job, {
+        onProgress: ({ type, ...data }) => {
+          if (watching) {
+            AnalysisController.sendEvent(res, type, data);
+          }
         },
+        isWatching: () => watching,
       });
 
-      // Mark dream as processed
-      await prisma.dream.update({
-        where: { id: dreamId },
-        data: { isProcessed: true },
-      });
+      if (!watching) {
+        return;
+      }
+
+      if (finished?.status === 'COMPLETED' && finished.analysis) {
+        AnalysisController.sendEvent(res, 'complete', { analysis: finished.analysis, cached: false });
+      } else {
+        AnalysisController.sendEvent(res, 'error', {
+          error: finished?.lastError ?? 'Analysis failed',
+          jobId: job.id,
+          status: finished?.status,
+        });
+      }
+      res.end();
+    } catch (error) {
+      console.error('Stream analysis error:', error);
+      if (res.headersSent) {
+        AnalysisController.sendEvent(res, 'error', { error: 'Failed to analyze dream' });
+        res.end();
+        return;
+      }
+
+      const response: ApiResponse = {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to analyze dream',
+      };
+      res.status(500).json(response);
+    } finally {
+      if (heartbeat) {
+        clearInterval(heartbeat);
+      }
+    }
+  }
+
+  static async getAnalysisJob(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const jobId = req.params.id;
+
+      const job = await analysisJobService.getJob(jobId, userId);
+
+      if (!job) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'Analysis job not found',
+        };
+        res.status(404).json(response);
+        return;
+      }
 
       const response: ApiResponse = {
         success: true,
-        message: 'Dream analysis completed successfully',
-        data: { analysis },
+        data: {
+          job: {
+            id: job.id,
+            dreamId: job.dreamId,
+            analysisType: job.analysisType,
+            status: job.status,
+            progress: job.progress,
+            attempts: job.attempts,
+            maxAttempts: job.maxAttempts,
+            nextAttemptAt: job.status === 'FAILED' ? job.runAt : null,
+            error: job.lastError,
+            createdAt: job.createdAt,
+            completedAt: job.completedAt,
+          },
+          analysis: job.analysis,
+        },
       };
 
-      res.status(201).json(response);
+      res.json(response);
     } catch (error) {
-      console.error('Dream analysis error:', error);
+      console.error('Get analysis job error:', error);
       const response: ApiResponse = {
         success: false,
-        error: error instanceof Error ? error.message : 'Failed to analyze dream',
+        error: 'Failed to fetch analysis job',
       };
       res.status(500).json(response);
     }
@@ -156,7 +265,7 @@ export class AnalysisController {
 
       const analyses = await prisma.dreamAnalysis.findMany({
         where,
-        orderBy: { createdAt: 'desc' },
+        orderBy: [{ analysisType: 'asc' }, { version: 'desc' }],
         include: {
           dream: {
             select: {
@@ -184,6 +293,56 @@ export class AnalysisController {
     }
   }
 
+  // Differences between two versions of the same dream's analysis
+  static async compareAnalyses(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const { from, to } = req.query as { from: string; to: string };
+
+      const analyses = await prisma.dreamAnalysis.findMany({
+        where: {
+          id: { in: [from, to] },
+          userId,
+        },
+      });
+
+      const fromAnalysis = analyses.find(analysis => analysis.id === from);
+      const toAnalysis = analyses.find(analysis => analysis.id === to);
+
+      if (!fromAnalysis || !toAnalysis) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'Analysis not found',
+        };
+        res.status(404).json(response);
+        return;
+      }
+
+      if (fromAnalysis.dreamId !== toAnalysis.dreamId) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'Only analyses of the same dream can be compared',
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      const response: ApiResponse = {
+        success: true,
+        data: { diff: AnalysisDiffUtils.compare(fromAnalysis, toAnalysis) },
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Compare analyses error:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to compare analyses',
+      };
+      res.status(500).json(response);
+    }
+  }
+
   static async getUserAnalyses(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
       const userId = req.user!.id;
@@ -267,6 +426,7 @@ export class AnalysisController {
       await prisma.dreamAnalysis.delete({
         where: { id: analysisId },
       });
+      await changeLogService.record(userId, 'DREAM_ANALYSIS', analysisId, 'DELETE');
 
       const response: ApiResponse = {
         success: true,
@@ -297,7 +457,7 @@ export class AnalysisController {
         return;
       }
 
-      const symbols = await openaiService.extractSymbols(content);
+      const symbols = await openaiService.extractSymbols(content, req.user!.id);
 
       const response: ApiResponse = {
         success: true,
@@ -314,4 +474,35 @@ export class AnalysisController {
       res.status(500).json(response);
     }
   }
-}
\ No newline at end of file
+
+  private static findDream(userId: string, dreamId: string, analysisType: AnalysisType) {
+    return prisma.dream.findFirst({
+      where: {
+        id: dreamId,
+        userId,
+      },
+      include: {
+        analysis: {
+          where: { analysisType },
+          orderBy: { version: 'desc' },
+          take: 1,
+        },
+      },
+    });
+  }
+
+  // no-transform keeps the compression middleware from buffering the events
+  private static openStream(res: Response): void {
+    res.status(200).set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+    res.flushHeaders();
+  }
+
+  private static sendEvent(res: Response, event: string, data: unknown): void {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  }
+}
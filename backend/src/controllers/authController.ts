@@ -1,8 +1,28 @@
 import { Request, Response } from 'express';
 import { prisma } from '../config/database';
 import { AuthUtils } from '../utils/auth';
+import { changeLogService } from '../services/changeLogService';
+import { sessionService, SessionContext } from '../services/sessionService';
+import { mailService } from '../services/mailService';
+import { accountService } from '../services/accountService';
+import { env } from '../config/env';
 import { ApiResponse, AuthenticatedRequest, UserRegistrationData, UserLoginData } from '../types';
 
+// The only user fields a profile update may write
+const PROFILE_FIELDS = [
+  'username',
+  'firstName',
+  'lastName',
+  'timezone',
+  'avatar',
+  'preferences',
+  'notificationsEnabled',
+  'reminderTime',
+];
+
+// Settings covered by User.preferencesRevision
+const SYNCED_SETTINGS = ['preferences', 'notificationsEnabled', 'reminderTime', 'timezone'];
+
 export class AuthController {
   static async register(req: Request, res: Response): Promise<void> {
     try {
@@ -31,6 +51,7 @@ export class AuthController {
 
       // Hash password
       const passwordHash = await AuthUtils.hashPassword(password);
+      const verificationToken = AuthUtils.generateVerificationToken();
 
       // Create user
       const user = await prisma.user.create({
@@ -40,7 +61,9 @@ export class AuthController {
           username: username || null,
           firstName: firstName || null,
           lastName: lastName || null,
-          verificationToken: AuthUtils.generateVerificationToken(),
+          verificationToken: AuthUtils.hashToken(verificationToken),
+          verificationExpires: AuthController.getVerificationExpiry(),
+          verificationSentAt: new Date(),
         },
         select: {
           id: true,
@@ -49,15 +72,25 @@ export class AuthController {
           firstName: true,
           lastName: true,
           subscriptionStatus: true,
+          isVerified: true,
           createdAt: true,
         },
       });
 
-      // Generate JWT token
+      // The account is usable right away; only sensitive actions wait for verification
+      await mailService.sendEmailVerification(user.email, verificationToken, env.EMAIL_VERIFICATION_EXPIRES_HOURS)
+        .catch(error => console.error('Failed to send verification email:', error));
+
+      // Start a session for this device and issue tokens
+      const { session, refreshToken } = await sessionService.createSession(
+        user.id,
+        AuthController.getSessionContext(req)
+      );
       const token = AuthUtils.generateToken({
         userId: user.id,
         email: user.email,
         subscriptionStatus: user.subscriptionStatus,
+        sessionId: session.id,
       });
 
       const response: ApiResponse = {
@@ -66,6 +99,7 @@ export class AuthController {
         data: {
           user,
           token,
+          refreshToken,
         },
       };
 
@@ -110,26 +144,21 @@ export class AuthController {
         return;
       }
 
-      // Reset monthly dream entries count if needed
+      // The quota-reset job zeroes the counters; until it runs, a finished period reads as 0
       const now = new Date();
       const resetDate = new Date(user.dreamEntriesResetAt);
       resetDate.setMonth(resetDate.getMonth() + 1);
 
-      if (now >= resetDate) {
-        await prisma.user.update({
-          where: { id: user.id },
-          data: {
-            dreamEntriesThisMonth: 0,
-            dreamEntriesResetAt: now,
-          },
-        });
-      }
-
-      // Generate JWT token
+      // Start a session for this device and issue tokens
+      const { session, refreshToken } = await sessionService.createSession(
+        user.id,
+        AuthController.getSessionContext(req)
+      );
       const token = AuthUtils.generateToken({
         userId: user.id,
         email: user.email,
         subscriptionStatus: user.subscriptionStatus,
+        sessionId: session.id,
       });
 
       const response: ApiResponse = {
@@ -143,10 +172,13 @@ export class AuthController {
             firstName: user.firstName,
             lastName: user.lastName,
             subscriptionStatus: user.subscriptionStatus,
+            isVerified: user.isVerified,
+            deletionScheduledFor: user.deletionScheduledFor,
             dreamEntriesThisMonth: now >= resetDate ? 0 : user.dreamEntriesThisMonth,
             preferences: user.preferences,
           },
           token,
+          refreshToken,
         },
       };
 
@@ -173,12 +205,15 @@ export class AuthController {
           lastName: true,
           avatar: true,
           timezone: true,
+          isVerified: true,
+          deletionScheduledFor: true,
           subscriptionStatus: true,
           subscriptionEndsAt: true,
           dreamEntriesThisMonth: true,
           notificationsEnabled: true,
           reminderTime: true,
           preferences: true,
+          preferencesRevision: true,
           createdAt: true,
           _count: {
             select: {
@@ -218,9 +253,17 @@ export class AuthController {
 
   static async updateProfile(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
-      const updateData = req.body;
-      delete updateData.email; // Don't allow email updates through this endpoint
-      delete updateData.password; // Don't allow password updates through this endpoint
+      const updateData: any = {};
+      for (const field of PROFILE_FIELDS) {
+        if (req.body[field] !== undefined) {
+          updateData[field] = req.body[field];
+        }
+      }
+
+      // Settings are synced across devices, so each change gets a new revision
+      if (SYNCED_SETTINGS.some(field => field in updateData)) {
+        updateData.preferencesRevision = { increment: 1 };
+      }
 
       const user = await prisma.user.update({
         where: { id: req.user!.id },
@@ -237,9 +280,11 @@ export class AuthController {
           notificationsEnabled: true,
           reminderTime: true,
           preferences: true,
+          preferencesRevision: true,
           updatedAt: true,
         },
       });
+      await changeLogService.record(user.id, 'USER', user.id, 'UPDATE');
 
       const response: ApiResponse = {
         success: true,
@@ -268,10 +313,25 @@ export class AuthController {
     }
   }
 
-  static async refreshToken(req: AuthenticatedRequest, res: Response): Promise<void> {
+  static async refreshToken(req: Request, res: Response): Promise<void> {
     try {
+      const { refreshToken } = req.body;
+
+      const result = await sessionService.rotate(refreshToken, AuthController.getSessionContext(req));
+
+      if (result.status !== 'rotated') {
+        const response: ApiResponse = {
+          success: false,
+          error: result.status === 'reused'
+            ? 'Refresh token already used; please sign in again'
+            : 'Invalid or expired refresh token',
+        };
+        res.status(401).json(response);
+        return;
+      }
+
       const user = await prisma.user.findUnique({
-        where: { id: req.user!.id },
+        where: { id: result.session.userId },
         select: {
           id: true,
           email: true,
@@ -292,11 +352,15 @@ export class AuthController {
         userId: user.id,
         email: user.email,
         subscriptionStatus: user.subscriptionStatus,
+        sessionId: result.session.id,
       });
 
       const response: ApiResponse = {
         success: true,
-        data: { token },
+        data: {
+          token,
+          refreshToken: result.refreshToken,
+        },
       };
 
       res.json(response);
@@ -310,28 +374,346 @@ export class AuthController {
     }
   }
 
-  static async deleteAccount(req: AuthenticatedRequest, res: Response): Promise<void> {
+  static async logout(req: Request, res: Response): Promise<void> {
+    try {
+      const { refreshToken } = req.body;
+
+      const session = await sessionService.findByToken(refreshToken);
+      if (session) {
+        await sessionService.revoke(session.id, session.userId, 'logout');
+      }
+
+      // Logging out twice, or with a stale token, is not an error for the client
+      const response: ApiResponse = {
+        success: true,
+        message: 'Logged out successfully',
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Logout error:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to log out',
+      };
+      res.status(500).json(response);
+    }
+  }
+
+  static async forgotPassword(req: Request, res: Response): Promise<void> {
+    try {
+      const { email } = req.body;
+
+      const user = await prisma.user.findUnique({
+        where: { email: email.toLowerCase() },
+        select: { id: true, email: true, resetPasswordSentAt: true },
+      });
+
+      const nextAllowedAt = user?.resetPasswordSentAt
+        ? user.resetPasswordSentAt.getTime() + env.PASSWORD_RESET_RESEND_SECONDS * 1000
+        : 0;
+
+      // Inside the cooldown nothing is sent and the code already emailed stays valid,
+      // so repeated requests can't flood the inbox or void the owner's code
+      if (user && nextAllowedAt <= Date.now()) {
+        // Issuing a new code invalidates any earlier one. Conditional on the
+        // previous send time so parallel requests send one email.
+        const token = AuthUtils.generateResetToken();
+        const claimed = await prisma.user.updateMany({
+          where: {
+            id: user.id,
+            resetPasswordSentAt: user.resetPasswordSentAt,
+          },
+          data: {
+            resetPasswordToken: AuthUtils.hashToken(token),
+            resetPasswordExpires: new Date(Date.now() + env.PASSWORD_RESET_EXPIRES_MINUTES * 60 * 1000),
+            resetPasswordSentAt: new Date(),
+          },
+        });
+
+        // A delivery failure is logged rather than returned, which would reveal the account exists
+        if (claimed.count > 0) {
+          await mailService.sendPasswordReset(user.email, token, env.PASSWORD_RESET_EXPIRES_MINUTES)
+            .catch(error => console.error('Failed to send password reset email:', error));
+        }
+      }
+
+      // Same answer whether or not the account exists, so emails can't be probed
+      const response: ApiResponse = {
+        success: true,
+        message: 'If an account exists for that email, a reset code has been sent',
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Forgot password error:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to request password reset',
+      };
+      res.status(500).json(response);
+    }
+  }
+
+  static async resetPassword(req: Request, res: Response): Promise<void> {
+    try {
+      const { token, password } = req.body;
+      const tokenHash = AuthUtils.hashToken(token);
+
+      const user = await prisma.user.findUnique({
+        where: { resetPasswordToken: tokenHash },
+        select: { id: true, resetPasswordExpires: true },
+      });
+
+      if (!user || !user.resetPasswordExpires || user.resetPasswordExpires < new Date()) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'Invalid or expired reset code',
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      // Conditional on the token so two concurrent resets can't both use it
+      const result = await prisma.user.updateMany({
+        where: {
+          id: user.id,
+          resetPasswordToken: tokenHash,
+        },
+        data: {
+          passwordHash: await AuthUtils.hashPassword(password),
+          resetPasswordToken: null,
+          resetPasswordExpires: null,
+        },
+      });
+
+      if (result.count === 0) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'Invalid or expired reset code',
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      // Whoever knew the old password may still hold a session
+      await sessionService.revokeAll(user.id, 'password_reset');
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Password reset successfully. Please sign in with your new password',
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Reset password error:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to reset password',
+      };
+      res.status(500).json(response);
+    }
+  }
+
+  static async verifyEmail(req: Request, res: Response): Promise<void> {
     try {
-      // Soft delete by marking user as inactive and clearing sensitive data
+      const { token } = req.body;
+      const tokenHash = AuthUtils.hashToken(token);
+
+      const user = await prisma.user.findUnique({
+        where: { verificationToken: tokenHash },
+        select: { id: true, verificationExpires: true },
+      });
+
+      if (!user || !user.verificationExpires || user.verificationExpires < new Date()) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'Invalid or expired verification code',
+        };
+        res.status(400).json(response);
+        return;
+      }
+
       await prisma.user.update({
-        where: { id: req.user!.id },
+        where: { id: user.id },
         data: {
-          email: `deleted_${req.user!.id}@deleted.com`,
-          passwordHash: 'deleted',
-          firstName: null,
-          lastName: null,
-          username: null,
-          avatar: null,
-          pushNotificationToken: null,
+          isVerified: true,
           verificationToken: null,
-          resetPasswordToken: null,
-          preferences: {},
+          verificationExpires: null,
+        },
+      });
+      await changeLogService.record(user.id, 'USER', user.id, 'UPDATE');
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Email verified successfully',
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Verify email error:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to verify email',
+      };
+      res.status(500).json(response);
+    }
+  }
+
+  static async resendVerification(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const user = await prisma.user.findUnique({
+        where: { id: req.user!.id },
+        select: { id: true, email: true, isVerified: true, verificationSentAt: true },
+      });
+
+      if (!user) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'User not found',
+        };
+        res.status(404).json(response);
+        return;
+      }
+
+      if (user.isVerified) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'Email is already verified',
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      const nextAllowedAt = user.verificationSentAt
+        ? user.verificationSentAt.getTime() + env.EMAIL_VERIFICATION_RESEND_SECONDS * 1000
+        : 0;
+
+      if (nextAllowedAt > Date.now()) {
+        const retryAfter = Math.ceil((nextAllowedAt - Date.now()) / 1000);
+        const response: ApiResponse = {
+          success: false,
+          error: 'Please wait before requesting another verification email',
+          data: { retryAfter },
+        };
+        res.set('Retry-After', retryAfter.toString());
+        res.status(429).json(response);
+        return;
+      }
+
+      // Conditional on the previous send time so parallel requests send one email
+      const verificationToken = AuthUtils.generateVerificationToken();
+      const claimed = await prisma.user.updateMany({
+        where: {
+          id: user.id,
+          verificationSentAt: user.verificationSentAt,
+        },
+        data: {
+          verificationToken: AuthUtils.hashToken(verificationToken),
+          verificationExpires: AuthController.getVerificationExpiry(),
+          verificationSentAt: new Date(),
+        },
+      });
+
+      if (claimed.count > 0) {
+        await mailService.sendEmailVerification(user.email, verificationToken, env.EMAIL_VERIFICATION_EXPIRES_HOURS);
+      }
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Verification email sent',
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Resend verification error:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to send verification email',
+      };
+      res.status(500).json(response);
+    }
+  }
+
+  static async getSessions(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const sessions = await sessionService.listActiveSessions(req.user!.id);
+
+      const response: ApiResponse = {
+        success: true,
+        data: {
+          sessions: sessions.map(session => ({
+            ...session,
+            current: session.id === req.user!.sessionId,
+          })),
         },
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Get sessions error:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to get sessions',
+      };
+      res.status(500).json(response);
+    }
+  }
+
+  static async revokeSession(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const revoked = await sessionService.revoke(req.params.id, req.user!.id, 'revoked');
+
+      if (!revoked) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'Session not found',
+        };
+        res.status(404).json(response);
+        return;
+      }
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Session revoked successfully',
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Revoke session error:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to revoke session',
+      };
+      res.status(500).json(response);
+    }
+  }
+
+  static async deleteAccount(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { password } = req.body;
+
+      const user = await prisma.user.findUnique({
+        where: { id: req.user!.id },
+        select: { passwordHash: true },
       });
 
+      if (!user || !(await AuthUtils.comparePassword(password, user.passwordHash))) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'Incorrect password',
+        };
+        // Not 401: the session is fine, and clients sign out on 401
+        res.status(403).json(response);
+        return;
+      }
+
+      const scheduledFor = await accountService.requestDeletion(req.user!.id);
+
       const response: ApiResponse = {
         success: true,
-        message: 'Account deleted successfully',
+        message: 'Account scheduled for deletion. To keep it, sign in and restore it before the scheduled date',
+        data: { deletionScheduledFor: scheduledFor },
       };
 
       res.json(response);
@@ -344,4 +726,76 @@ export class AuthController {
       res.status(500).json(response);
     }
   }
-}
\ No newline at end of file
+
+  static async restoreAccount(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const restored = await accountService.cancelDeletion(req.user!.id);
+
+      if (!restored) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'Account is not scheduled for deletion',
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Account restored successfully',
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Restore account error:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to restore account',
+      };
+      res.status(500).json(response);
+    }
+  }
+
+  static async exportAccount(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const archive = await accountService.exportAccount(req.user!.id);
+
+      if (!archive) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'User not found',
+        };
+        res.status(404).json(response);
+        return;
+      }
+
+      const response: ApiResponse = {
+        success: true,
+        data: archive,
+      };
+
+      const date = archive.exportedAt.slice(0, 10);
+      res.set('Content-Disposition', `attachment; filename="dream-journal-export-${date}.json"`);
+      res.json(response);
+    } catch (error) {
+      console.error('Export account error:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to export account data',
+      };
+      res.status(500).json(response);
+    }
+  }
+
+  private static getVerificationExpiry(): Date {
+    return new Date(Date.now() + env.EMAIL_VERIFICATION_EXPIRES_HOURS * 60 * 60 * 1000);
+  }
+
+  private static getSessionContext(req: Request): SessionContext {
+    return {
+      deviceName: req.body?.deviceName,
+      userAgent: req.get('user-agent'),
+      ipAddress: req.ip,
+    };
+  }
+}
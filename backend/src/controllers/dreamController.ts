@@ -1,96 +1,94 @@
 import { Response } from 'express';
+import { Prisma } from '@prisma/client';
 import { prisma } from '../config/database';
+import { searchService } from '../services/searchService';
+import { embeddingService } from '../services/embeddingService';
+import { changeLogService } from '../services/changeLogService';
+import { quotaService } from '../services/quotaService';
+import { analysisVersionService } from '../services/analysisVersionService';
 import { AuthenticatedRequest, ApiResponse, PaginatedResponse, DreamCreateData, DreamUpdateData } from '../types';
 
 export class DreamController {
+  private static readonly listSelect = {
+    id: true,
+    title: true,
+    content: true,
+    dreamDate: true,
+    sleepQuality: true,
+    lucidity: true,
+    vividness: true,
+    mood: true,
+    wakeUpMood: true,
+    emotions: true,
+    symbols: true,
+    people: true,
+    places: true,
+    themes: true,
+    colors: true,
+    lifeTags: true,
+    isDraft: true,
+    revision: true,
+    isProcessed: true,
+    createdAt: true,
+    updatedAt: true,
+    _count: {
+      select: {
+        analysis: true,
+        voiceRecordings: true,
+      },
+    },
+  } satisfies Prisma.DreamSelect;
+
   static async createDream(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
       const dreamData = req.body as DreamCreateData;
       const userId = req.user!.id;
-      const subscriptionStatus = req.user!.subscriptionStatus;
-
-      // Check subscription limits for free users
-      if (subscriptionStatus === 'FREE') {
-        const user = await prisma.user.findUnique({
-          where: { id: userId },
-          select: {
-            dreamEntriesThisMonth: true,
-            dreamEntriesResetAt: true,
-          },
-        });
-
-        if (!user) {
-          const response: ApiResponse = {
-            success: false,
-            error: 'User not found',
-          };
-          res.status(404).json(response);
-          return;
-        }
-
-        // Check if we need to reset monthly count
-        const now = new Date();
-        const resetDate = new Date(user.dreamEntriesResetAt);
-        resetDate.setMonth(resetDate.getMonth() + 1);
 
-        let dreamEntriesThisMonth = user.dreamEntriesThisMonth;
-
-        if (now >= resetDate) {
-          dreamEntriesThisMonth = 0;
-          await prisma.user.update({
-            where: { id: userId },
-            data: {
-              dreamEntriesThisMonth: 0,
-              dreamEntriesResetAt: now,
-            },
-          });
-        }
-
-        // Free users are limited to 5 dreams per month
-        if (dreamEntriesThisMonth >= 5 && !dreamData.isDraft) {
+      // Drafts don't count until they are saved for real
+      if (!dreamData.isDraft) {
+        const exceeded = await quotaService.consume(userId, 'dreamEntries');
+        if (exceeded) {
           const response: ApiResponse = {
             success: false,
-            error: 'Monthly dream limit reached. Upgrade to Premium for unlimited dreams.',
-            data: {
-              upgradeRequired: true,
-              currentCount: dreamEntriesThisMonth,
-              limit: 5,
-            },
+            error: quotaService.getExceededMessage(exceeded),
+            data: { upgradeRequired: exceeded.upgrade !== null, ...exceeded },
           };
-          res.status(403).json(response);
+          res.status(402).json(response);
           return;
         }
       }
 
       // Create the dream
-      const dream = await prisma.dream.create({
-        data: {
-          ...dreamData,
-          userId,
-          dreamDate: dreamData.dreamDate || new Date(),
-        },
-        include: {
-          user: {
-            select: {
-              id: true,
-              username: true,
-              firstName: true,
-              lastName: true,
-            },
-          },
-        },
-      });
-
-      // Increment user's dream count if not a draft
-      if (!dreamData.isDraft) {
-        await prisma.user.update({
-          where: { id: userId },
+      let dream;
+      try {
+        dream = await prisma.dream.create({
           data: {
-            dreamEntriesThisMonth: { increment: 1 },
+            ...dreamData,
+            userId,
+            dreamDate: dreamData.dreamDate || new Date(),
+          },
+          include: {
+            user: {
+              select: {
+                id: true,
+                username: true,
+                firstName: true,
+                lastName: true,
+              },
+            },
           },
         });
+      } catch (error) {
+        if (!dreamData.isDraft) {
+          await quotaService.release(userId, 'dreamEntries');
+        }
+        throw error;
       }
 
+      await changeLogService.record(userId, 'DREAM', dream.id, 'CREATE');
+      await searchService.indexDream(dream.id);
+      embeddingService.indexDream(dream.id); // Runs in the background
+
       const response: ApiResponse = {
         success: true,
         message: 'Dream created successfully',
@@ -115,27 +113,25 @@ export class DreamController {
         page = 1,
         limit = 20,
         search,
+        mode = 'keyword',
         emotions,
         symbols,
         themes,
         dateFrom,
         dateTo,
-        sortBy = 'dreamDate',
-        sortOrder = 'desc',
+        sortBy,
+        sortOrder,
       } = req.query as any;
 
+      // Search results come in relevance order unless the client asks for a sort
+      const sortRequested = sortBy !== undefined || sortOrder !== undefined;
+      const orderBy = { [sortBy ?? 'dreamDate']: sortOrder ?? 'desc' };
+
       // Build where clause
       const where: any = {
         userId,
       };
 
-      if (search) {
-        where.OR = [
-          { title: { contains: search, mode: 'insensitive' } },
-          { content: { contains: search, mode: 'insensitive' } },
-        ];
-      }
-
       if (emotions && emotions.length > 0) {
         where.emotions = {
           hasSome: Array.isArray(emotions) ? emotions : [emotions],
@@ -160,41 +156,111 @@ export class DreamController {
         if (dateTo) where.dreamDate.lte = new Date(dateTo);
       }
 
+      // Semantic search ranks dreams by meaning rather than shared words
+      if (search && mode === 'semantic') {
+        const matches = await embeddingService.searchDreams(userId, search, where);
+        const similarity = new Map(matches.map(match => [match.dreamId, match.similarity]));
+
+        const orderedIds = sortRequested
+          ? (await prisma.dream.findMany({
+              where: { userId, id: { in: matches.map(match => match.dreamId) } },
+              select: { id: true },
+              orderBy,
+            })).map(dream => dream.id)
+          : matches.map(match => match.dreamId);
+        const pageIds = orderedIds.slice((page - 1) * limit, page * limit);
+
+        const matchedDreams = await prisma.dream.findMany({
+          where: {
+            userId,
+            id: { in: pageIds },
+          },
+          select: DreamController.listSelect,
+        });
+
+        const dreams = pageIds.flatMap(id => {
+          const dream = matchedDreams.find(d => d.id === id);
+          return dream ? [{ ...dream, search: { similarity: similarity.get(id)! } }] : [];
+        });
+
+        const response: PaginatedResponse<typeof dreams[0]> = {
+          success: true,
+          data: dreams,
+          pagination: {
+            page,
+            limit,
+            total: orderedIds.length,
+            totalPages: Math.ceil(orderedIds.length / limit),
+          },
+        };
+
+        res.json(response);
+        return;
+      }
+
+      // Full-text search results are ranked by relevance, paginated and highlighted in Postgres
+      if (search) {
+        const toArray = (value: any) => value ? (Array.isArray(value) ? value : [value]) : undefined;
+        const { hits, total } = await searchService.searchDreams(
+          userId,
+          search,
+          {
+            emotions: toArray(emotions),
+            symbols: toArray(symbols),
+            themes: toArray(themes),
+            dateFrom: dateFrom ? new Date(dateFrom) : undefined,
+            dateTo: dateTo ? new Date(dateTo) : undefined,
+          },
+          page,
+          limit,
+          sortRequested ? { field: sortBy ?? 'dreamDate', order: sortOrder ?? 'desc' } : undefined
+        );
+
+        const matchedDreams = await prisma.dream.findMany({
+          where: {
+            userId,
+            id: { in: hits.map(hit => hit.id) },
+          },
+          select: DreamController.listSelect,
+        });
+
+        const dreams = hits.flatMap(hit => {
+          const dream = matchedDreams.find(d => d.id === hit.id);
+          return dream
+            ? [{
+                ...dream,
+                search: {
+                  rank: hit.rank,
+                  titleHighlight: hit.titleHighlight,
+                  snippet: hit.snippet,
+                },
+              }]
+            : [];
+        });
+
+        const response: PaginatedResponse<typeof dreams[0]> = {
+          success: true,
+          data: dreams,
+          pagination: {
+            page,
+            limit,
+            total,
+            totalPages: Math.ceil(total / limit),
+          },
+        };
+
+        res.json(response);
+        return;
+      }
+
       // Get total count
       const total = await prisma.dream.count({ where });
 
       // Get dreams with pagination
       const dreams = await prisma.dream.findMany({
         where,
-        select: {
-          id: true,
-          title: true,
-          content: true,
-          dreamDate: true,
-          sleepQuality: true,
-          lucidity: true,
-          vividness: true,
-          mood: true,
-          wakeUpMood: true,
-          emotions: true,
-          symbols: true,
-          people: true,
-          places: true,
-          themes: true,
-          colors: true,
-          lifeTags: true,
-          isDraft: true,
-          isProcessed: true,
-          createdAt: true,
-          updatedAt: true,
-          _count: {
-            select: {
-              analysis: true,
-              voiceRecordings: true,
-            },
-          },
-        },
-        orderBy: { [sortBy]: sortOrder },
+        select: DreamController.listSelect,
+        orderBy,
         skip: (page - 1) * limit,
         take: limit,
       });
@@ -287,6 +353,67 @@ export class DreamController {
     }
   }
 
+  static async getSimilarDreams(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const dreamId = req.params.id;
+      const userId = req.user!.id;
+      const limit = parseInt((req.query as any).limit) || 5;
+
+      const dream = await prisma.dream.findFirst({
+        where: {
+          id: dreamId,
+          userId,
+        },
+        select: { id: true },
+      });
+
+      if (!dream) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'Dream not found',
+        };
+        res.status(404).json(response);
+        return;
+      }
+
+      const matches = await embeddingService.findSimilarDreams(userId, dreamId, limit);
+
+      const similarDreams = await prisma.dream.findMany({
+        where: {
+          userId,
+          id: { in: matches.map(match => match.dreamId) },
+        },
+        select: {
+          id: true,
+          title: true,
+          dreamDate: true,
+          emotions: true,
+          symbols: true,
+          themes: true,
+        },
+      });
+
+      const dreams = matches.flatMap(match => {
+        const similar = similarDreams.find(d => d.id === match.dreamId);
+        return similar ? [{ ...similar, similarity: match.similarity }] : [];
+      });
+
+      const response: ApiResponse = {
+        success: true,
+        data: { dreams },
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Get similar dreams error:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to find similar dreams',
+      };
+      res.status(500).json(response);
+    }
+  }
+
   static async updateDream(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
       const dreamId = req.params.id;
@@ -310,14 +437,45 @@ export class DreamController {
         return;
       }
 
+      // Publishing a draft is when it counts as an entry
+      const publishing = existingDream.isDraft && updateData.isDraft === false;
+      if (publishing) {
+        const exceeded = await quotaService.consume(userId, 'dreamEntries');
+        if (exceeded) {
+          const response: ApiResponse = {
+            success: false,
+            error: quotaService.getExceededMessage(exceeded),
+            data: { upgradeRequired: exceeded.upgrade !== null, ...exceeded },
+          };
+          res.status(402).json(response);
+          return;
+        }
+      }
+
       // Update the dream
-      const dream = await prisma.dream.update({
-        where: { id: dreamId },
-        data: {
-          ...updateData,
-          isProcessed: false, // Reset processed flag if content changed
-        },
-      });
+      let dream;
+      try {
+        dream = await prisma.dream.update({
+          where: { id: dreamId },
+          data: {
+            ...updateData,
+            isProcessed: false, // Reset processed flag if content changed
+            revision: { increment: 1 },
+          },
+        });
+      } catch (error) {
+        if (publishing) {
+          await quotaService.release(userId, 'dreamEntries');
+        }
+        throw error;
+      }
+
+      await changeLogService.record(userId, 'DREAM', dream.id, 'UPDATE');
+      await searchService.indexDream(dream.id);
+      embeddingService.indexDream(dream.id); // Runs in the background
+      if (analysisVersionService.touchesAnalyzedContent(updateData)) {
+        await analysisVersionService.refreshStaleness(dream.id);
+      }
 
       const response: ApiResponse = {
         success: true,
@@ -359,9 +517,7 @@ export class DreamController {
       }
 
       // Delete the dream (this will cascade delete related records)
-      await prisma.dream.delete({
-        where: { id: dreamId },
-      });
+      await changeLogService.deleteDream(userId, dreamId);
 
       const response: ApiResponse = {
         success: true,
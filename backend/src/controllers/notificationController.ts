@@ -1,13 +1,53 @@
 import { Response } from 'express';
+import { NotificationType } from '@prisma/client';
 import { prisma } from '../config/database';
 import { notificationService } from '../services/notificationService';
+import { changeLogService } from '../services/changeLogService';
 import { AuthenticatedRequest, ApiResponse } from '../types';
 
+const preferenceSelect = {
+  notificationsEnabled: true,
+  reminderTime: true,
+  mutedNotificationTypes: true,
+  quietHoursStart: true,
+  quietHoursEnd: true,
+  maxNotificationsPerDay: true,
+} as const;
+
+interface NotificationPreferenceFields {
+  notificationsEnabled: boolean;
+  reminderTime: string | null;
+  mutedNotificationTypes: NotificationType[];
+  quietHoursStart: string | null;
+  quietHoursEnd: string | null;
+  maxNotificationsPerDay: number | null;
+}
+
+// Every type is listed, so clients can render toggles without knowing the enum.
+// Test and billing notifications can't be muted.
+function formatPreferences(user: NotificationPreferenceFields) {
+  const types = Object.fromEntries(
+    Object.values(NotificationType)
+      .filter(type => type !== 'TEST' && type !== 'BILLING')
+      .map(type => [type, !user.mutedNotificationTypes.includes(type)])
+  );
+
+  return {
+    notificationsEnabled: user.notificationsEnabled,
+    reminderTime: user.reminderTime,
+    types,
+    quietHours: user.quietHoursStart && user.quietHoursEnd
+      ? { start: user.quietHoursStart, end: user.quietHoursEnd }
+      : null,
+    dailyLimit: user.maxNotificationsPerDay,
+  };
+}
+
 export class NotificationController {
   static async registerPushToken(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
       const userId = req.user!.id;
-      const { pushToken } = req.body;
+      const { pushToken, platform, deviceName, appVersion } = req.body;
 
       if (!pushToken) {
         const response: ApiResponse = {
@@ -18,9 +58,13 @@ export class NotificationController {
         return;
       }
 
-      const success = await notificationService.registerPushToken(userId, pushToken);
+      const device = await notificationService.registerPushToken(userId, pushToken, {
+        platform: platform?.toUpperCase(),
+        deviceName,
+        appVersion,
+      });
 
-      if (!success) {
+      if (!device) {
         const response: ApiResponse = {
           success: false,
           error: 'Invalid push token format',
@@ -32,6 +76,7 @@ export class NotificationController {
       const response: ApiResponse = {
         success: true,
         message: 'Push token registered successfully',
+        data: { device },
       };
 
       res.json(response);
@@ -45,11 +90,13 @@ export class NotificationController {
     }
   }
 
+  // Removes the device with the given token, or every device when none is sent
   static async unregisterPushToken(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
       const userId = req.user!.id;
+      const { pushToken } = req.body ?? {};
 
-      const success = await notificationService.unregisterPushToken(userId);
+      const success = await notificationService.unregisterPushToken(userId, pushToken);
 
       const response: ApiResponse = {
         success: success,
@@ -67,10 +114,96 @@ export class NotificationController {
     }
   }
 
+  static async getDevices(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const devices = await notificationService.listDevices(req.user!.id);
+
+      const response: ApiResponse = {
+        success: true,
+        data: { devices },
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Get devices error:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to fetch devices',
+      };
+      res.status(500).json(response);
+    }
+  }
+
+  // Mute or rename one device without touching the others
+  static async updateDevice(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { notificationsEnabled, deviceName } = req.body;
+
+      const device = await notificationService.updateDevice(req.user!.id, id, {
+        notificationsEnabled,
+        deviceName,
+      });
+
+      if (!device) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'Device not found',
+        };
+        res.status(404).json(response);
+        return;
+      }
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Device updated successfully',
+        data: { device },
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Update device error:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to update device',
+      };
+      res.status(500).json(response);
+    }
+  }
+
+  static async deleteDevice(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const removed = await notificationService.removeDevice(req.user!.id, req.params.id);
+
+      if (!removed) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'Device not found',
+        };
+        res.status(404).json(response);
+        return;
+      }
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Device removed successfully',
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Delete device error:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to remove device',
+      };
+      res.status(500).json(response);
+    }
+  }
+
   static async updateNotificationSettings(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
       const userId = req.user!.id;
-      const { notificationsEnabled, reminderTime } = req.body;
+      const { notificationsEnabled, reminderTime, types, quietHours, dailyLimit } = req.body;
 
       const updateData: any = {};
       if (typeof notificationsEnabled === 'boolean') {
@@ -79,23 +212,42 @@ export class NotificationController {
       if (reminderTime !== undefined) {
         updateData.reminderTime = reminderTime;
       }
+      if (types) {
+        // Partial updates: types left out of the request keep their current setting
+        const current = await prisma.user.findUnique({
+          where: { id: userId },
+          select: { mutedNotificationTypes: true },
+        });
+        const muted = new Set(current?.mutedNotificationTypes ?? []);
+        for (const [type, enabled] of Object.entries(types as Record<NotificationType, boolean>)) {
+          if (enabled) {
+            muted.delete(type as NotificationType);
+          } else {
+            muted.add(type as NotificationType);
+          }
+        }
+        updateData.mutedNotificationTypes = [...muted];
+      }
+      if (quietHours !== undefined) {
+        updateData.quietHoursStart = quietHours?.start ?? null;
+        updateData.quietHoursEnd = quietHours?.end ?? null;
+      }
+      if (dailyLimit !== undefined) {
+        updateData.maxNotificationsPerDay = dailyLimit;
+      }
+      updateData.preferencesRevision = { increment: 1 };
 
       const user = await prisma.user.update({
         where: { id: userId },
         data: updateData,
-        select: {
-          notificationsEnabled: true,
-          reminderTime: true,
-        },
+        select: preferenceSelect,
       });
+      await changeLogService.record(userId, 'USER', userId, 'UPDATE');
 
       const response: ApiResponse = {
         success: true,
         message: 'Notification settings updated successfully',
-        data: {
-          notificationsEnabled: user.notificationsEnabled,
-          reminderTime: user.reminderTime,
-        },
+        data: formatPreferences(user),
       };
 
       res.json(response);
@@ -112,12 +264,15 @@ export class NotificationController {
   static async getNotificationHistory(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
       const userId = req.user!.id;
-      const { page = 1, limit = 20, type } = req.query as any;
+      const { page = 1, limit = 20, type, deliveryStatus } = req.query as any;
 
       const where: any = { userId };
       if (type) {
         where.type = type;
       }
+      if (deliveryStatus) {
+        where.deliveryStatus = deliveryStatus;
+      }
 
       const total = await prisma.notification.count({ where });
 
@@ -132,6 +287,15 @@ export class NotificationController {
           scheduledFor: true,
           sentAt: true,
           delivered: true,
+          deliveryStatus: true,
+          deliveryError: true,
+          deliveries: {
+            select: {
+              deviceId: true,
+              status: true,
+              error: true,
+            },
+          },
           opened: true,
           createdAt: true,
         },
@@ -214,7 +378,9 @@ export class NotificationController {
         userId,
         'Test Notification 🧪',
         'This is a test notification to verify your push notifications are working correctly!',
-        { type: 'test' }
+        { type: 'test' },
+        'TEST',
+        { ignorePreferences: true }
       );
 
       const response: ApiResponse = {
@@ -240,9 +406,10 @@ export class NotificationController {
       const user = await prisma.user.findUnique({
         where: { id: userId },
         select: {
-          notificationsEnabled: true,
-          reminderTime: true,
-          pushNotificationToken: true,
+          ...preferenceSelect,
+          _count: {
+            select: { devices: { where: { notificationsEnabled: true } } },
+          },
         },
       });
 
@@ -258,9 +425,9 @@ export class NotificationController {
       const response: ApiResponse = {
         success: true,
         data: {
-          notificationsEnabled: user.notificationsEnabled,
-          reminderTime: user.reminderTime,
-          hasToken: !!user.pushNotificationToken,
+          ...formatPreferences(user),
+          hasToken: user._count.devices > 0,
+          activeDevices: user._count.devices,
         },
       };
 
@@ -1,26 +1,15 @@
 import { Response } from 'express';
 import { prisma } from '../config/database';
 import { PatternService } from '../services/patternService';
+import { changeLogService } from '../services/changeLogService';
 import { AuthenticatedRequest, ApiResponse } from '../types';
 
 export class PatternController {
   static async getUserPatterns(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
       const userId = req.user!.id;
-      const subscriptionStatus = req.user!.subscriptionStatus;
       const { timeRange = '90', refresh = false } = req.query as any;
       
-      // Pattern recognition is a premium feature
-      if (subscriptionStatus === 'FREE') {
-        const response: ApiResponse = {
-          success: false,
-          error: 'Pattern recognition requires Premium subscription',
-          data: { upgradeRequired: true },
-        };
-        res.status(403).json(response);
-        return;
-      }
-
       const timeRangeDays = parseInt(timeRange);
       
       // Check for existing patterns if not refreshing
@@ -67,57 +56,7 @@ export class PatternController {
       }
 
       // Save new patterns to database
-      const savedPatterns = await Promise.all(
-        patternResult.patterns.map(async (pattern) => {
-          // Check if similar pattern already exists
-          const existingPattern = await prisma.dreamPattern.findFirst({
-            where: {
-              userId,
-              patternType: pattern.type,
-              name: pattern.name,
-            },
-          });
-
-          if (existingPattern) {
-            // Update existing pattern
-            return prisma.dreamPattern.update({
-              where: { id: existingPattern.id },
-              data: {
-                description: pattern.description,
-                frequency: pattern.frequency,
-                confidence: pattern.confidence,
-                insight: pattern.insight,
-                timeRange: pattern.timeRange,
-                lastOccurrence: pattern.lastOccurrence,
-                relatedSymbols: pattern.relatedSymbols,
-                relatedEmotions: pattern.relatedEmotions,
-                relatedThemes: pattern.relatedThemes,
-                isActive: true,
-              },
-            });
-          } else {
-            // Create new pattern
-            return prisma.dreamPattern.create({
-              data: {
-                userId,
-                patternType: pattern.type,
-                name: pattern.name,
-                description: pattern.description,
-                frequency: pattern.frequency,
-                confidence: pattern.confidence,
-                timeRange: pattern.timeRange,
-                correlation: null,
-                insight: pattern.insight,
-                firstOccurrence: pattern.firstOccurrence,
-                lastOccurrence: pattern.lastOccurrence,
-                relatedSymbols: pattern.relatedSymbols,
-                relatedEmotions: pattern.relatedEmotions,
-                relatedThemes: pattern.relatedThemes,
-              },
-            });
-          }
-        })
-      );
+      const { patterns: savedPatterns } = await PatternService.savePatterns(userId, patternResult.patterns);
 
       const response: ApiResponse = {
         success: true,
@@ -235,6 +174,7 @@ export class PatternController {
         where: { id: patternId },
         data: updateData,
       });
+      await changeLogService.record(userId, 'DREAM_PATTERN', patternId, 'UPDATE');
 
       const response: ApiResponse = {
         success: true,
@@ -277,6 +217,7 @@ export class PatternController {
       await prisma.dreamPattern.delete({
         where: { id: patternId },
       });
+      await changeLogService.record(userId, 'DREAM_PATTERN', patternId, 'DELETE');
 
       const response: ApiResponse = {
         success: true,
@@ -297,17 +238,6 @@ export class PatternController {
   static async getPatternInsights(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
       const userId = req.user!.id;
-      const subscriptionStatus = req.user!.subscriptionStatus;
-      
-      if (subscriptionStatus === 'FREE') {
-        const response: ApiResponse = {
-          success: false,
-          error: 'Pattern insights require Premium subscription',
-          data: { upgradeRequired: true },
-        };
-        res.status(403).json(response);
-        return;
-      }
 
       // Get active patterns
       const patterns = await prisma.dreamPattern.findMany({
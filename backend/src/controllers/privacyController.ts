@@ -0,0 +1,37 @@
+import { Response } from 'express';
+import { retentionService } from '../services/retentionService';
+import { AuthenticatedRequest, ApiResponse } from '../types';
+
+export class PrivacyController {
+  // Dry run of the retention purge; pass ?days= to preview a setting before saving it
+  static async getRetentionPreview(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const days = req.query.days as number | undefined;
+
+      const preview = await retentionService.preview(req.user!.id, days);
+
+      if (!preview) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'User not found',
+        };
+        res.status(404).json(response);
+        return;
+      }
+
+      const response: ApiResponse = {
+        success: true,
+        data: { preview },
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Retention preview error:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to preview data retention',
+      };
+      res.status(500).json(response);
+    }
+  }
+}
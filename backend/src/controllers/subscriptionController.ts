@@ -1,6 +1,9 @@
 import { Request, Response } from 'express';
+import Stripe from 'stripe';
 import { prisma } from '../config/database';
 import { stripeService } from '../services/stripeService';
+import { quotaService } from '../services/quotaService';
+import { entitlementService, TIERS } from '../services/entitlementService';
 import { AuthenticatedRequest, ApiResponse } from '../types';
 
 export class SubscriptionController {
@@ -254,76 +257,72 @@ export class SubscriptionController {
   }
 
   static async handleWebhook(req: Request, res: Response): Promise<void> {
-    try {
-      const signature = req.headers['stripe-signature'] as string;
-      
-      if (!signature) {
-        res.status(400).send('Missing stripe-signature header');
-        return;
-      }
+    const signature = req.headers['stripe-signature'] as string;
 
-      await stripeService.handleWebhook(req.body, signature);
-      
-      res.status(200).send('Webhook handled successfully');
+    if (!signature) {
+      res.status(400).send('Missing stripe-signature header');
+      return;
+    }
+
+    let event: Stripe.Event;
+    try {
+      event = stripeService.constructWebhookEvent(req.body, signature);
     } catch (error) {
       console.error('Webhook error:', error);
       res.status(400).send(`Webhook Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return;
     }
-  }
 
-  static async getUsageStats(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
-      const userId = req.user!.id;
-      
-      const user = await prisma.user.findUnique({
-        where: { id: userId },
-        select: {
-          subscriptionStatus: true,
-          dreamEntriesThisMonth: true,
-          dreamEntriesResetAt: true,
-        },
-      });
+      const result = await stripeService.handleWebhookEvent(event);
 
-      if (!user) {
-        const response: ApiResponse = {
-          success: false,
-          error: 'User not found',
-        };
-        res.status(404).json(response);
+      // Any non-2xx answer makes Stripe deliver the event again later
+      if (result === 'in_progress') {
+        res.status(409).send('Event is already being processed');
         return;
       }
 
-      const limits = {
-        FREE: {
-          dreamsPerMonth: 5,
-          aiAnalysis: false,
-          patternRecognition: false,
-          voiceRecordings: true,
-        },
-        PREMIUM: {
-          dreamsPerMonth: -1, // unlimited
-          aiAnalysis: true,
-          patternRecognition: true,
-          voiceRecordings: true,
-        },
+      res.status(200).send(result === 'duplicate' ? 'Event already processed' : 'Webhook handled successfully');
+    } catch (error) {
+      console.error(`Webhook processing error for ${event.id}:`, error);
+      res.status(500).send('Webhook processing failed');
+    }
+  }
+
+  // Features and limits of the user's tier, for clients to decide what to lock
+  static async getEntitlements(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const response: ApiResponse = {
+        success: true,
+        data: entitlementService.getEntitlements(req.user!.subscriptionStatus),
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Get entitlements error:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to get entitlements',
       };
+      res.status(500).json(response);
+    }
+  }
 
-      const currentLimits = limits[user.subscriptionStatus as keyof typeof limits] || limits.FREE;
+  // Current usage against the limits of the user's tier for this period
+  static async getUsageStats(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user!.id;
+
+      const usage = await quotaService.getUsage(userId);
+      const upgradeTier = entitlementService.getUpgradeTier(usage.subscriptionStatus);
 
       const response: ApiResponse = {
         success: true,
         data: {
-          subscriptionStatus: user.subscriptionStatus,
-          dreamEntriesThisMonth: user.dreamEntriesThisMonth,
-          dreamEntriesResetAt: user.dreamEntriesResetAt,
-          limits: currentLimits,
-          usage: {
-            dreamProgress: currentLimits.dreamsPerMonth === -1 
-              ? null 
-              : (user.dreamEntriesThisMonth / currentLimits.dreamsPerMonth) * 100,
-            canCreateDream: currentLimits.dreamsPerMonth === -1 
-              || user.dreamEntriesThisMonth < currentLimits.dreamsPerMonth,
-          },
+          ...usage,
+          dreamEntriesThisMonth: usage.usage.dreamEntries.used,
+          canCreateDream: usage.usage.dreamEntries.remaining !== 0,
+          upgrade: upgradeTier ? { tier: upgradeTier, limits: TIERS[upgradeTier].limits } : null,
         },
       };
 
@@ -337,4 +336,4 @@ export class SubscriptionController {
       res.status(500).json(response);
     }
   }
-}
\ No newline at end of file
+}
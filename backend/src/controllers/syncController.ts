@@ -1,29 +1,48 @@
 import { Response } from 'express';
+import Joi from 'joi';
 import { prisma } from '../config/database';
-import { AuthenticatedRequest, ApiResponse } from '../types';
+import { searchService } from '../services/searchService';
+import { embeddingService } from '../services/embeddingService';
+import { changeLogService } from '../services/changeLogService';
+import { quotaService, QuotaExceeded } from '../services/quotaService';
+import { analysisVersionService } from '../services/analysisVersionService';
+import {
+  syncDreamCreateSchema,
+  syncDreamUpdateSchema,
+  syncVoiceRecordingUpdateSchema,
+  userUpdateSchema,
+} from '../middleware/validation';
+import {
+  AuthenticatedRequest,
+  ApiResponse,
+  DreamCreateData,
+  DreamUpdateData,
+  SyncConflict,
+  SyncOperation,
+  SyncRecordType,
+} from '../types';
+
+type SyncOutcome =
+  | { data: any; conflict?: undefined; quota?: undefined }
+  | { conflict: SyncConflict; quota?: undefined }
+  | { quota: QuotaExceeded; conflict?: undefined };
+
+// User settings covered by User.preferencesRevision
+const SYNCED_USER_FIELDS = ['preferences', 'notificationsEnabled', 'reminderTime', 'timezone'];
 
 export class SyncController {
   static async getLastSyncTime(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
       const userId = req.user!.id;
       
-      // Get the most recent update time across all user data
-      const lastUpdate = await prisma.$queryRaw<Array<{ max_updated: Date }>>`
-        SELECT MAX(GREATEST(
-          COALESCE((SELECT MAX(updated_at) FROM dreams WHERE user_id = ${userId}), '1970-01-01'),
-          COALESCE((SELECT MAX(updated_at) FROM voice_recordings WHERE user_id = ${userId}), '1970-01-01'),
-          COALESCE((SELECT MAX(updated_at) FROM dream_analyses WHERE user_id = ${userId}), '1970-01-01'),
-          COALESCE((SELECT MAX(updated_at) FROM dream_patterns WHERE user_id = ${userId}), '1970-01-01'),
-          COALESCE((SELECT MAX(updated_at) FROM users WHERE id = ${userId}), '1970-01-01')
-        )) as max_updated
-      `;
-
-      const lastSyncTime = lastUpdate[0]?.max_updated || new Date('1970-01-01');
+      // Every synced write is logged, so the newest change is the last sync point
+      const latestChange = await changeLogService.getLatestChange(userId);
 
       const response: ApiResponse = {
         success: true,
         data: {
-          lastSyncTime,
+          lastSyncTime: latestChange?.createdAt || new Date('1970-01-01'),
+          cursor: String(latestChange?.id ?? 0),
           serverTime: new Date(),
         },
       };
@@ -42,25 +61,32 @@ export class SyncController {
   static async getUpdates(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
       const userId = req.user!.id;
-      const { since } = req.query as any;
-      
-      if (!since) {
-        const response: ApiResponse = {
-          success: false,
-          error: 'Since parameter is required',
-        };
-        res.status(400).json(response);
-        return;
+      const { cursor, since, limit = 100 } = req.query as any;
+
+      // `since` is still accepted from clients that predate cursors
+      const startCursor = cursor !== undefined
+        ? parseInt(cursor)
+        : since
+          ? await changeLogService.getCursorBefore(userId, new Date(since))
+          : 0;
+
+      const { changes, nextCursor, hasMore } = await changeLogService.getChanges(userId, startCursor, limit);
+
+      // Only the latest change per record matters within a page
+      const latest = new Map<string, typeof changes[0]>();
+      for (const change of changes) {
+        latest.set(`${change.entityType}:${change.entityId}`, change);
       }
 
-      const sinceDate = new Date(since);
-      
-      // Get all updates since the specified time
-      const [dreams, voiceRecordings, analyses, patterns] = await Promise.all([
+      const idsFor = (entityType: string, deleted: boolean) => Array.from(latest.values())
+        .filter(change => change.entityType === entityType && (change.operation === 'DELETE') === deleted)
+        .map(change => change.entityId);
+
+      const [dreams, voiceRecordings, analyses, patterns, user] = await Promise.all([
         prisma.dream.findMany({
           where: {
             userId,
-            updatedAt: { gt: sinceDate },
+            id: { in: idsFor('DREAM', false) },
           },
           include: {
             _count: {
@@ -75,7 +101,7 @@ export class SyncController {
         prisma.voiceRecording.findMany({
           where: {
             userId,
-            updatedAt: { gt: sinceDate },
+            id: { in: idsFor('VOICE_RECORDING', false) },
           },
           select: {
             id: true,
@@ -85,6 +111,7 @@ export class SyncController {
             duration: true,
             transcription: true,
             isProcessed: true,
+            revision: true,
             createdAt: true,
             updatedAt: true,
           },
@@ -93,16 +120,29 @@ export class SyncController {
         prisma.dreamAnalysis.findMany({
           where: {
             userId,
-            updatedAt: { gt: sinceDate },
+            id: { in: idsFor('DREAM_ANALYSIS', false) },
           },
         }),
         
         prisma.dreamPattern.findMany({
           where: {
             userId,
-            updatedAt: { gt: sinceDate },
+            id: { in: idsFor('DREAM_PATTERN', false) },
           },
         }),
+
+        idsFor('USER', false).length > 0
+          ? prisma.user.findUnique({
+              where: { id: userId },
+              select: {
+                preferences: true,
+                preferencesRevision: true,
+                notificationsEnabled: true,
+                reminderTime: true,
+                timezone: true,
+              },
+            })
+          : null,
       ]);
 
       const response: ApiResponse = {
@@ -112,8 +152,17 @@ export class SyncController {
           voiceRecordings,
           analyses,
           patterns,
+          user,
+          deleted: {
+            dreams: idsFor('DREAM', true),
+            voiceRecordings: idsFor('VOICE_RECORDING', true),
+            analyses: idsFor('DREAM_ANALYSIS', true),
+            patterns: idsFor('DREAM_PATTERN', true),
+          },
+          changes,
+          cursor: nextCursor,
+          hasMore,
           syncTime: new Date(),
-          hasMore: false, // For pagination if needed in the future
         },
       };
 
@@ -142,16 +191,40 @@ export class SyncController {
         return;
       }
 
-      const results = [];
+      const results: Array<{
+        id: string;
+        success: boolean;
+        data?: any;
+        error?: string;
+        conflict?: SyncConflict;
+        quota?: QuotaExceeded;
+      }> = [];
       
-      for (const operation of operations) {
+      for (const operation of operations as SyncOperation[]) {
         try {
-          const result = await this.processSyncOperation(userId, operation);
-          results.push({
-            id: operation.id,
-            success: true,
-            data: result,
-          });
+          const outcome = await SyncController.processSyncOperation(userId, operation);
+          if (outcome.conflict) {
+            results.push({
+              id: operation.id,
+              success: false,
+              error: 'Record was changed on another device',
+              conflict: outcome.conflict,
+            });
+          } else if (outcome.quota) {
+            // Kept on the device; it can be sent again after an upgrade or a new month
+            results.push({
+              id: operation.id,
+              success: false,
+              error: quotaService.getExceededMessage(outcome.quota),
+              quota: outcome.quota,
+            });
+          } else {
+            results.push({
+              id: operation.id,
+              success: true,
+              data: outcome.data,
+            });
+          }
         } catch (error) {
           results.push({
             id: operation.id,
@@ -162,16 +235,18 @@ export class SyncController {
       }
 
       const successCount = results.filter(r => r.success).length;
-      const failureCount = results.length - successCount;
+      const conflictCount = results.filter(r => r.conflict).length;
+      const failureCount = results.length - successCount - conflictCount;
 
       const response: ApiResponse = {
         success: true,
-        message: `Sync completed: ${successCount} successful, ${failureCount} failed`,
+        message: `Sync completed: ${successCount} successful, ${conflictCount} conflicts, ${failureCount} failed`,
         data: {
           results,
           summary: {
             total: results.length,
             successful: successCount,
+            conflicts: conflictCount,
             failed: failureCount,
           },
         },
@@ -237,95 +312,371 @@ export class SyncController {
     }
   }
 
-  private static async processSyncOperation(userId: string, operation: any): Promise<any> {
-    const { type, action, data } = operation;
+  private static async processSyncOperation(userId: string, operation: SyncOperation): Promise<SyncOutcome> {
+    const { type, action, data, baseRevision } = operation;
     
     switch (type) {
       case 'dream':
-        return this.processDreamOperation(userId, action, data);
+        return SyncController.processDreamOperation(userId, action, data, baseRevision);
       case 'voiceRecording':
-        return this.processVoiceOperation(userId, action, data);
+        return SyncController.processVoiceOperation(userId, action, data, baseRevision);
       case 'user':
-        return this.processUserOperation(userId, action, data);
+        return SyncController.processUserOperation(userId, action, data, baseRevision);
       default:
         throw new Error(`Unknown operation type: ${type}`);
     }
   }
 
-  private static async processDreamOperation(userId: string, action: string, data: any): Promise<any> {
-    switch (action) {
-      case 'create':
-        return prisma.dream.create({
-          data: {
-            ...data,
+  private static async processDreamOperation(
+    userId: string,
+    action: string,
+    data: any,
+    baseRevision?: number
+  ): Promise<SyncOutcome> {
+    if (action === 'create') {
+      const fields = SyncController.validateChanges<DreamCreateData & { id?: string }>(syncDreamCreateSchema, data);
+
+      // Offline clients pick their own ids and may resend a create whose response was lost
+      if (fields.id) {
+        const existing = await prisma.dream.findFirst({
+          where: {
+            id: fields.id,
             userId,
           },
         });
-      
-      case 'update':
-        return prisma.dream.update({
-          where: {
-            id: data.id,
-            userId, // Ensure user owns the dream
+        if (existing) {
+          return { data: existing };
+        }
+      }
+
+      if (!fields.isDraft) {
+        const exceeded = await quotaService.consume(userId, 'dreamEntries');
+        if (exceeded) {
+          return { quota: exceeded };
+        }
+      }
+
+      let dream;
+      try {
+        dream = await prisma.dream.create({
+          data: {
+            ...fields,
+            userId,
+            revision: 1,
           },
-          data,
         });
-      
-      case 'delete':
-        return prisma.dream.delete({
+      } catch (error) {
+        if (!fields.isDraft) {
+          await quotaService.release(userId, 'dreamEntries');
+        }
+        throw error;
+      }
+      await changeLogService.record(userId, 'DREAM', dream.id, 'CREATE');
+      await searchService.indexDream(dream.id);
+      embeddingService.indexDream(dream.id);
+      return { data: dream };
+    }
+
+    const current = await prisma.dream.findFirst({
+      where: {
+        id: data.id,
+        userId, // Ensure user owns the dream
+      },
+    });
+
+    if (!current) {
+      throw new Error('Dream not found');
+    }
+
+    switch (action) {
+      case 'update': {
+        const changes = SyncController.validateChanges<DreamUpdateData>(syncDreamUpdateSchema, data);
+        const conflict = SyncController.detectConflict('dream', current, current.revision, changes, baseRevision);
+        if (conflict) {
+          return conflict;
+        }
+
+        // Publishing a draft is when it counts as an entry
+        const publishing = current.isDraft && changes.isDraft === false;
+        if (publishing) {
+          const exceeded = await quotaService.consume(userId, 'dreamEntries');
+          if (exceeded) {
+            return { quota: exceeded };
+          }
+        }
+
+        // Only write if nobody else did since we read; otherwise re-check against the newer version
+        const updated = await prisma.dream.updateMany({
           where: {
-            id: data.id,
-            userId, // Ensure user owns the dream
+            id: current.id,
+            revision: current.revision,
+          },
+          data: {
+            ...changes,
+            revision: { increment: 1 },
           },
         });
+
+        if (updated.count === 0) {
+          if (publishing) {
+            await quotaService.release(userId, 'dreamEntries');
+          }
+          return SyncController.processDreamOperation(userId, action, data, baseRevision);
+        }
+
+        await changeLogService.record(userId, 'DREAM', current.id, 'UPDATE');
+        await searchService.indexDream(current.id);
+        embeddingService.indexDream(current.id);
+        if (analysisVersionService.touchesAnalyzedContent(changes)) {
+          await analysisVersionService.refreshStaleness(current.id);
+        }
+        return { data: await prisma.dream.findUnique({ where: { id: current.id } }) };
+      }
+      
+      case 'delete': {
+        const conflict = SyncController.detectConflict('dream', current, current.revision, null, baseRevision);
+        if (conflict) {
+          return conflict;
+        }
+
+        return { data: await changeLogService.deleteDream(userId, current.id) };
+      }
       
       default:
         throw new Error(`Unknown dream action: ${action}`);
     }
   }
 
-  private static async processVoiceOperation(userId: string, action: string, data: any): Promise<any> {
+  private static async processVoiceOperation(
+    userId: string,
+    action: string,
+    data: any,
+    baseRevision?: number
+  ): Promise<SyncOutcome> {
+    const current = await prisma.voiceRecording.findFirst({
+      where: {
+        id: data.id,
+        userId, // Ensure user owns the recording
+      },
+    });
+
+    if (!current) {
+      throw new Error('Voice recording not found');
+    }
+
     switch (action) {
-      case 'update':
-        return prisma.voiceRecording.update({
+      case 'update': {
+        const changes = SyncController.validateChanges(syncVoiceRecordingUpdateSchema, data);
+        const conflict = SyncController.detectConflict('voiceRecording', current, current.revision, changes, baseRevision);
+        if (conflict) {
+          return conflict;
+        }
+
+        if (changes.dreamId) {
+          const dream = await prisma.dream.findFirst({
+            where: { id: changes.dreamId, userId },
+            select: { id: true },
+          });
+          if (!dream) {
+            throw new Error('Dream not found');
+          }
+        }
+
+        const updated = await prisma.voiceRecording.updateMany({
           where: {
-            id: data.id,
-            userId, // Ensure user owns the recording
+            id: current.id,
+            revision: current.revision,
+          },
+          data: {
+            ...changes,
+            revision: { increment: 1 },
           },
-          data,
         });
+
+        if (updated.count === 0) {
+          return SyncController.processVoiceOperation(userId, action, data, baseRevision);
+        }
+
+        await changeLogService.record(userId, 'VOICE_RECORDING', current.id, 'UPDATE');
+        // Transcripts are part of the search document of the dream they belong to
+        for (const dreamId of new Set([current.dreamId, changes.dreamId])) {
+          if (dreamId) {
+            await searchService.indexDream(dreamId);
+          }
+        }
+        return { data: await prisma.voiceRecording.findUnique({ where: { id: current.id } }) };
+      }
       
-      case 'delete':
-        return prisma.voiceRecording.delete({
-          where: {
-            id: data.id,
-            userId, // Ensure user owns the recording
-          },
+      case 'delete': {
+        const conflict = SyncController.detectConflict('voiceRecording', current, current.revision, null, baseRevision);
+        if (conflict) {
+          return conflict;
+        }
+
+        const recording = await prisma.voiceRecording.delete({
+          where: { id: current.id },
         });
+        await changeLogService.record(userId, 'VOICE_RECORDING', current.id, 'DELETE');
+        return { data: recording };
+      }
       
       default:
         throw new Error(`Unknown voice recording action: ${action}`);
     }
   }
 
-  private static async processUserOperation(userId: string, action: string, data: any): Promise<any> {
-    if (action === 'update') {
-      // Only allow updating certain fields
-      const allowedFields = ['preferences', 'notificationsEnabled', 'reminderTime', 'timezone'];
-      const updateData: any = {};
-      
-      for (const field of allowedFields) {
-        if (data[field] !== undefined) {
-          updateData[field] = data[field];
-        }
+  private static async processUserOperation(
+    userId: string,
+    action: string,
+    data: any,
+    baseRevision?: number
+  ): Promise<SyncOutcome> {
+    if (action !== 'update') {
+      throw new Error(`Unknown user action: ${action}`);
+    }
+
+    // Only allow updating certain fields
+    const fields = SyncController.validateChanges(userUpdateSchema, data);
+    const updateData: any = {};
+    for (const field of SYNCED_USER_FIELDS) {
+      if (fields[field] !== undefined) {
+        updateData[field] = fields[field];
       }
-      
-      return prisma.user.update({
+    }
+
+    const current = await prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        preferences: true,
+        preferencesRevision: true,
+        notificationsEnabled: true,
+        reminderTime: true,
+        timezone: true,
+      },
+    });
+
+    if (!current) {
+      throw new Error('User not found');
+    }
+
+    const conflict = SyncController.detectConflict('user', current, current.preferencesRevision, updateData, baseRevision);
+    if (conflict) {
+      return conflict;
+    }
+
+    // Clients send only the preference keys they changed; the rest are kept
+    if (updateData.preferences && typeof updateData.preferences === 'object') {
+      updateData.preferences = {
+        ...(current.preferences as Record<string, any>),
+        ...updateData.preferences,
+      };
+    }
+
+    const updated = await prisma.user.updateMany({
+      where: {
+        id: userId,
+        preferencesRevision: current.preferencesRevision,
+      },
+      data: {
+        ...updateData,
+        preferencesRevision: { increment: 1 },
+      },
+    });
+
+    if (updated.count === 0) {
+      return SyncController.processUserOperation(userId, action, data, baseRevision);
+    }
+
+    await changeLogService.record(userId, 'USER', userId, 'UPDATE');
+
+    return {
+      data: await prisma.user.findUnique({
         where: { id: userId },
-        data: updateData,
-      });
-    } else {
-      throw new Error(`Unknown user action: ${action}`);
+        select: {
+          id: true,
+          preferences: true,
+          preferencesRevision: true,
+          notificationsEnabled: true,
+          reminderTime: true,
+          timezone: true,
+          updatedAt: true,
+        },
+      }),
+    };
+  }
+
+  // A write is stale when it was based on an older revision than the server has.
+  // Stale writes that change nothing the server disagrees with still go through;
+  // clients that send no baseRevision keep the old last-writer-wins behaviour.
+  private static detectConflict(
+    type: SyncRecordType,
+    current: Record<string, any>,
+    serverRevision: number,
+    changes: Record<string, any> | null,
+    baseRevision?: number
+  ): SyncOutcome | null {
+    if (baseRevision === undefined || baseRevision === serverRevision) {
+      return null;
     }
+
+    // Deletes conflict with any newer server edit, so there are no fields to compare
+    const conflictingFields = changes
+      ? SyncController.diffFields(changes, current)
+      : [];
+
+    if (changes && conflictingFields.length === 0) {
+      return null;
+    }
+
+    return {
+      conflict: {
+        type,
+        recordId: current.id,
+        baseRevision,
+        serverRevision,
+        clientVersion: changes,
+        serverVersion: current,
+        conflictingFields,
+      },
+    };
+  }
+
+  // Preferences are compared key by key so unrelated settings merge cleanly
+  private static diffFields(changes: Record<string, any>, current: Record<string, any>): string[] {
+    const fields: string[] = [];
+
+    for (const [field, value] of Object.entries(changes)) {
+      if (field === 'preferences' && value && typeof value === 'object') {
+        const serverPreferences = (current.preferences || {}) as Record<string, any>;
+        for (const key of Object.keys(value)) {
+          if (JSON.stringify(value[key]) !== JSON.stringify(serverPreferences[key])) {
+            fields.push(`preferences.${key}`);
+          }
+        }
+      } else if (JSON.stringify(value) !== JSON.stringify(current[field])) {
+        fields.push(field);
+      }
+    }
+
+    return fields;
+  }
+
+  // The schema is the allowlist: fields it doesn't know, such as ids, owners,
+  // revisions and server-managed columns, are dropped rather than written
+  private static validateChanges<T extends object = Record<string, any>>(
+    schema: Joi.ObjectSchema,
+    data: Record<string, any>
+  ): T {
+    const { error, value } = schema.validate(data, {
+      abortEarly: false,
+      stripUnknown: true,
+    });
+
+    if (error) {
+      throw new Error(`Invalid data: ${error.details.map(detail => detail.message).join(', ')}`);
+    }
+
+    return value;
   }
-}
\ No newline at end of file
+}
@@ -2,6 +2,12 @@ import { Response } from 'express';
 import multer from 'multer';
 import { prisma } from '../config/database';
 import { s3Service } from '../services/s3Service';
+import { transcriptionService } from '../services/transcriptionService';
+import { changeLogService } from '../services/changeLogService';
+import { searchService } from '../services/searchService';
+import { embeddingService } from '../services/embeddingService';
+import { quotaService } from '../services/quotaService';
+import { analysisVersionService } from '../services/analysisVersionService';
 import { AuthenticatedRequest, ApiResponse } from '../types';
 
 // Configure multer for memory storage
@@ -56,6 +62,17 @@ export class VoiceController {
         }
       }
 
+      const storageExceeded = await quotaService.checkStorage(userId, req.file.size);
+      if (storageExceeded) {
+        const response: ApiResponse = {
+          success: false,
+          error: quotaService.getExceededMessage(storageExceeded),
+          data: { upgradeRequired: storageExceeded.upgrade !== null, ...storageExceeded },
+        };
+        res.status(402).json(response);
+        return;
+      }
+
       // Generate unique file key
       const fileKey = s3Service.generateFileKey(userId, dreamId);
       
@@ -77,6 +94,7 @@ export class VoiceController {
           duration: 0, // Will be updated when processed
         },
       });
+      await changeLogService.record(userId, 'VOICE_RECORDING', voiceRecording.id, 'CREATE');
 
       const response: ApiResponse = {
         success: true,
@@ -273,6 +291,7 @@ export class VoiceController {
       await prisma.voiceRecording.delete({
         where: { id: recordingId },
       });
+      await changeLogService.record(userId, 'VOICE_RECORDING', recordingId, 'DELETE');
 
       const response: ApiResponse = {
         success: true,
@@ -294,6 +313,7 @@ export class VoiceController {
     try {
       const recordingId = req.params.id;
       const userId = req.user!.id;
+      const { language, force = false, applyToDream = true } = req.body || {};
 
       const voiceRecording = await prisma.voiceRecording.findFirst({
         where: {
@@ -311,38 +331,113 @@ export class VoiceController {
         return;
       }
 
-      if (voiceRecording.transcription) {
+      if (voiceRecording.transcription && !force) {
         const response: ApiResponse = {
           success: true,
           data: {
             transcription: voiceRecording.transcription,
+            cached: true,
           },
         };
         res.json(response);
         return;
       }
 
-      // For now, return a placeholder - in a real implementation, you would:
-      // 1. Download the file from S3
-      // 2. Use a speech-to-text service (OpenAI Whisper, Google Speech-to-Text, etc.)
-      // 3. Update the database with the transcription
+      // Recordings uploaded without a duration are charged once the provider reports it
+      const exceeded = await quotaService.checkTranscription(userId, voiceRecording.duration);
+      if (exceeded) {
+        const response: ApiResponse = {
+          success: false,
+          error: quotaService.getExceededMessage(exceeded),
+          data: { upgradeRequired: exceeded.upgrade !== null, ...exceeded },
+        };
+        res.status(402).json(response);
+        return;
+      }
+
+      // Fetch the audio and run it through the configured speech-to-text provider
+      const audio = await s3Service.getVoiceRecording(voiceRecording.filePath);
+      const result = await transcriptionService.transcribe(audio.body, {
+        fileName: voiceRecording.fileName,
+        contentType: audio.contentType,
+        language,
+      });
+
+      const updatedRecording = await prisma.voiceRecording.update({
+        where: { id: recordingId },
+        data: {
+          transcription: result.text,
+          isProcessed: true,
+          revision: { increment: 1 },
+          ...(result.duration && !voiceRecording.duration ? { duration: result.duration } : {}),
+        },
+      });
+      await quotaService.recordTranscription(userId, updatedRecording.duration);
+
+      // Fill in the linked dream's narrative while it is still a draft
+      let updatedDream = null;
+      if (voiceRecording.dreamId && applyToDream && result.text) {
+        const dream = await prisma.dream.findFirst({
+          where: {
+            id: voiceRecording.dreamId,
+            userId,
+          },
+        });
+
+        if (dream?.isDraft && !dream.content.includes(result.text)) {
+          updatedDream = await prisma.dream.update({
+            where: { id: dream.id },
+            data: {
+              content: dream.content.trim()
+                ? `${dream.content.trim()}\n\n${result.text}`
+                : result.text,
+              isProcessed: false,
+              revision: { increment: 1 },
+            },
+            select: {
+              id: true,
+              title: true,
+              content: true,
+              isDraft: true,
+              updatedAt: true,
+            },
+          });
+        }
+      }
+
+      await changeLogService.record(userId, 'VOICE_RECORDING', recordingId, 'UPDATE');
+      if (updatedDream) {
+        await changeLogService.record(userId, 'DREAM', updatedDream.id, 'UPDATE');
+        await analysisVersionService.refreshStaleness(updatedDream.id);
+        embeddingService.indexDream(updatedDream.id); // Runs in the background
+      }
+
+      // Transcripts are part of the linked dream's search document
+      if (voiceRecording.dreamId) {
+        await searchService.indexDream(voiceRecording.dreamId);
+      }
 
       const response: ApiResponse = {
-        success: false,
-        error: 'Transcription service not yet implemented',
+        success: true,
+        message: 'Voice recording transcribed successfully',
         data: {
-          placeholder: 'Transcription functionality will be implemented with OpenAI Whisper API',
+          transcription: updatedRecording.transcription,
+          language: result.language,
+          duration: updatedRecording.duration,
+          provider: result.provider,
+          dream: updatedDream,
+          cached: false,
         },
       };
 
-      res.status(501).json(response);
+      res.json(response);
     } catch (error) {
       console.error('Transcribe voice recording error:', error);
       const response: ApiResponse = {
         success: false,
-        error: 'Failed to transcribe voice recording',
+        error: error instanceof Error ? error.message : 'Failed to transcribe voice recording',
       };
       res.status(500).json(response);
     }
   }
-}
\ No newline at end of file
+}
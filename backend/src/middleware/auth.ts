@@ -2,6 +2,8 @@ import { Request, Response, NextFunction } from 'express';
 import { AuthenticatedRequest, ApiResponse } from '../types';
 import { AuthUtils } from '../utils/auth';
 import { prisma } from '../config/database';
+import { sessionService } from '../services/sessionService';
+import { entitlementService, Feature, FEATURES } from '../services/entitlementService';
 
 export const authenticateToken = async (
   req: AuthenticatedRequest,
@@ -27,11 +29,21 @@ export const authenticateToken = async (
       success: false,
       error: 'Invalid or expired token',
     };
-    res.status(403).json(response);
+    res.status(401).json(response);
     return;
   }
 
   try {
+    // Revoked sessions lose access right away rather than when the token expires
+    if (payload.sessionId && !(await sessionService.isActive(payload.sessionId))) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Session has been revoked',
+      };
+      res.status(401).json(response);
+      return;
+    }
+
     // Verify user still exists and is active
     const user = await prisma.user.findUnique({
       where: { id: payload.userId },
@@ -40,6 +52,7 @@ export const authenticateToken = async (
         email: true,
         subscriptionStatus: true,
         isVerified: true,
+        isAdmin: true,
       },
     });
 
@@ -56,6 +69,9 @@ export const authenticateToken = async (
       id: user.id,
       email: user.email,
       subscriptionStatus: user.subscriptionStatus,
+      isVerified: user.isVerified,
+      isAdmin: user.isAdmin,
+      sessionId: payload.sessionId,
     };
 
     next();
@@ -69,8 +85,10 @@ export const authenticateToken = async (
   }
 };
 
-export const requireSubscription = (
-  requiredStatus: 'FREE' | 'PREMIUM' = 'PREMIUM'
+// Takes the feature, or a function that picks it from the request when it
+// depends on the input (e.g. the kind of analysis asked for)
+export const requireFeature = (
+  feature: Feature | ((req: AuthenticatedRequest) => Feature)
 ) => {
   return (req: AuthenticatedRequest, res: Response, next: NextFunction): void => {
     if (!req.user) {
@@ -82,11 +100,14 @@ export const requireSubscription = (
       return;
     }
 
-    if (requiredStatus === 'PREMIUM' && req.user.subscriptionStatus === 'FREE') {
+    const required = typeof feature === 'function' ? feature(req) : feature;
+
+    if (!entitlementService.hasFeature(req.user.subscriptionStatus, required)) {
+      const requiredTier = entitlementService.getRequiredTier(required);
       const response: ApiResponse = {
         success: false,
-        error: 'Premium subscription required',
-        data: { upgradeRequired: true },
+        error: `${FEATURES[required].name} is not included in your plan`,
+        data: { upgradeRequired: true, feature: required, requiredTier },
       };
       res.status(403).json(response);
       return;
@@ -101,8 +122,51 @@ export const requireVerification = (
   res: Response,
   next: NextFunction
 ): void => {
-  // For now, we'll skip email verification in development
-  // In production, you'd check user.isVerified
+  if (!req.user) {
+    const response: ApiResponse = {
+      success: false,
+      error: 'Authentication required',
+    };
+    res.status(401).json(response);
+    return;
+  }
+
+  if (!req.user.isVerified) {
+    const response: ApiResponse = {
+      success: false,
+      error: 'Please verify your email address first',
+      data: { verificationRequired: true },
+    };
+    res.status(403).json(response);
+    return;
+  }
+
+  next();
+};
+
+export const requireAdmin = (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (!req.user) {
+    const response: ApiResponse = {
+      success: false,
+      error: 'Authentication required',
+    };
+    res.status(401).json(response);
+    return;
+  }
+
+  if (!req.user.isAdmin) {
+    const response: ApiResponse = {
+      success: false,
+      error: 'Admin access required',
+    };
+    res.status(403).json(response);
+    return;
+  }
+
   next();
 };
 
@@ -129,6 +193,7 @@ export const optionalAuth = async (
           id: true,
           email: true,
           subscriptionStatus: true,
+          isVerified: true,
         },
       });
 
@@ -137,6 +202,7 @@ export const optionalAuth = async (
           id: user.id,
           email: user.email,
           subscriptionStatus: user.subscriptionStatus,
+          isVerified: user.isVerified,
         };
       }
     } catch (error) {
@@ -1,58 +1,114 @@
-import rateLimit from 'express-rate-limit';
+import { Request } from 'express';
+import rateLimit, { ipKeyGenerator, MemoryStore, Store } from 'express-rate-limit';
 import { env } from '../config/env';
-import { ApiResponse } from '../types';
+import { entitlementService, Tier } from '../services/entitlementService';
+import { ApiResponse, AuthenticatedRequest } from '../types';
+
+// A single number applies to every tier
+type Budget = number | Record<Tier, number>;
+
+// Every limiter gets a store of its own. Anything implementing express-rate-limit's
+// Store (rate-limit-redis, for one) can be added here once counters need to be
+// shared between instances.
+const createStore = (name: string): Store => {
+  switch (env.RATE_LIMIT_STORE) {
+    case 'memory':
+      return new MemoryStore();
+    default:
+      throw new Error(`Unknown rate limit store for ${name}: ${env.RATE_LIMIT_STORE}`);
+  }
+};
+
+// Signed-in requests are counted per user, so people sharing an address don't
+// share a budget. Anything else falls back to the address and the free budget.
+const getClientKey = (req: Request): string => {
+  const { user } = req as AuthenticatedRequest;
+  return user ? `user:${user.id}` : `ip:${ipKeyGenerator(req.ip ?? '')}`;
+};
+
+const getBudget = (req: Request, budget: Budget): number => {
+  if (typeof budget === 'number') {
+    return budget;
+  }
+
+  const { user } = req as AuthenticatedRequest;
+  return budget[user ? entitlementService.getTier(user.subscriptionStatus) : 'FREE'];
+};
 
 export const createRateLimit = (options: {
+  name: string;
   windowMs?: number;
-  max?: number;
+  max?: Budget;
   skipSuccessfulRequests?: boolean;
 }) => {
+  const max = options.max ?? env.RATE_LIMIT_MAX_REQUESTS;
+
   return rateLimit({
     windowMs: options.windowMs || env.RATE_LIMIT_WINDOW_MS,
-    max: options.max || env.RATE_LIMIT_MAX_REQUESTS,
+    limit: req => getBudget(req, max),
+    keyGenerator: getClientKey,
+    store: createStore(options.name),
     skipSuccessfulRequests: options.skipSuccessfulRequests || false,
     message: (req: any, res: any) => {
+      const resetTime: Date | undefined = req.rateLimit?.resetTime;
       const response: ApiResponse = {
         success: false,
         error: 'Too many requests, please try again later',
         data: {
-          retryAfter: Math.ceil(options.windowMs! / 1000 / 60),
+          limit: req.rateLimit?.limit,
+          resetsAt: resetTime?.toISOString() ?? null,
+          retryAfter: resetTime ? Math.max(Math.ceil((resetTime.getTime() - Date.now()) / 1000 / 60), 1) : null,
         },
       };
       return response;
     },
-    standardHeaders: true,
+    // RateLimit-Limit, RateLimit-Remaining and RateLimit-Reset on every response
+    standardHeaders: 'draft-6',
     legacyHeaders: false,
   });
 };
 
 // General API rate limiting
 export const generalRateLimit = createRateLimit({
+  name: 'general',
   windowMs: 15 * 60 * 1000, // 15 minutes
-  max: 100, // limit each IP to 100 requests per windowMs
+  max: { FREE: 100, PREMIUM: 300 },
 });
 
-// Strict rate limiting for auth endpoints
+// Strict rate limiting for auth endpoints. Nobody is signed in yet, so this one
+// is always per address.
 export const authRateLimit = createRateLimit({
+  name: 'auth',
   windowMs: 15 * 60 * 1000, // 15 minutes
-  max: 10, // limit each IP to 10 requests per windowMs
+  max: 10,
   skipSuccessfulRequests: true,
 });
 
+// Reset requests always succeed so accounts can't be probed, which means the
+// auth limiter never counts them. This one counts every request.
+export const passwordResetRateLimit = createRateLimit({
+  name: 'password-reset',
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 5,
+});
+
 // Voice upload rate limiting
 export const uploadRateLimit = createRateLimit({
+  name: 'upload',
   windowMs: 60 * 1000, // 1 minute
-  max: 5, // limit each IP to 5 uploads per minute
+  max: { FREE: 5, PREMIUM: 15 },
 });
 
-// AI analysis rate limiting (more restrictive for free users)
+// AI analysis rate limiting
 export const aiAnalysisRateLimit = createRateLimit({
+  name: 'ai-analysis',
   windowMs: 60 * 60 * 1000, // 1 hour
-  max: 10, // limit each IP to 10 analysis requests per hour
+  max: { FREE: 10, PREMIUM: 60 },
 });
 
 // Search rate limiting
 export const searchRateLimit = createRateLimit({
+  name: 'search',
   windowMs: 60 * 1000, // 1 minute
-  max: 30, // limit each IP to 30 searches per minute
-});
\ No newline at end of file
+  max: { FREE: 30, PREMIUM: 90 },
+});
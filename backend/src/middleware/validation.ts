@@ -1,10 +1,11 @@
 import Joi from 'joi';
 import { Request, Response, NextFunction } from 'express';
 import { ApiResponse } from '../types';
+import { TimezoneUtils } from '../utils/timezone';
 
 export const validateSchema = (schema: Joi.ObjectSchema) => {
   return (req: Request, res: Response, next: NextFunction): void => {
-    const { error } = schema.validate(req.body, { 
+    const { error, value } = schema.validate(req.body, { 
       abortEarly: false,
       stripUnknown: true,
     });
@@ -20,32 +21,62 @@ export const validateSchema = (schema: Joi.ObjectSchema) => {
       return;
     }
 
+    // Handlers only ever see the fields the schema allows
+    req.body = value;
     next();
   };
 };
 
 // User validation schemas
+const passwordSchema = Joi.string().min(8).pattern(new RegExp('^(?=.*[a-z])(?=.*[A-Z])(?=.*[0-9])(?=.*[!@#\$%\^&\*])')).required()
+  .messages({
+    'string.pattern.base': 'Password must contain at least one lowercase letter, one uppercase letter, one number, and one special character',
+  });
+
 export const userRegistrationSchema = Joi.object({
   email: Joi.string().email().required(),
-  password: Joi.string().min(8).pattern(new RegExp('^(?=.*[a-z])(?=.*[A-Z])(?=.*[0-9])(?=.*[!@#\$%\^&\*])')).required()
-    .messages({
-      'string.pattern.base': 'Password must contain at least one lowercase letter, one uppercase letter, one number, and one special character',
-    }),
+  password: passwordSchema,
   username: Joi.string().alphanum().min(3).max(30).optional(),
   firstName: Joi.string().min(1).max(50).optional(),
   lastName: Joi.string().min(1).max(50).optional(),
+  deviceName: Joi.string().max(100).optional(),
 });
 
 export const userLoginSchema = Joi.object({
   email: Joi.string().email().required(),
   password: Joi.string().required(),
+  deviceName: Joi.string().max(100).optional(),
+});
+
+export const refreshTokenSchema = Joi.object({
+  refreshToken: Joi.string().required(),
+});
+
+export const forgotPasswordSchema = Joi.object({
+  email: Joi.string().email().required(),
+});
+
+export const resetPasswordSchema = Joi.object({
+  token: Joi.string().required(),
+  password: passwordSchema,
+});
+
+export const verifyEmailSchema = Joi.object({
+  token: Joi.string().required(),
+});
+
+export const deleteAccountSchema = Joi.object({
+  password: Joi.string().required(),
 });
 
 export const userUpdateSchema = Joi.object({
   username: Joi.string().alphanum().min(3).max(30).optional(),
   firstName: Joi.string().min(1).max(50).optional(),
   lastName: Joi.string().min(1).max(50).optional(),
-  timezone: Joi.string().optional(),
+  // IANA name such as Europe/Berlin; reminders are scheduled in this zone
+  timezone: Joi.string()
+    .custom((value, helpers) => TimezoneUtils.isValidTimeZone(value) ? value : helpers.error('any.invalid'))
+    .optional(),
   avatar: Joi.string().uri().optional(),
   preferences: Joi.object().optional(),
   notificationsEnabled: Joi.boolean().optional(),
@@ -95,6 +126,29 @@ export const dreamUpdateSchema = Joi.object({
   isDraft: Joi.boolean().optional(),
 });
 
+// Sync writes go through the same rules as the REST routes. Devices pick the id
+// of a dream they create, and drafts may be saved before the narrative is written.
+const syncDreamContent = Joi.when('isDraft', {
+  is: true,
+  then: Joi.string().allow('').max(10000),
+  otherwise: Joi.string().min(1).max(10000),
+});
+
+export const syncDreamCreateSchema = dreamCreateSchema.keys({
+  id: Joi.string().max(64).optional(),
+  content: syncDreamContent.required(),
+});
+
+export const syncDreamUpdateSchema = dreamUpdateSchema.keys({
+  content: syncDreamContent.optional(),
+});
+
+// Files, sizes and transcripts are set by the server when audio is uploaded and processed
+export const syncVoiceRecordingUpdateSchema = Joi.object({
+  fileName: Joi.string().min(1).max(255).optional(),
+  dreamId: Joi.string().allow(null).optional(),
+});
+
 // Query parameter validation
 export const paginationSchema = Joi.object({
   page: Joi.number().integer().min(1).default(1),
@@ -103,6 +157,7 @@ export const paginationSchema = Joi.object({
 
 export const dreamQuerySchema = paginationSchema.keys({
   search: Joi.string().max(100).optional(),
+  mode: Joi.string().valid('keyword', 'semantic').default('keyword'),
   emotions: Joi.alternatives().try(
     Joi.string(),
     Joi.array().items(Joi.string())
@@ -117,8 +172,12 @@ export const dreamQuerySchema = paginationSchema.keys({
   ).optional(),
   dateFrom: Joi.date().optional(),
   dateTo: Joi.date().optional(),
-  sortBy: Joi.string().valid('dreamDate', 'createdAt', 'title').default('dreamDate'),
-  sortOrder: Joi.string().valid('asc', 'desc').default('desc'),
+  sortBy: Joi.string().valid('dreamDate', 'createdAt', 'title').optional(), // Defaults to dreamDate
+  sortOrder: Joi.string().valid('asc', 'desc').optional(), // Defaults to desc
+});
+
+export const similarDreamsQuerySchema = Joi.object({
+  limit: Joi.number().integer().min(1).max(20).default(5),
 });
 
 export const validateQuery = (schema: Joi.ObjectSchema) => {
@@ -139,7 +198,8 @@ export const validateQuery = (schema: Joi.ObjectSchema) => {
       return;
     }
 
-    req.query = value;
+    // Express 5 exposes req.query as a getter, so it can't be assigned directly
+    Object.defineProperty(req, 'query', { value, writable: true, configurable: true, enumerable: true });
     next();
   };
 };
\ No newline at end of file
@@ -0,0 +1,45 @@
+import { Router } from 'express';
+import { AdminController } from '../controllers/adminController';
+import { authenticateToken, requireAdmin } from '../middleware/auth';
+import { generalRateLimit } from '../middleware/rateLimiting';
+import { validateQuery } from '../middleware/validation';
+import Joi from 'joi';
+
+const router = Router();
+
+// Apply authentication and the admin check to all admin routes
+router.use(authenticateToken);
+router.use(requireAdmin);
+router.use(generalRateLimit);
+
+// Validation schemas
+const jobRunsQuerySchema = Joi.object({
+  limit: Joi.number().integer().min(1).max(100).default(20),
+  status: Joi.string().valid('RUNNING', 'SUCCEEDED', 'FAILED').optional(),
+});
+
+const stripeEventsQuerySchema = Joi.object({
+  limit: Joi.number().integer().min(1).max(200).default(50),
+  status: Joi.string().valid('PROCESSING', 'PROCESSED', 'SKIPPED', 'FAILED').optional(),
+  type: Joi.string().max(100).optional(),
+});
+
+const llmFailuresQuerySchema = Joi.object({
+  days: Joi.number().integer().min(1).max(90).default(7),
+  limit: Joi.number().integer().min(1).max(200).default(50),
+  task: Joi.string().valid('analysis', 'symbols', 'patterns').optional(),
+});
+
+// Scheduled jobs
+router.get('/jobs', AdminController.getJobs);
+router.get('/jobs/:name/runs', validateQuery(jobRunsQuerySchema), AdminController.getJobRuns);
+router.post('/jobs/:name/run', AdminController.triggerJob);
+
+// Stripe webhook ledger
+router.get('/stripe-events', validateQuery(stripeEventsQuerySchema), AdminController.getStripeEvents);
+router.post('/stripe-events/:id/replay', AdminController.replayStripeEvent);
+
+// AI output that failed schema validation
+router.get('/llm-failures', validateQuery(llmFailuresQuerySchema), AdminController.getLlmFailures);
+
+export default router;
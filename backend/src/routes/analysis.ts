@@ -1,8 +1,10 @@
 import { Router } from 'express';
+import { AnalysisType } from '@prisma/client';
 import { AnalysisController } from '../controllers/analysisController';
-import { authenticateToken, requireSubscription } from '../middleware/auth';
+import { authenticateToken, requireFeature } from '../middleware/auth';
 import { aiAnalysisRateLimit, generalRateLimit } from '../middleware/rateLimiting';
-import { validateSchema } from '../middleware/validation';
+import { validateSchema, validateQuery } from '../middleware/validation';
+import { Feature } from '../services/entitlementService';
 import Joi from 'joi';
 
 const router = Router();
@@ -13,8 +15,22 @@ router.use(authenticateToken);
 // Validation schemas
 const analysisRequestSchema = Joi.object({
   analysisType: Joi.string().valid('BASIC', 'ADVANCED', 'PATTERN_RECOGNITION', 'PERSONAL_MYTHOLOGY').default('BASIC'),
+  regenerate: Joi.boolean().default(false), // Write a new version even if one exists
 });
 
+const compareQuerySchema = Joi.object({
+  from: Joi.string().required(),
+  to: Joi.string().required(),
+});
+
+// Which entitlement each kind of analysis needs
+const ANALYSIS_TYPE_FEATURES: Record<AnalysisType, Feature> = {
+  BASIC: 'basic_analysis',
+  ADVANCED: 'advanced_analysis',
+  PATTERN_RECOGNITION: 'advanced_analysis',
+  PERSONAL_MYTHOLOGY: 'advanced_analysis',
+};
+
 const symbolExtractionSchema = Joi.object({
   content: Joi.string().required().min(1).max(10000),
 });
@@ -23,16 +39,28 @@ const symbolExtractionSchema = Joi.object({
 router.post('/dreams/:dreamId/analyze', 
   aiAnalysisRateLimit, 
   validateSchema(analysisRequestSchema), 
+  requireFeature(req => ANALYSIS_TYPE_FEATURES[req.body.analysisType as AnalysisType ?? 'BASIC']),
   AnalysisController.analyzeDream
 );
 
+// Same as above, streamed as Server-Sent Events while the analysis is written
+router.post('/dreams/:dreamId/analyze/stream',
+  aiAnalysisRateLimit,
+  validateSchema(analysisRequestSchema),
+  requireFeature(req => ANALYSIS_TYPE_FEATURES[req.body.analysisType as AnalysisType ?? 'BASIC']),
+  AnalysisController.streamAnalysis
+);
+
+router.get('/jobs/:id', AnalysisController.getAnalysisJob);
 router.get('/dreams/:dreamId', AnalysisController.getDreamAnalysis);
+router.get('/compare', validateQuery(compareQuerySchema), AnalysisController.compareAnalyses);
 router.get('/', generalRateLimit, AnalysisController.getUserAnalyses);
 router.delete('/:id', AnalysisController.deleteAnalysis);
 
 // Symbol extraction (utility endpoint)
 router.post('/extract-symbols', 
   generalRateLimit,
+  requireFeature('symbol_extraction'),
   validateSchema(symbolExtractionSchema),
   AnalysisController.extractSymbols
 );
@@ -2,11 +2,16 @@ import { Router } from 'express';
 import { AuthController } from '../controllers/authController';
 import { authenticateToken } from '../middleware/auth';
 import { validateSchema } from '../middleware/validation';
-import { authRateLimit } from '../middleware/rateLimiting';
+import { authRateLimit, passwordResetRateLimit } from '../middleware/rateLimiting';
 import {
   userRegistrationSchema,
   userLoginSchema,
   userUpdateSchema,
+  refreshTokenSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  verifyEmailSchema,
+  deleteAccountSchema,
 } from '../middleware/validation';
 
 const router = Router();
@@ -17,11 +22,20 @@ router.use(authRateLimit);
 // Public routes
 router.post('/register', validateSchema(userRegistrationSchema), AuthController.register);
 router.post('/login', validateSchema(userLoginSchema), AuthController.login);
+router.post('/refresh', validateSchema(refreshTokenSchema), AuthController.refreshToken);
+router.post('/logout', validateSchema(refreshTokenSchema), AuthController.logout);
+router.post('/forgot-password', passwordResetRateLimit, validateSchema(forgotPasswordSchema), AuthController.forgotPassword);
+router.post('/reset-password', validateSchema(resetPasswordSchema), AuthController.resetPassword);
+router.post('/verify-email', validateSchema(verifyEmailSchema), AuthController.verifyEmail);
 
 // Protected routes
 router.get('/profile', authenticateToken, AuthController.getProfile);
 router.put('/profile', authenticateToken, validateSchema(userUpdateSchema), AuthController.updateProfile);
-router.post('/refresh', authenticateToken, AuthController.refreshToken);
-router.delete('/account', authenticateToken, AuthController.deleteAccount);
+router.post('/resend-verification', authenticateToken, AuthController.resendVerification);
+router.get('/sessions', authenticateToken, AuthController.getSessions);
+router.delete('/sessions/:id', authenticateToken, AuthController.revokeSession);
+router.get('/export', authenticateToken, AuthController.exportAccount);
+router.delete('/account', authenticateToken, validateSchema(deleteAccountSchema), AuthController.deleteAccount);
+router.post('/account/restore', authenticateToken, AuthController.restoreAccount);
 
 export default router;
\ No newline at end of file
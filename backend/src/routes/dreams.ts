@@ -1,12 +1,13 @@
 import { Router } from 'express';
 import { DreamController } from '../controllers/dreamController';
-import { authenticateToken, requireSubscription } from '../middleware/auth';
+import { authenticateToken } from '../middleware/auth';
 import { validateSchema, validateQuery } from '../middleware/validation';
 import { generalRateLimit, searchRateLimit } from '../middleware/rateLimiting';
 import {
   dreamCreateSchema,
   dreamUpdateSchema,
   dreamQuerySchema,
+  similarDreamsQuerySchema,
 } from '../middleware/validation';
 
 const router = Router();
@@ -22,6 +23,7 @@ router.post('/', validateSchema(dreamCreateSchema), DreamController.createDream)
 router.get('/', searchRateLimit, validateQuery(dreamQuerySchema), DreamController.getDreams);
 router.get('/stats', DreamController.getDreamStats);
 router.get('/:id', DreamController.getDream);
+router.get('/:id/similar', validateQuery(similarDreamsQuerySchema), DreamController.getSimilarDreams);
 router.put('/:id', validateSchema(dreamUpdateSchema), DreamController.updateDream);
 router.delete('/:id', DreamController.deleteDream);
 
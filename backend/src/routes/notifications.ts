@@ -2,7 +2,7 @@ import { Router } from 'express';
 import { NotificationController } from '../controllers/notificationController';
 import { authenticateToken } from '../middleware/auth';
 import { generalRateLimit } from '../middleware/rateLimiting';
-import { validateSchema } from '../middleware/validation';
+import { validateSchema, validateQuery } from '../middleware/validation';
 import Joi from 'joi';
 
 const router = Router();
@@ -14,19 +14,50 @@ router.use(generalRateLimit);
 // Validation schemas
 const pushTokenSchema = Joi.object({
   pushToken: Joi.string().required(),
+  platform: Joi.string().valid('ios', 'android', 'web').optional(),
+  deviceName: Joi.string().max(100).optional(),
+  appVersion: Joi.string().max(50).optional(),
 });
 
+const unregisterTokenSchema = Joi.object({
+  pushToken: Joi.string().optional(), // Omit to remove every device
+});
+
+const deviceUpdateSchema = Joi.object({
+  notificationsEnabled: Joi.boolean(),
+  deviceName: Joi.string().max(100),
+}).min(1);
+
+const notificationTypes = ['DREAM_REMINDER', 'ANALYSIS_COMPLETE', 'PATTERN_DISCOVERED', 'SUBSCRIPTION_EXPIRING', 'WELCOME', 'TIP_OF_DAY'];
+const timeOfDay = Joi.string().pattern(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/);
+
 const notificationSettingsSchema = Joi.object({
   notificationsEnabled: Joi.boolean(),
-  reminderTime: Joi.string().pattern(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/).allow(null),
+  reminderTime: timeOfDay.allow(null),
+  types: Joi.object().pattern(Joi.string().valid(...notificationTypes), Joi.boolean()),
+  quietHours: Joi.object({
+    start: timeOfDay.required(),
+    end: timeOfDay.required(),
+  }).allow(null),
+  dailyLimit: Joi.number().integer().min(1).max(50).allow(null),
+});
+
+const historyQuerySchema = Joi.object({
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(20),
+  type: Joi.string().valid(...notificationTypes, 'TEST', 'BILLING').optional(),
+  deliveryStatus: Joi.string().valid('PENDING', 'SENT', 'DELIVERED', 'FAILED').optional(),
 });
 
 // Notification routes
 router.post('/register-token', validateSchema(pushTokenSchema), NotificationController.registerPushToken);
-router.post('/unregister-token', NotificationController.unregisterPushToken);
+router.post('/unregister-token', validateSchema(unregisterTokenSchema), NotificationController.unregisterPushToken);
+router.get('/devices', NotificationController.getDevices);
+router.patch('/devices/:id', validateSchema(deviceUpdateSchema), NotificationController.updateDevice);
+router.delete('/devices/:id', NotificationController.deleteDevice);
 router.get('/settings', NotificationController.getNotificationSettings);
 router.put('/settings', validateSchema(notificationSettingsSchema), NotificationController.updateNotificationSettings);
-router.get('/history', NotificationController.getNotificationHistory);
+router.get('/history', validateQuery(historyQuerySchema), NotificationController.getNotificationHistory);
 router.post('/test', NotificationController.sendTestNotification);
 router.post('/:id/opened', NotificationController.markNotificationOpened);
 
@@ -1,15 +1,15 @@
 import { Router } from 'express';
 import { PatternController } from '../controllers/patternController';
-import { authenticateToken, requireSubscription } from '../middleware/auth';
+import { authenticateToken, requireFeature } from '../middleware/auth';
 import { generalRateLimit } from '../middleware/rateLimiting';
 import { validateSchema } from '../middleware/validation';
 import Joi from 'joi';
 
 const router = Router();
 
-// Apply authentication and premium subscription requirement to all pattern routes
+// Apply authentication and the pattern recognition entitlement to all pattern routes
 router.use(authenticateToken);
-router.use(requireSubscription('PREMIUM'));
+router.use(requireFeature('pattern_recognition'));
 
 // Validation schemas
 const patternQuerySchema = Joi.object({
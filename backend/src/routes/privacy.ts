@@ -0,0 +1,21 @@
+import { Router } from 'express';
+import { PrivacyController } from '../controllers/privacyController';
+import { authenticateToken } from '../middleware/auth';
+import { generalRateLimit } from '../middleware/rateLimiting';
+import { validateQuery } from '../middleware/validation';
+import Joi from 'joi';
+
+const router = Router();
+
+// Apply authentication to all privacy routes
+router.use(authenticateToken);
+router.use(generalRateLimit);
+
+// Validation schemas
+const retentionPreviewQuerySchema = Joi.object({
+  days: Joi.number().integer().min(0).optional(), // 0 previews "keep everything"
+});
+
+router.get('/retention/preview', validateQuery(retentionPreviewQuerySchema), PrivacyController.getRetentionPreview);
+
+export default router;
@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import { SubscriptionController } from '../controllers/subscriptionController';
-import { authenticateToken, optionalAuth } from '../middleware/auth';
+import { authenticateToken, optionalAuth, requireVerification } from '../middleware/auth';
 import { generalRateLimit } from '../middleware/rateLimiting';
 import { validateSchema } from '../middleware/validation';
 import Joi from 'joi';
@@ -42,12 +42,14 @@ router.use(generalRateLimit);
 
 router.get('/status', SubscriptionController.getSubscriptionStatus);
 router.get('/usage', SubscriptionController.getUsageStats);
+router.get('/entitlements', SubscriptionController.getEntitlements);
 router.get('/history', SubscriptionController.getSubscriptionHistory);
 
-router.post('/create', validateSchema(createSubscriptionSchema), SubscriptionController.createSubscription);
+// Purchases need a confirmed email so receipts and billing notices reach the owner
+router.post('/create', requireVerification, validateSchema(createSubscriptionSchema), SubscriptionController.createSubscription);
 router.post('/cancel', validateSchema(cancelSubscriptionSchema), SubscriptionController.cancelSubscription);
-router.put('/update', validateSchema(updateSubscriptionSchema), SubscriptionController.updateSubscription);
+router.put('/update', requireVerification, validateSchema(updateSubscriptionSchema), SubscriptionController.updateSubscription);
 
-router.post('/payment-intent', validateSchema(createPaymentIntentSchema), SubscriptionController.createPaymentIntent);
+router.post('/payment-intent', requireVerification, validateSchema(createPaymentIntentSchema), SubscriptionController.createPaymentIntent);
 
 export default router;
\ No newline at end of file
@@ -2,7 +2,7 @@ import { Router } from 'express';
 import { SyncController } from '../controllers/syncController';
 import { authenticateToken } from '../middleware/auth';
 import { generalRateLimit } from '../middleware/rateLimiting';
-import { validateSchema } from '../middleware/validation';
+import { validateSchema, validateQuery } from '../middleware/validation';
 import Joi from 'joi';
 
 const router = Router();
@@ -19,14 +19,21 @@ const syncBatchSchema = Joi.object({
       type: Joi.string().valid('dream', 'voiceRecording', 'user').required(),
       action: Joi.string().valid('create', 'update', 'delete').required(),
       data: Joi.object().required(),
+      baseRevision: Joi.number().integer().min(1).optional(),
     })
   ).max(50).required(), // Limit to 50 operations per batch
 });
 
+const updatesQuerySchema = Joi.object({
+  cursor: Joi.number().integer().min(0).optional(),
+  since: Joi.date().iso().optional(), // Legacy clients; ignored when cursor is given
+  limit: Joi.number().integer().min(1).max(500).default(100),
+});
+
 // Sync routes
 router.get('/status', SyncController.getSyncStatus);
 router.get('/last-sync-time', SyncController.getLastSyncTime);
-router.get('/updates', SyncController.getUpdates);
+router.get('/updates', validateQuery(updatesQuerySchema), SyncController.getUpdates);
 router.post('/batch', validateSchema(syncBatchSchema), SyncController.syncBatch);
 
 export default router;
\ No newline at end of file
@@ -1,18 +1,27 @@
 import { Router } from 'express';
 import { VoiceController, uploadMiddleware } from '../controllers/voiceController';
-import { authenticateToken } from '../middleware/auth';
+import { authenticateToken, requireFeature } from '../middleware/auth';
 import { uploadRateLimit, generalRateLimit } from '../middleware/rateLimiting';
+import { validateSchema } from '../middleware/validation';
+import Joi from 'joi';
 
 const router = Router();
 
 // Apply authentication to all voice routes
 router.use(authenticateToken);
 
+// Validation schemas
+const transcribeSchema = Joi.object({
+  language: Joi.string().length(2).lowercase().optional(), // ISO-639-1 hint for the provider
+  force: Joi.boolean().default(false),
+  applyToDream: Joi.boolean().default(true),
+});
+
 // Voice recording routes
-router.post('/upload', uploadRateLimit, uploadMiddleware, VoiceController.uploadVoiceRecording);
+router.post('/upload', uploadRateLimit, requireFeature('voice_recording'), uploadMiddleware, VoiceController.uploadVoiceRecording);
 router.get('/', generalRateLimit, VoiceController.getVoiceRecordings);
 router.get('/:id', VoiceController.getVoiceRecording);
 router.delete('/:id', VoiceController.deleteVoiceRecording);
-router.post('/:id/transcribe', VoiceController.transcribeVoiceRecording);
+router.post('/:id/transcribe', uploadRateLimit, requireFeature('transcription'), validateSchema(transcribeSchema), VoiceController.transcribeVoiceRecording);
 
 export default router;
\ No newline at end of file
@@ -1,135 +1,90 @@
-import express, { Request, Response, NextFunction } from 'express';
-import cors from 'cors';
-import helmet from 'helmet';
-import morgan from 'morgan';
-import compression from 'compression';
-
 import { env } from './config/env';
 import { connectDatabase, prisma } from './config/database';
-import { ApiResponse } from './types';
-
-// Import routes
-import authRoutes from './routes/auth';
-import dreamRoutes from './routes/dreams';
-import voiceRoutes from './routes/voice';
-import analysisRoutes from './routes/analysis';
-import patternRoutes from './routes/patterns';
-import syncRoutes from './routes/sync';
-import notificationRoutes from './routes/notifications';
-import subscriptionRoutes from './routes/subscriptions';
+import app from './app';
 
 // Import services that need to be initialized
 import { notificationService } from './services/notificationService';
-
-const app = express();
-
-// Security middleware
-app.use(helmet({
-  crossOriginResourcePolicy: { policy: "cross-origin" }
-}));
-
-// CORS configuration
-app.use(cors({
-  origin: process.env.NODE_ENV === 'production' 
-    ? ['https://your-domain.com'] // Replace with your production domain
-    : ['http://localhost:3000', 'http://localhost:8081', 'exp://localhost:8081'],
-  credentials: true,
-}));
-
-// Body parsing middleware
-app.use(express.json({ limit: '10mb' }));
-app.use(express.urlencoded({ extended: true, limit: '10mb' }));
-
-// Compression middleware
-app.use(compression());
-
-// Logging middleware
-if (env.NODE_ENV !== 'production') {
-  app.use(morgan('dev'));
-} else {
-  app.use(morgan('combined'));
-}
-
-// Health check endpoint
-app.get('/health', (req: Request, res: Response) => {
-  const response: ApiResponse = {
-    success: true,
-    data: {
-      status: 'OK',
-      timestamp: new Date().toISOString(),
-      uptime: process.uptime(),
-      environment: env.NODE_ENV,
-    },
-  };
-  res.json(response);
+import { analysisJobService } from './services/analysisJobService';
+import { searchService } from './services/searchService';
+import { embeddingService } from './services/embeddingService';
+import { changeLogService } from './services/changeLogService';
+import { accountService } from './services/accountService';
+import { retentionService } from './services/retentionService';
+import { schedulerService } from './services/schedulerService';
+import { quotaService } from './services/quotaService';
+import { stripeService } from './services/stripeService';
+import { PatternService } from './services/patternService';
+
+// Scheduled jobs run on one instance per tick, whichever takes the lease first
+schedulerService.register({
+  name: 'reminders',
+  description: 'Dream reminders at each user\'s local reminder time',
+  schedule: '* * * * *',
+  run: async () => ({ sent: await notificationService.processReminders() }),
 });
-
-// API routes
-app.use('/api/auth', authRoutes);
-app.use('/api/dreams', dreamRoutes);
-app.use('/api/voice', voiceRoutes);
-app.use('/api/analysis', analysisRoutes);
-app.use('/api/patterns', patternRoutes);
-app.use('/api/sync', syncRoutes);
-app.use('/api/notifications', notificationRoutes);
-app.use('/api/subscriptions', subscriptionRoutes);
-
-// API documentation endpoint
-app.get('/api', (req: Request, res: Response) => {
-  const response: ApiResponse = {
-    success: true,
-    data: {
-      name: 'Dream Journal Pro API',
-      version: '1.0.0',
-      description: 'AI-powered dream analysis and pattern recognition API',
-      endpoints: {
-        auth: '/api/auth',
-        dreams: '/api/dreams',
-        voice: '/api/voice',
-        analysis: '/api/analysis',
-        patterns: '/api/patterns',
-        sync: '/api/sync',
-        notifications: '/api/notifications',
-        subscriptions: '/api/subscriptions',
-      },
-      documentation: 'https://docs.dreamjournalpro.com',
-    },
-  };
-  res.json(response);
+schedulerService.register({
+  name: 'deferred-notifications',
+  description: 'Send notifications held back by quiet hours or the daily limit',
+  schedule: '* * * * *',
+  run: async () => ({ ...await notificationService.processDeferred() }),
 });
-
-// 404 handler
-app.use('*', (req: Request, res: Response) => {
-  const response: ApiResponse = {
-    success: false,
-    error: `Route ${req.originalUrl} not found`,
-  };
-  res.status(404).json(response);
+schedulerService.register({
+  name: 'push-receipts',
+  description: 'Settle notification delivery from Expo push receipts',
+  schedule: '*/5 * * * *',
+  run: async () => ({ ...await notificationService.processReceipts() }),
 });
-
-// Global error handler
-app.use((error: Error, req: Request, res: Response, next: NextFunction) => {
-  console.error('Global error handler:', error);
-  
-  const response: ApiResponse = {
-    success: false,
-    error: env.NODE_ENV === 'production' 
-      ? 'Internal server error' 
-      : error.message,
-  };
-  
-  res.status(500).json(response);
+schedulerService.register({
+  name: 'subscription-expiry',
+  description: 'Warn users whose cancelled subscription is about to end',
+  schedule: '0 9 * * *',
+  run: async () => ({ notified: await stripeService.notifyExpiringSubscriptions() }),
+});
+schedulerService.register({
+  name: 'pattern-recompute',
+  description: 'Refresh dream patterns for premium users with new dreams',
+  schedule: '30 3 * * *',
+  leaseMs: 30 * 60 * 1000,
+  run: () => PatternService.recomputeActiveUsers(),
+});
+schedulerService.register({
+  name: 'quota-reset',
+  description: 'Start a new monthly usage period for users whose period has ended',
+  schedule: '0 * * * *',
+  run: async () => ({ reset: await quotaService.resetDuePeriods() }),
+});
+schedulerService.register({
+  name: 'account-purge',
+  description: 'Purge accounts whose deletion grace period has ended',
+  schedule: '20 * * * *',
+  run: async () => ({ purged: await accountService.purgeDueAccounts() }),
+});
+schedulerService.register({
+  name: 'retention-purge',
+  description: 'Delete data older than each user\'s retention window',
+  schedule: '45 */6 * * *',
+  run: async () => ({ users: await retentionService.purgeAll() }),
+});
+schedulerService.register({
+  name: 'job-run-cleanup',
+  description: 'Delete job run history past its retention period',
+  schedule: '15 4 * * *',
+  run: async () => ({ deleted: await schedulerService.pruneRuns() }),
 });
 
 // Graceful shutdown
 process.on('SIGTERM', async () => {
   console.log('SIGTERM received, shutting down gracefully');
+  analysisJobService.stop();
+  schedulerService.stop();
   await prisma.$disconnect();
   process.exit(0);
 });
 
 process.on('SIGINT', async () => {
   console.log('SIGINT received, shutting down gracefully');
+  analysisJobService.stop();
+  schedulerService.stop();
   await prisma.$disconnect();
   process.exit(0);
 });
@@ -140,7 +95,23 @@ async function startServer() {
     // Connect to database
     await connectDatabase();
     
-    // Initialize services (notification service initializes cron jobs)
+    // Initialize services
+    analysisJobService.start();
+    if (env.SCHEDULER_ENABLED) {
+      await schedulerService.start();
+    }
+    searchService.indexMissingDreams()
+      .then(count => count > 0 && console.log(`✅ Indexed ${count} dream(s) for search`))
+      .catch(error => console.error('Search backfill failed:', error));
+    embeddingService.indexMissingDreams()
+      .then(count => count > 0 && console.log(`✅ Embedded ${count} dream(s) for similarity search`))
+      .catch(error => console.error('Embedding backfill failed:', error));
+    changeLogService.backfillMissingEntries()
+      .then(count => count > 0 && console.log(`✅ Logged ${count} record(s) written before the change log`))
+      .catch(error => console.error('Change log backfill failed:', error));
+    notificationService.migrateLegacyPushTokens()
+      .then(count => count > 0 && console.log(`✅ Moved ${count} legacy push token(s) to devices`))
+      .catch(error => console.error('Push token migration failed:', error));
     console.log('✅ Services initialized');
     
     // Start HTTP server
@@ -0,0 +1,268 @@
+import { prisma } from '../config/database';
+import { env } from '../config/env';
+import { s3Service } from './s3Service';
+import { stripeService } from './stripeService';
+import { sessionService } from './sessionService';
+import { mailService } from './mailService';
+
+// Bump when the archive layout changes so importers can tell versions apart
+const EXPORT_FORMAT_VERSION = 1;
+
+// Signed voice recording links in an export stay valid this long
+const EXPORT_DOWNLOAD_URL_TTL_SECONDS = 24 * 60 * 60;
+
+class AccountService {
+  private running = false;
+
+  // Everything stored about the user, except credential hashes
+  async exportAccount(userId: string) {
+    const [
+      user,
+      sessions,
+      devices,
+      subscriptions,
+      dreams,
+      embeddings,
+      voiceRecordings,
+      analyses,
+      analysisJobs,
+      patterns,
+      notifications,
+      syncChanges,
+      systemLogs,
+    ] = await Promise.all([
+      prisma.user.findUnique({
+        where: { id: userId },
+        select: {
+          id: true,
+          email: true,
+          username: true,
+          firstName: true,
+          lastName: true,
+          avatar: true,
+          timezone: true,
+          isVerified: true,
+          subscriptionStatus: true,
+          subscriptionId: true,
+          stripeCustomerId: true,
+          subscriptionEndsAt: true,
+          dreamEntriesThisMonth: true,
+          dreamEntriesResetAt: true,
+          analysesThisMonth: true,
+          transcriptionSecondsThisMonth: true,
+          notificationsEnabled: true,
+          reminderTime: true,
+          mutedNotificationTypes: true,
+          quietHoursStart: true,
+          quietHoursEnd: true,
+          maxNotificationsPerDay: true,
+          preferences: true,
+          deletionRequestedAt: true,
+          deletionScheduledFor: true,
+          createdAt: true,
+          updatedAt: true,
+        },
+      }),
+      prisma.session.findMany({
+        where: { userId },
+        select: {
+          id: true,
+          deviceName: true,
+          userAgent: true,
+          ipAddress: true,
+          lastUsedAt: true,
+          expiresAt: true,
+          revokedAt: true,
+          revokedReason: true,
+          createdAt: true,
+        },
+        orderBy: { createdAt: 'asc' },
+      }),
+      prisma.device.findMany({
+        where: { userId },
+        select: {
+          id: true,
+          platform: true,
+          deviceName: true,
+          appVersion: true,
+          notificationsEnabled: true,
+          lastSeenAt: true,
+          createdAt: true,
+        },
+        orderBy: { createdAt: 'asc' },
+      }),
+      prisma.subscription.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } }),
+      prisma.dream.findMany({ where: { userId }, orderBy: { dreamDate: 'asc' } }),
+      prisma.dreamEmbedding.findMany({ where: { userId } }),
+      prisma.voiceRecording.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } }),
+      prisma.dreamAnalysis.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } }),
+      prisma.analysisJob.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } }),
+      prisma.dreamPattern.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } }),
+      prisma.notification.findMany({
+        where: { userId },
+        include: { deliveries: { select: { deviceId: true, status: true, error: true, createdAt: true } } },
+        orderBy: { createdAt: 'asc' },
+      }),
+      prisma.syncChange.findMany({ where: { userId }, orderBy: { id: 'asc' } }),
+      prisma.systemLog.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } }),
+    ]);
+
+    if (!user) {
+      return null;
+    }
+
+    // Audio lives in S3, so the archive links to it instead of embedding it
+    const recordings = await Promise.all(voiceRecordings.map(async recording => {
+      let downloadUrl: string | null = null;
+      try {
+        downloadUrl = await s3Service.getSignedUrl(recording.filePath, EXPORT_DOWNLOAD_URL_TTL_SECONDS);
+      } catch (error) {
+        console.error(`Failed to sign export URL for recording ${recording.id}:`, error);
+      }
+      return { ...recording, downloadUrl };
+    }));
+
+    return {
+      format: 'dream-journal-pro-export',
+      version: EXPORT_FORMAT_VERSION,
+      exportedAt: new Date().toISOString(),
+      downloadUrlsExpireAt: new Date(Date.now() + EXPORT_DOWNLOAD_URL_TTL_SECONDS * 1000).toISOString(),
+      user,
+      sessions,
+      devices,
+      subscriptions,
+      dreams,
+      dreamEmbeddings: embeddings,
+      voiceRecordings: recordings,
+      dreamAnalyses: analyses,
+      analysisJobs,
+      patterns,
+      notifications,
+      syncChanges,
+      activityLog: systemLogs,
+    };
+  }
+
+  // Start the grace period. Devices are signed out and billing stops renewing,
+  // but nothing is erased until the scheduled date.
+  async requestDeletion(userId: string): Promise<Date> {
+    const scheduledFor = new Date(Date.now() + env.ACCOUNT_DELETION_GRACE_DAYS * 24 * 60 * 60 * 1000);
+
+    const user = await prisma.user.update({
+      where: { id: userId },
+      data: {
+        deletionRequestedAt: new Date(),
+        deletionScheduledFor: scheduledFor,
+      },
+      select: { email: true, subscriptionStatus: true, subscriptionId: true },
+    });
+
+    // The purge cancels outright anyway, so a Stripe hiccup here shouldn't block the request
+    if (user.subscriptionStatus === 'PREMIUM' && user.subscriptionId) {
+      await stripeService.cancelSubscription(userId, false)
+        .catch(error => console.error(`Failed to stop renewal for ${userId}:`, error));
+    }
+
+    await sessionService.revokeAll(userId, 'account_deleted');
+
+    await mailService.sendAccountDeletionScheduled(user.email, scheduledFor)
+      .catch(error => console.error('Failed to send account deletion email:', error));
+
+    return scheduledFor;
+  }
+
+  async cancelDeletion(userId: string): Promise<boolean> {
+    const result = await prisma.user.updateMany({
+      where: {
+        id: userId,
+        deletionScheduledFor: { gt: new Date() },
+      },
+      data: {
+        deletionRequestedAt: null,
+        deletionScheduledFor: null,
+      },
+    });
+
+    if (result.count === 0) {
+      return false;
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { subscriptionStatus: true, subscriptionId: true },
+    });
+
+    if (user?.subscriptionStatus === 'PREMIUM' && user.subscriptionId) {
+      await stripeService.resumeSubscription(userId)
+        .catch(error => console.error(`Failed to resume subscription for ${userId}:`, error));
+    }
+
+    return true;
+  }
+
+  async purgeDueAccounts(): Promise<number> {
+    if (this.running) {
+      return 0;
+    }
+
+    this.running = true;
+    try {
+      const due = await prisma.user.findMany({
+        where: { deletionScheduledFor: { lte: new Date() } },
+        select: { id: true },
+        take: 50,
+      });
+
+      let purged = 0;
+      for (const user of due) {
+        try {
+          await this.purgeAccount(user.id);
+          purged++;
+        } catch (error) {
+          // Left in place so the next run retries it
+          console.error(`Failed to purge account ${user.id}:`, error);
+        }
+      }
+
+      if (purged > 0) {
+        console.log(`🗑️ Purged ${purged} deleted account(s)`);
+      }
+      return purged;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  // External data goes first: once the user row is gone there is nothing left
+  // pointing at the S3 objects or the Stripe subscription.
+  private async purgeAccount(userId: string): Promise<void> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { subscriptionStatus: true, subscriptionId: true },
+    });
+
+    if (!user) {
+      return;
+    }
+
+    if (user.subscriptionStatus === 'PREMIUM' && user.subscriptionId) {
+      await stripeService.cancelSubscription(userId, true);
+    }
+
+    const recordings = await prisma.voiceRecording.findMany({
+      where: { userId },
+      select: { filePath: true },
+    });
+    for (const recording of recordings) {
+      await s3Service.deleteVoiceRecording(recording.filePath);
+    }
+
+    // Every other table cascades from users; system logs only carry the id
+    await prisma.$transaction([
+      prisma.systemLog.deleteMany({ where: { userId } }),
+      prisma.user.delete({ where: { id: userId } }),
+    ]);
+  }
+}
+
+export const accountService = new AccountService();
@@ -0,0 +1,391 @@
+import os from 'os';
+import { AnalysisJob } from '@prisma/client';
+import { prisma } from '../config/database';
+import { env } from '../config/env';
+import { openaiService, AnalysisProgressEvent } from './openaiService';
+import { notificationService } from './notificationService';
+import { changeLogService } from './changeLogService';
+import { quotaService, QuotaExceeded } from './quotaService';
+import { analysisVersionService } from './analysisVersionService';
+import { llmService, LlmOutputError } from './llmService';
+
+type AnalysisType = 'BASIC' | 'ADVANCED' | 'PATTERN_RECOGNITION' | 'PERSONAL_MYTHOLOGY';
+
+interface EnqueueAnalysisInput {
+  userId: string;
+  dreamId: string;
+  analysisType: AnalysisType;
+  includeHistory: boolean;
+}
+
+export type EnqueueResult =
+  | { job: AnalysisJob; claimed: boolean; exceeded?: undefined }
+  | { exceeded: QuotaExceeded };
+
+// A request watching the analysis being written
+export interface AnalysisStream {
+  onProgress: (event: AnalysisProgressEvent) => void;
+  isWatching: () => boolean;
+}
+
+// Jobs stuck in PROCESSING longer than this are assumed to belong to a dead worker
+const STALE_LOCK_MS = 5 * 60 * 1000;
+
+class AnalysisJobService {
+  private workerId = `${os.hostname()}-${process.pid}`;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running = false;
+
+  // Each new job uses one analysis from the monthly quota; reused jobs are free.
+  // With claim, the job is taken for the caller to run with runClaimed instead
+  // of being left to the worker; claimed is false if a worker already has it.
+  async enqueue(input: EnqueueAnalysisInput, options: { claim?: boolean } = {}): Promise<EnqueueResult> {
+    // Reuse an in-flight job for the same dream and type instead of queueing a duplicate
+    const existingJob = await prisma.analysisJob.findFirst({
+      where: {
+        userId: input.userId,
+        dreamId: input.dreamId,
+        analysisType: input.analysisType,
+        status: { in: ['QUEUED', 'PROCESSING', 'FAILED'] },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    if (existingJob) {
+      if (options.claim && existingJob.status !== 'PROCESSING') {
+        const claimed = await this.claim(existingJob);
+        if (claimed) {
+          return { job: claimed, claimed: true };
+        }
+      }
+      return { job: existingJob, claimed: false };
+    }
+
+    const exceeded = await quotaService.consume(input.userId, 'analyses');
+    if (exceeded) {
+      return { exceeded };
+    }
+
+    let job: AnalysisJob;
+    try {
+      job = await prisma.analysisJob.create({
+        data: {
+          userId: input.userId,
+          dreamId: input.dreamId,
+          analysisType: input.analysisType,
+          includeHistory: input.includeHistory,
+          maxAttempts: env.ANALYSIS_JOB_MAX_ATTEMPTS,
+          ...(options.claim ? { ...this.claimData(), attempts: 1 } : {}),
+        },
+      });
+    } catch (error) {
+      await quotaService.release(input.userId, 'analyses');
+      throw error;
+    }
+
+    if (options.claim) {
+      return { job, claimed: true };
+    }
+
+    this.kick();
+    return { job, claimed: false };
+  }
+
+  // Run a job claimed through enqueue here, reporting the analysis as it is
+  // written. A failure is handled as in the worker, so a retry is still queued.
+  async runClaimed(job: AnalysisJob, stream: AnalysisStream) {
+    await this.processJob(job, stream);
+    return prisma.analysisJob.findUnique({
+      where: { id: job.id },
+      include: { analysis: true },
+    });
+  }
+
+  async getJob(jobId: string, userId: string) {
+    return prisma.analysisJob.findFirst({
+      where: {
+        id: jobId,
+        userId,
+      },
+      include: {
+        analysis: true,
+      },
+    });
+  }
+
+  start(): void {
+    if (this.timer || !env.ANALYSIS_WORKER_ENABLED) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.tick().catch(error => console.error('Analysis worker tick error:', error));
+    }, env.ANALYSIS_WORKER_POLL_MS);
+
+    console.log(`✅ Analysis worker started (${this.workerId})`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Process the queue right away rather than waiting for the next poll
+  private kick(): void {
+    if (this.timer) {
+      setImmediate(() => {
+        this.tick().catch(error => console.error('Analysis worker tick error:', error));
+      });
+    }
+  }
+
+  private async tick(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      await this.releaseStaleLocks();
+
+      let job = await this.claimNextJob();
+      while (job) {
+        await this.processJob(job);
+        job = await this.claimNextJob();
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async releaseStaleLocks(): Promise<void> {
+    const staleBefore = new Date(Date.now() - STALE_LOCK_MS);
+    const release = (hasAttemptsLeft: boolean) => prisma.analysisJob.updateMany({
+      where: {
+        status: 'PROCESSING',
+        lockedAt: { lt: staleBefore },
+        attempts: hasAttemptsLeft
+          ? { lt: prisma.analysisJob.fields.maxAttempts }
+          : { gte: prisma.analysisJob.fields.maxAttempts },
+      },
+      data: {
+        status: hasAttemptsLeft ? 'FAILED' : 'DEAD_LETTER',
+        lockedAt: null,
+        lockedBy: null,
+        lastError: 'Worker lock expired',
+      },
+    });
+
+    const [retried, deadLettered] = await Promise.all([release(true), release(false)]);
+    if (retried.count + deadLettered.count > 0) {
+      console.warn(`Released ${retried.count + deadLettered.count} stale analysis job lock(s)`);
+    }
+  }
+
+  private async claimNextJob(): Promise<AnalysisJob | null> {
+    const candidate = await prisma.analysisJob.findFirst({
+      where: {
+        status: { in: ['QUEUED', 'FAILED'] },
+        runAt: { lte: new Date() },
+      },
+      orderBy: { runAt: 'asc' },
+    });
+
+    if (!candidate) {
+      return null;
+    }
+
+    return (await this.claim(candidate)) ?? this.claimNextJob();
+  }
+
+  // Conditional update so only one worker wins the job when several poll at once
+  private async claim(job: AnalysisJob): Promise<AnalysisJob | null> {
+    const claimed = await prisma.analysisJob.updateMany({
+      where: {
+        id: job.id,
+        status: job.status,
+        attempts: job.attempts,
+      },
+      data: this.claimData(),
+    });
+
+    if (claimed.count === 0) {
+      return null;
+    }
+
+    return prisma.analysisJob.findUnique({ where: { id: job.id } });
+  }
+
+  private claimData() {
+    return {
+      status: 'PROCESSING' as const,
+      progress: 10,
+      attempts: { increment: 1 },
+      lockedAt: new Date(),
+      lockedBy: this.workerId,
+    };
+  }
+
+  private async processJob(job: AnalysisJob, stream?: AnalysisStream): Promise<void> {
+    let dreamTitle: string;
+    try {
+      const dream = await prisma.dream.findFirst({
+        where: {
+          id: job.dreamId,
+          userId: job.userId,
+        },
+      });
+
+      if (!dream) {
+        throw new Error('Dream not found');
+      }
+
+      let userHistory: Array<{ date: Date; symbols: string[]; emotions: string[]; themes: string[] }> = [];
+      if (job.includeHistory) {
+        const recentDreams = await prisma.dream.findMany({
+          where: {
+            userId: job.userId,
+            id: { not: job.dreamId },
+          },
+          select: {
+            dreamDate: true,
+            symbols: true,
+            emotions: true,
+            themes: true,
+          },
+          orderBy: { dreamDate: 'desc' },
+          take: 5,
+        });
+
+        userHistory = recentDreams.map(d => ({
+          date: d.dreamDate,
+          symbols: d.symbols,
+          emotions: d.emotions,
+          themes: d.themes,
+        }));
+      }
+
+      await this.setProgress(job.id, 30);
+
+      const contentHash = analysisVersionService.hashContent(dream);
+
+      const startTime = Date.now();
+      const analysisResult = await openaiService.analyzeDream({
+        title: dream.title,
+        content: dream.content,
+        emotions: dream.emotions,
+        symbols: dream.symbols,
+        themes: dream.themes,
+        userHistory,
+        analysisType: job.analysisType,
+      }, job.userId, stream?.onProgress);
+      const processingTime = Date.now() - startTime;
+
+      await this.setProgress(job.id, 80);
+
+      const version = await analysisVersionService.nextVersion(job.dreamId, job.analysisType);
+
+      // The analysis, the dream flag and the finished job are saved together, so a
+      // failure here can't leave a completed job to be retried into a second version
+      await prisma.$transaction(async (tx) => {
+        // Earlier versions are kept as history
+        const analysis = await tx.dreamAnalysis.create({
+          data: {
+            userId: job.userId,
+            dreamId: job.dreamId,
+            interpretation: analysisResult.interpretation,
+            symbolAnalysis: analysisResult.symbolAnalysis,
+            emotionalAnalysis: analysisResult.emotionalAnalysis,
+            themes: analysisResult.themes,
+            insights: analysisResult.insights,
+            reflectionQuestions: analysisResult.reflectionQuestions,
+            actionableAdvice: analysisResult.actionableAdvice,
+            analysisType: job.analysisType,
+            confidence: analysisResult.confidence,
+            processingTime,
+            version,
+            contentHash,
+            provider: llmService.getProvider('analysis').name,
+            model: llmService.getModel('analysis'),
+          },
+        });
+
+        await tx.dream.update({
+          where: { id: job.dreamId },
+          data: { isProcessed: true },
+        });
+        await changeLogService.record(job.userId, 'DREAM_ANALYSIS', analysis.id, 'CREATE', tx);
+        await changeLogService.record(job.userId, 'DREAM', job.dreamId, 'UPDATE', tx);
+
+        await tx.analysisJob.update({
+          where: { id: job.id },
+          data: {
+            status: 'COMPLETED',
+            progress: 100,
+            analysisId: analysis.id,
+            completedAt: new Date(),
+            lockedAt: null,
+            lockedBy: null,
+            lastError: null,
+          },
+        });
+      });
+
+      dreamTitle = dream.title;
+    } catch (error) {
+      await this.handleFailure(job, error);
+      return;
+    }
+
+    // Catches an edit made while the model was writing
+    await analysisVersionService.refreshStaleness(job.dreamId);
+
+    // Nobody needs telling if they watched it finish. The job is already done,
+    // so a failed push is only logged.
+    if (!stream?.isWatching()) {
+      await notificationService.sendAnalysisCompleteNotification(job.userId, dreamTitle)
+        .catch(error => console.error(`Failed to send analysis notification for job ${job.id}:`, error));
+    }
+  }
+
+  private async handleFailure(job: AnalysisJob, error: unknown): Promise<void> {
+    const message = error instanceof Error ? error.message : 'Analysis failed';
+    // The model already had its repair attempt, so another run would most likely
+    // fail the same way. Only network and provider errors are worth retrying.
+    const exhausted = job.attempts >= job.maxAttempts || error instanceof LlmOutputError;
+
+    console.error(`Analysis job ${job.id} attempt ${job.attempts}/${job.maxAttempts} failed:`, error);
+
+    await prisma.analysisJob.update({
+      where: { id: job.id },
+      data: {
+        status: exhausted ? 'DEAD_LETTER' : 'FAILED',
+        lastError: message,
+        lockedAt: null,
+        lockedBy: null,
+        runAt: exhausted ? undefined : new Date(Date.now() + this.getBackoffMs(job.attempts)),
+      },
+    });
+
+    // An analysis that never got made shouldn't count against the user
+    if (exhausted) {
+      await quotaService.release(job.userId, 'analyses');
+    }
+  }
+
+  // Exponential backoff: base, 2x base, 4x base, ... capped at 30 minutes
+  private getBackoffMs(attempts: number): number {
+    return Math.min(env.ANALYSIS_JOB_BACKOFF_MS * Math.pow(2, attempts - 1), 30 * 60 * 1000);
+  }
+
+  private async setProgress(jobId: string, progress: number): Promise<void> {
+    await prisma.analysisJob.update({
+      where: { id: jobId },
+      data: { progress },
+    });
+  }
+}
+
+export const analysisJobService = new AnalysisJobService();
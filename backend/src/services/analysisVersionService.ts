@@ -0,0 +1,85 @@
+import crypto from 'crypto';
+import { AnalysisType } from '@prisma/client';
+import { prisma } from '../config/database';
+import { changeLogService } from './changeLogService';
+
+// The dream fields an analysis is written from; editing anything else leaves
+// existing analyses current
+const ANALYZED_FIELDS = ['title', 'content', 'emotions', 'symbols', 'themes'] as const;
+
+interface AnalyzedContent {
+  title: string;
+  content: string;
+  emotions: string[];
+  symbols: string[];
+  themes: string[];
+}
+
+class AnalysisVersionService {
+  // Tags are hashed in order, so reordering them counts as a change
+  hashContent(dream: AnalyzedContent): string {
+    const text = JSON.stringify(ANALYZED_FIELDS.map(field => dream[field]));
+    return crypto.createHash('sha256').update(text).digest('hex');
+  }
+
+  touchesAnalyzedContent(changes: object): boolean {
+    return ANALYZED_FIELDS.some(field => (changes as Record<string, unknown>)[field] !== undefined);
+  }
+
+  async nextVersion(dreamId: string, analysisType: AnalysisType): Promise<number> {
+    const latest = await prisma.dreamAnalysis.findFirst({
+      where: { dreamId, analysisType },
+      orderBy: { version: 'desc' },
+      select: { version: true },
+    });
+    return (latest?.version ?? 0) + 1;
+  }
+
+  // Flag the analyses written from different content than the dream has now.
+  // Undoing an edit clears the flag again. Analyses from before content hashing
+  // can't be checked, so they count as stale once the dream is edited. Call
+  // after changing any of the analyzed fields.
+  async refreshStaleness(dreamId: string): Promise<void> {
+    try {
+      const dream = await prisma.dream.findUnique({
+        where: { id: dreamId },
+        select: { userId: true, title: true, content: true, emotions: true, symbols: true, themes: true },
+      });
+
+      if (!dream) {
+        return;
+      }
+
+      const contentHash = this.hashContent(dream);
+      const analyses = await prisma.dreamAnalysis.findMany({
+        where: { dreamId },
+        select: { id: true, contentHash: true, isStale: true },
+      });
+
+      const nowStale = analyses.filter(analysis => !analysis.isStale && analysis.contentHash !== contentHash);
+      const nowCurrent = analyses.filter(analysis => analysis.isStale && analysis.contentHash === contentHash);
+
+      if (nowStale.length > 0) {
+        await prisma.dreamAnalysis.updateMany({
+          where: { id: { in: nowStale.map(analysis => analysis.id) } },
+          data: { isStale: true, staleAt: new Date() },
+        });
+      }
+      if (nowCurrent.length > 0) {
+        await prisma.dreamAnalysis.updateMany({
+          where: { id: { in: nowCurrent.map(analysis => analysis.id) } },
+          data: { isStale: false, staleAt: null },
+        });
+      }
+
+      for (const analysis of [...nowStale, ...nowCurrent]) {
+        await changeLogService.record(dream.userId, 'DREAM_ANALYSIS', analysis.id, 'UPDATE');
+      }
+    } catch (error) {
+      // Flagging must never fail the edit that triggered it
+      console.error(`Failed to refresh analysis staleness for dream ${dreamId}:`, error);
+    }
+  }
+}
+
+export const analysisVersionService = new AnalysisVersionService();
@@ -0,0 +1,148 @@
+import { Prisma, SyncChangeOperation, SyncEntityType } from '@prisma/client';
+import { prisma } from '../config/database';
+
+type DatabaseClient = Prisma.TransactionClient | typeof prisma;
+
+// The synced records, the tables they live in and the column naming their owner
+const ENTITY_TABLES: Record<SyncEntityType, { table: string; userColumn: string }> = {
+  DREAM: { table: 'dreams', userColumn: 'userId' },
+  VOICE_RECORDING: { table: 'voice_recordings', userColumn: 'userId' },
+  DREAM_ANALYSIS: { table: 'dream_analyses', userColumn: 'userId' },
+  DREAM_PATTERN: { table: 'dream_patterns', userColumn: 'userId' },
+  USER: { table: 'users', userColumn: 'id' },
+};
+
+export interface ChangeFeedPage {
+  changes: Array<{
+    cursor: string;
+    entityType: SyncEntityType;
+    entityId: string;
+    operation: SyncChangeOperation;
+    changedAt: Date;
+  }>;
+  nextCursor: string;
+  hasMore: boolean;
+}
+
+class ChangeLogService {
+  async record(
+    userId: string,
+    entityType: SyncEntityType,
+    entityId: string,
+    operation: SyncChangeOperation,
+    db: DatabaseClient = prisma
+  ): Promise<void> {
+    await db.syncChange.create({
+      data: {
+        userId,
+        entityType,
+        entityId,
+        operation,
+      },
+    });
+  }
+
+  // Deleting a dream cascades to its analyses and unlinks its recordings, so those
+  // changes are logged in the same transaction as the delete itself
+  async deleteDream(userId: string, dreamId: string) {
+    return prisma.$transaction(async (tx) => {
+      const [analyses, recordings] = await Promise.all([
+        tx.dreamAnalysis.findMany({ where: { dreamId }, select: { id: true } }),
+        tx.voiceRecording.findMany({ where: { dreamId }, select: { id: true } }),
+      ]);
+
+      const dream = await tx.dream.delete({ where: { id: dreamId } });
+
+      await tx.syncChange.createMany({
+        data: [
+          { userId, entityType: 'DREAM', entityId: dreamId, operation: 'DELETE' },
+          ...analyses.map(({ id }) => ({
+            userId,
+            entityType: 'DREAM_ANALYSIS' as const,
+            entityId: id,
+            operation: 'DELETE' as const,
+          })),
+          ...recordings.map(({ id }) => ({
+            userId,
+            entityType: 'VOICE_RECORDING' as const,
+            entityId: id,
+            operation: 'UPDATE' as const,
+          })),
+        ],
+      });
+
+      return dream;
+    });
+  }
+
+  // Records written before the change log existed have no entries, so a device
+  // syncing from cursor 0 would never see them. Each one gets a CREATE entry,
+  // stamped now so cursors translated from older timestamps stay correct.
+  async backfillMissingEntries(): Promise<number> {
+    let backfilled = 0;
+
+    for (const [entityType, { table, userColumn }] of Object.entries(ENTITY_TABLES)) {
+      const owner = Prisma.raw(`e."${userColumn}"`);
+      backfilled += await prisma.$executeRaw`
+        INSERT INTO "sync_changes" ("userId", "entityType", "entityId", "operation")
+        SELECT ${owner}, ${entityType}::"SyncEntityType", e."id", 'CREATE'::"SyncChangeOperation"
+        FROM ${Prisma.raw(`"${table}"`)} e
+        WHERE NOT EXISTS (
+          SELECT 1 FROM "sync_changes" s
+          WHERE s."userId" = ${owner} AND s."entityType" = ${entityType}::"SyncEntityType" AND s."entityId" = e."id"
+        )
+        ORDER BY e."createdAt"
+      `;
+    }
+
+    return backfilled;
+  }
+
+  async getChanges(userId: string, cursor: number, limit: number): Promise<ChangeFeedPage> {
+    const rows = await prisma.syncChange.findMany({
+      where: {
+        userId,
+        id: { gt: cursor },
+      },
+      orderBy: { id: 'asc' },
+      take: limit + 1,
+    });
+
+    const page = rows.slice(0, limit);
+
+    return {
+      changes: page.map(row => ({
+        cursor: String(row.id),
+        entityType: row.entityType,
+        entityId: row.entityId,
+        operation: row.operation,
+        changedAt: row.createdAt,
+      })),
+      nextCursor: String(page.length > 0 ? page[page.length - 1].id : cursor),
+      hasMore: rows.length > limit,
+    };
+  }
+
+  // Translate a timestamp from older clients into the equivalent cursor
+  async getCursorBefore(userId: string, since: Date): Promise<number> {
+    const lastBefore = await prisma.syncChange.findFirst({
+      where: {
+        userId,
+        createdAt: { lte: since },
+      },
+      orderBy: { id: 'desc' },
+      select: { id: true },
+    });
+
+    return lastBefore?.id ?? 0;
+  }
+
+  async getLatestChange(userId: string) {
+    return prisma.syncChange.findFirst({
+      where: { userId },
+      orderBy: { id: 'desc' },
+    });
+  }
+}
+
+export const changeLogService = new ChangeLogService();
@@ -0,0 +1,258 @@
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { env } from '../config/env';
+import { llmService } from './llmService';
+
+export interface EmbeddingProvider {
+  readonly name: string;
+  readonly model: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface SimilarDream {
+  dreamId: string;
+  similarity: number; // Cosine similarity, -1 to 1
+}
+
+interface RankOptions {
+  limit: number;
+  minSimilarity?: number;
+  excludeDreamId?: string;
+  dreamFilter?: Prisma.DreamWhereInput; // Applied to the dream each vector belongs to
+}
+
+// Vectors are scanned in pages so a large journal never sits in memory at once
+const RANK_BATCH_SIZE = 500;
+
+interface EmbeddableDream {
+  id: string;
+  userId: string;
+  title: string;
+  content: string;
+  symbols: string[];
+  themes: string[];
+  emotions: string[];
+}
+
+// Vectors come from whichever LLM provider the embeddings task is configured for
+class LlmEmbeddingProvider implements EmbeddingProvider {
+  get name(): string {
+    return llmService.getProvider('embeddings').name;
+  }
+
+  get model(): string {
+    return llmService.getModel('embeddings');
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return llmService.embed(texts);
+  }
+}
+
+class EmbeddingService {
+  private provider: EmbeddingProvider;
+
+  constructor() {
+    this.provider = new LlmEmbeddingProvider();
+  }
+
+  setProvider(provider: EmbeddingProvider): void {
+    this.provider = provider;
+  }
+
+  // Compute and store the vector for a dream; skipped when the text is unchanged
+  async indexDream(dreamId: string): Promise<void> {
+    try {
+      const dream = await prisma.dream.findUnique({
+        where: { id: dreamId },
+        select: {
+          id: true,
+          userId: true,
+          title: true,
+          content: true,
+          symbols: true,
+          themes: true,
+          emotions: true,
+        },
+      });
+
+      if (dream) {
+        await this.indexDreams([dream]);
+      }
+    } catch (error) {
+      // Embedding failures must never fail the write that triggered them
+      console.error(`Failed to embed dream ${dreamId}:`, error);
+    }
+  }
+
+  // Embed dreams that have no vector for the current model yet
+  async indexMissingDreams(limit: number = 200): Promise<number> {
+    const dreams = await prisma.dream.findMany({
+      where: {
+        OR: [
+          { embedding: null },
+          { embedding: { model: { not: this.provider.model } } },
+        ],
+      },
+      select: {
+        id: true,
+        userId: true,
+        title: true,
+        content: true,
+        symbols: true,
+        themes: true,
+        emotions: true,
+      },
+      take: limit,
+    });
+
+    for (let i = 0; i < dreams.length; i += 50) {
+      await this.indexDreams(dreams.slice(i, i + 50));
+    }
+
+    return dreams.length;
+  }
+
+  async findSimilarDreams(userId: string, dreamId: string, limit: number): Promise<SimilarDream[]> {
+    let source = await prisma.dreamEmbedding.findUnique({ where: { dreamId } });
+
+    if (!source || source.model !== this.provider.model) {
+      await this.indexDream(dreamId);
+      source = await prisma.dreamEmbedding.findUnique({ where: { dreamId } });
+    }
+
+    if (!source) {
+      return [];
+    }
+
+    return this.rankUserDreams(userId, source.vector, { limit, excludeDreamId: dreamId });
+  }
+
+  // The user's dreams matching the filter that are close enough in meaning to
+  // the query, most similar first
+  async searchDreams(
+    userId: string,
+    query: string,
+    dreamFilter: Prisma.DreamWhereInput = {}
+  ): Promise<SimilarDream[]> {
+    const [vector] = await this.provider.embed([query]);
+    return this.rankUserDreams(userId, this.normalize(vector), {
+      limit: env.SEMANTIC_SEARCH_MAX_RESULTS,
+      minSimilarity: env.SEMANTIC_SEARCH_MIN_SIMILARITY,
+      dreamFilter,
+    });
+  }
+
+  private async rankUserDreams(userId: string, vector: number[], options: RankOptions): Promise<SimilarDream[]> {
+    let ranked: SimilarDream[] = [];
+    let lastId: string | undefined;
+
+    while (true) {
+      const candidates = await prisma.dreamEmbedding.findMany({
+        where: {
+          userId,
+          model: this.provider.model,
+          dream: options.dreamFilter,
+          ...(options.excludeDreamId ? { dreamId: { not: options.excludeDreamId } } : {}),
+          ...(lastId ? { id: { gt: lastId } } : {}),
+        },
+        select: {
+          id: true,
+          dreamId: true,
+          vector: true,
+        },
+        orderBy: { id: 'asc' },
+        take: RANK_BATCH_SIZE,
+      });
+
+      if (candidates.length === 0) {
+        break;
+      }
+
+      const scored = candidates
+        .map(candidate => ({
+          dreamId: candidate.dreamId,
+          similarity: this.dot(vector, candidate.vector),
+        }))
+        .filter(match => options.minSimilarity === undefined || match.similarity >= options.minSimilarity);
+
+      ranked = [...ranked, ...scored]
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, options.limit);
+      lastId = candidates[candidates.length - 1].id;
+    }
+
+    return ranked;
+  }
+
+  private async indexDreams(dreams: EmbeddableDream[]): Promise<void> {
+    const documents = dreams.map(dream => {
+      const text = this.buildDocument(dream);
+      return {
+        dream,
+        text,
+        contentHash: crypto.createHash('sha256').update(text).digest('hex'),
+      };
+    });
+
+    const existing = await prisma.dreamEmbedding.findMany({
+      where: { dreamId: { in: dreams.map(dream => dream.id) } },
+      select: { dreamId: true, contentHash: true, model: true },
+    });
+    const upToDate = new Set(
+      existing
+        .filter(embedding => embedding.model === this.provider.model)
+        .map(embedding => `${embedding.dreamId}:${embedding.contentHash}`)
+    );
+
+    const stale = documents.filter(doc => !upToDate.has(`${doc.dream.id}:${doc.contentHash}`));
+    if (stale.length === 0) {
+      return;
+    }
+
+    const vectors = await this.provider.embed(stale.map(doc => doc.text));
+
+    for (const [index, doc] of stale.entries()) {
+      const vector = this.normalize(vectors[index]);
+      const data = {
+        userId: doc.dream.userId,
+        provider: this.provider.name,
+        model: this.provider.model,
+        dimensions: vector.length,
+        vector,
+        contentHash: doc.contentHash,
+      };
+
+      await prisma.dreamEmbedding.upsert({
+        where: { dreamId: doc.dream.id },
+        create: { dreamId: doc.dream.id, ...data },
+        update: data,
+      });
+    }
+  }
+
+  private buildDocument(dream: EmbeddableDream): string {
+    const parts = [dream.title, dream.content];
+    if (dream.symbols.length) parts.push(`Symbols: ${dream.symbols.join(', ')}`);
+    if (dream.themes.length) parts.push(`Themes: ${dream.themes.join(', ')}`);
+    if (dream.emotions.length) parts.push(`Emotions: ${dream.emotions.join(', ')}`);
+    return parts.join('\n');
+  }
+
+  private normalize(vector: number[]): number[] {
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm === 0 ? vector : vector.map(value => value / norm);
+  }
+
+  private dot(a: number[], b: number[]): number {
+    const length = Math.min(a.length, b.length);
+    let sum = 0;
+    for (let i = 0; i < length; i++) {
+      sum += a[i] * b[i];
+    }
+    return sum;
+  }
+}
+
+export const embeddingService = new EmbeddingService();
@@ -0,0 +1,130 @@
+import { SubscriptionStatus } from '@prisma/client';
+
+export type Tier = 'FREE' | 'PREMIUM';
+
+export type Feature =
+  | 'basic_analysis'
+  | 'advanced_analysis'
+  | 'analysis_history_context'
+  | 'pattern_recognition'
+  | 'voice_recording'
+  | 'transcription'
+  | 'symbol_extraction';
+
+export type QuotaResource = 'dreamEntries' | 'analyses' | 'transcriptionMinutes' | 'storageBytes';
+
+// null: unlimited
+export type QuotaLimits = Record<QuotaResource, number | null>;
+
+export const FEATURES: Record<Feature, { name: string; description: string }> = {
+  basic_analysis: {
+    name: 'AI Dream Analysis',
+    description: 'An AI interpretation of each dream',
+  },
+  advanced_analysis: {
+    name: 'Advanced Analysis',
+    description: 'In-depth, pattern and personal mythology analyses',
+  },
+  analysis_history_context: {
+    name: 'Dream History Context',
+    description: 'Analyses that take your recent dreams into account',
+  },
+  pattern_recognition: {
+    name: 'Pattern Recognition',
+    description: 'Recurring symbols, emotions and themes across your dreams',
+  },
+  voice_recording: {
+    name: 'Voice Recordings',
+    description: 'Record dreams out loud',
+  },
+  transcription: {
+    name: 'Transcription',
+    description: 'Turn voice recordings into text',
+  },
+  symbol_extraction: {
+    name: 'Symbol Extraction',
+    description: 'Pick out the symbols in a dream as you write it',
+  },
+};
+
+// Every tier-dependent decision reads from here. Tiers are listed cheapest first.
+export const TIERS: Record<Tier, { features: Feature[]; limits: QuotaLimits }> = {
+  FREE: {
+    features: ['basic_analysis', 'voice_recording', 'transcription', 'symbol_extraction'],
+    limits: {
+      dreamEntries: 5,
+      analyses: 10,
+      transcriptionMinutes: 30,
+      storageBytes: 250 * 1024 * 1024,
+    },
+  },
+  PREMIUM: {
+    features: [
+      'basic_analysis',
+      'advanced_analysis',
+      'analysis_history_context',
+      'pattern_recognition',
+      'voice_recording',
+      'transcription',
+      'symbol_extraction',
+    ],
+    limits: {
+      dreamEntries: null,
+      analyses: 300,
+      transcriptionMinutes: 600,
+      storageBytes: 10 * 1024 * 1024 * 1024,
+    },
+  },
+};
+
+const TIER_ORDER: Tier[] = ['FREE', 'PREMIUM'];
+
+class EntitlementService {
+  // Cancelled and expired subscriptions are back on the free tier
+  getTier(subscriptionStatus: SubscriptionStatus): Tier {
+    return subscriptionStatus === 'PREMIUM' ? 'PREMIUM' : 'FREE';
+  }
+
+  hasFeature(subscriptionStatus: SubscriptionStatus, feature: Feature): boolean {
+    return TIERS[this.getTier(subscriptionStatus)].features.includes(feature);
+  }
+
+  getLimits(subscriptionStatus: SubscriptionStatus): QuotaLimits {
+    return TIERS[this.getTier(subscriptionStatus)].limits;
+  }
+
+  // The cheapest tier that includes the feature
+  getRequiredTier(feature: Feature): Tier {
+    return TIER_ORDER.find(tier => TIERS[tier].features.includes(feature))!;
+  }
+
+  getUpgradeTier(subscriptionStatus: SubscriptionStatus): Tier | null {
+    const index = TIER_ORDER.indexOf(this.getTier(subscriptionStatus));
+    return TIER_ORDER[index + 1] ?? null;
+  }
+
+  // For queries that need every status with access, e.g. scheduled jobs
+  getStatusesWithFeature(feature: Feature): SubscriptionStatus[] {
+    return Object.values(SubscriptionStatus).filter(status => this.hasFeature(status, feature));
+  }
+
+  getEntitlements(subscriptionStatus: SubscriptionStatus) {
+    const tier = this.getTier(subscriptionStatus);
+    const upgradeTier = this.getUpgradeTier(subscriptionStatus);
+
+    return {
+      subscriptionStatus,
+      tier,
+      features: (Object.keys(FEATURES) as Feature[]).map(feature => ({
+        key: feature,
+        ...FEATURES[feature],
+        enabled: TIERS[tier].features.includes(feature),
+        requiredTier: this.getRequiredTier(feature),
+      })),
+      limits: TIERS[tier].limits,
+      upgrade: upgradeTier ? { tier: upgradeTier, limits: TIERS[upgradeTier].limits } : null,
+    };
+  }
+}
+
+export const entitlementService = new EntitlementService();
@@ -0,0 +1,405 @@
+import crypto from 'crypto';
+import Joi from 'joi';
+import OpenAI from 'openai/index.js';
+import { prisma } from '../config/database';
+import { env } from '../config/env';
+
+// Each task picks its provider and model separately through env config
+export type LlmTask = 'analysis' | 'symbols' | 'patterns' | 'embeddings';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionRequest {
+  task: LlmTask;
+  model: string;
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  json?: boolean; // The reply must be a single JSON object
+}
+
+export interface LlmProvider {
+  readonly name: string;
+  readonly model?: string; // Set by providers that ignore the configured model
+  complete(request: CompletionRequest): Promise<string>;
+  stream?(request: CompletionRequest): AsyncIterable<string>; // Text as it is generated
+  embed(texts: string[], model: string): Promise<number[][]>;
+}
+
+type AttemptResult<T> =
+  | { valid: true; value: T }
+  | { valid: false; content: string; issues: string[] };
+
+// Thrown when a structured reply is still invalid after the repair attempt
+export class LlmOutputError extends Error {
+  constructor(readonly task: LlmTask, readonly issues: string[]) {
+    super(`Invalid ${task} output: ${issues.join('; ')}`);
+    this.name = 'LlmOutputError';
+  }
+}
+
+const INVALID_OUTPUT_ACTION = 'llm_output_invalid';
+
+const TASKS: Record<LlmTask, { provider: string; model: string }> = {
+  analysis: { provider: env.LLM_ANALYSIS_PROVIDER, model: env.LLM_ANALYSIS_MODEL },
+  symbols: { provider: env.LLM_SYMBOLS_PROVIDER, model: env.LLM_SYMBOLS_MODEL },
+  patterns: { provider: env.LLM_PATTERNS_PROVIDER, model: env.LLM_PATTERNS_MODEL },
+  embeddings: { provider: env.EMBEDDING_PROVIDER, model: env.EMBEDDING_MODEL },
+};
+
+const PROMPT_WORDS = new Set(['analyze', 'dream', 'dreams', 'content', 'extract', 'symbols', 'title', 'identified']);
+
+class OpenAILlmProvider implements LlmProvider {
+  readonly name: string = 'openai';
+  protected openai: OpenAI;
+
+  constructor(options: { apiKey: string; baseURL?: string } = { apiKey: env.OPENAI_API_KEY }) {
+    this.openai = new OpenAI(options);
+  }
+
+  async complete(request: CompletionRequest): Promise<string> {
+    const completion = await this.openai.chat.completions.create(this.toParams(request));
+
+    const content = completion.choices[0]?.message?.content;
+    if (!content) {
+      throw new Error(`No response from ${this.name}`);
+    }
+    return content;
+  }
+
+  async *stream(request: CompletionRequest): AsyncIterable<string> {
+    const stream = await this.openai.chat.completions.create({ ...this.toParams(request), stream: true });
+
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        yield delta;
+      }
+    }
+  }
+
+  async embed(texts: string[], model: string): Promise<number[][]> {
+    const response = await this.openai.embeddings.create({ model, input: texts });
+
+    return response.data
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+  }
+
+  protected toParams(request: CompletionRequest) {
+    return {
+      model: request.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      ...(request.json ? { response_format: { type: 'json_object' as const } } : {}),
+    };
+  }
+}
+
+// Ollama, llama.cpp, vLLM and LM Studio all serve the OpenAI API. Not all of
+// them honour response_format, so JSON mode can fall back to asking for it.
+class OpenAICompatibleLlmProvider extends OpenAILlmProvider {
+  readonly name = 'openai-compatible';
+
+  constructor() {
+    super({ apiKey: env.LLM_COMPATIBLE_API_KEY, baseURL: env.LLM_COMPATIBLE_BASE_URL });
+  }
+
+  protected toParams(request: CompletionRequest) {
+    if (!request.json || env.LLM_COMPATIBLE_JSON_MODE) {
+      return super.toParams(request);
+    }
+
+    return super.toParams({
+      ...request,
+      json: false,
+      messages: [
+        ...request.messages,
+        { role: 'system', content: 'Reply with a single JSON object and nothing else.' },
+      ],
+    });
+  }
+}
+
+// Deterministic fixtures for tests and offline development: the same prompt
+// always gets the same answer, shaped like a real one, and nothing leaves the
+// machine. Embeddings use feature hashing, so texts sharing words land near
+// each other.
+class LocalLlmProvider implements LlmProvider {
+  readonly name = 'local';
+  readonly model = 'local-fixture';
+  private readonly dimensions = 256;
+
+  async complete(request: CompletionRequest): Promise<string> {
+    const prompt = request.messages
+      .filter(message => message.role === 'user')
+      .map(message => message.content)
+      .join('\n');
+    const digest = crypto.createHash('sha256').update(prompt).digest('hex').substring(0, 12);
+    const keywords = this.keywords(prompt);
+
+    if (!request.json) {
+      return `Local ${request.task} response (${digest})`;
+    }
+
+    switch (request.task) {
+      case 'analysis':
+        return JSON.stringify({
+          interpretation: `Local interpretation ${digest} of a dream about ${keywords.slice(0, 3).join(', ') || 'nothing in particular'}.`,
+          symbolAnalysis: Object.fromEntries(keywords.slice(0, 3).map(word => [word, `What ${word} stands for here`])),
+          emotionalAnalysis: {
+            primary_emotion: 'Local analysis of the main emotional theme',
+          },
+          themes: keywords.slice(0, 2),
+          insights: [`Local insight ${digest}`],
+          reflectionQuestions: ['What does this dream remind you of?'],
+          actionableAdvice: 'Write down anything else you remember.',
+          confidence: 0.5,
+        });
+      case 'symbols':
+        return JSON.stringify({ symbols: keywords.slice(0, 5) });
+      case 'patterns':
+        return JSON.stringify({
+          patterns: keywords.slice(0, 1).map(word => ({
+            type: 'symbol',
+            name: `Recurring ${word}`,
+            description: `Local pattern ${digest}`,
+            frequency: 1,
+            confidence: 0.5,
+            insight: `${word} keeps coming back`,
+          })),
+        });
+      default:
+        return JSON.stringify({ digest });
+    }
+  }
+
+  // The fixture arrives in small pieces, like a real stream
+  async *stream(request: CompletionRequest): AsyncIterable<string> {
+    const content = await this.complete(request);
+    for (let index = 0; index < content.length; index += 16) {
+      yield content.substring(index, index + 16);
+    }
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => {
+      const vector = new Array<number>(this.dimensions).fill(0);
+      const tokens = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+      for (const token of tokens) {
+        const digest = crypto.createHash('md5').update(token).digest();
+        const bucket = digest.readUInt32BE(0) % this.dimensions;
+        vector[bucket] += digest[4] & 1 ? 1 : -1;
+      }
+
+      return vector;
+    });
+  }
+
+  // Distinct longer words, in order of appearance, minus the prompt's own wording
+  private keywords(text: string): string[] {
+    const words = text.toLowerCase().match(/\p{L}{5,}/gu) || [];
+    return [...new Set(words)].filter(word => !PROMPT_WORDS.has(word));
+  }
+}
+
+class LlmService {
+  private providers = new Map<string, LlmProvider>();
+  private overrides = new Map<LlmTask, LlmProvider>();
+
+  // Providers are created on first use, so unused ones need no configuration
+  getProvider(task: LlmTask): LlmProvider {
+    const override = this.overrides.get(task);
+    if (override) {
+      return override;
+    }
+
+    const name = TASKS[task].provider;
+    let provider = this.providers.get(name);
+    if (!provider) {
+      provider = this.createProvider(name);
+      this.providers.set(name, provider);
+    }
+    return provider;
+  }
+
+  getModel(task: LlmTask): string {
+    return this.getProvider(task).model ?? TASKS[task].model;
+  }
+
+  setProvider(task: LlmTask, provider: LlmProvider): void {
+    this.overrides.set(task, provider);
+  }
+
+  async complete(task: LlmTask, request: Omit<CompletionRequest, 'task' | 'model'>): Promise<string> {
+    return this.getProvider(task).complete({ ...request, task, model: this.getModel(task) });
+  }
+
+  // JSON mode plus a schema check. A reply that doesn't parse or doesn't match
+  // gets one repair attempt, where the model sees its reply and what was wrong
+  // with it; a second bad reply throws LlmOutputError. With onProgress, the
+  // first reply is streamed and reported as it grows, before it is checked.
+  async completeStructured<T>(
+    task: LlmTask,
+    schema: Joi.Schema<T>,
+    request: Omit<CompletionRequest, 'task' | 'model' | 'json'>,
+    userId?: string,
+    onProgress?: (content: string) => void
+  ): Promise<T> {
+    const first = await this.attempt(task, schema, request, onProgress);
+    if (first.valid) {
+      return first.value;
+    }
+
+    const repaired = await this.attempt(task, schema, {
+      ...request,
+      messages: [
+        ...request.messages,
+        { role: 'assistant', content: first.content },
+        {
+          role: 'user',
+          content: `That reply was not valid:\n- ${first.issues.join('\n- ')}\nReply again with only the corrected JSON object.`,
+        },
+      ],
+    });
+
+    await this.recordInvalidOutput(task, first.issues, repaired.valid ? null : repaired.issues, userId);
+
+    if (!repaired.valid) {
+      throw new LlmOutputError(task, repaired.issues);
+    }
+    return repaired.value;
+  }
+
+  // Recent validation failures, most recent first, with counts per task and model
+  async getInvalidOutputs(days: number, limit: number, task?: LlmTask) {
+    const logs = await prisma.systemLog.findMany({
+      where: {
+        action: INVALID_OUTPUT_ACTION,
+        createdAt: { gte: new Date(Date.now() - days * 24 * 60 * 60 * 1000) },
+        ...(task ? { details: { path: ['task'], equals: task } } : {}),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 1000,
+    });
+
+    const summary = new Map<string, { task: string; provider: string; model: string; repaired: number; failed: number }>();
+    for (const log of logs) {
+      const details = log.details as { task: string; provider: string; model: string; outcome: string };
+      const key = `${details.task}|${details.provider}|${details.model}`;
+      const entry = summary.get(key)
+        ?? { task: details.task, provider: details.provider, model: details.model, repaired: 0, failed: 0 };
+      entry[details.outcome === 'repaired' ? 'repaired' : 'failed']++;
+      summary.set(key, entry);
+    }
+
+    return {
+      summary: [...summary.values()],
+      recent: logs.slice(0, limit),
+    };
+  }
+
+  // Providers that can't stream answer in one piece
+  async stream(
+    task: LlmTask,
+    request: Omit<CompletionRequest, 'task' | 'model'>,
+    onProgress: (content: string) => void
+  ): Promise<string> {
+    const provider = this.getProvider(task);
+    if (!provider.stream) {
+      const content = await this.complete(task, request);
+      onProgress(content);
+      return content;
+    }
+
+    let content = '';
+    for await (const delta of provider.stream({ ...request, task, model: this.getModel(task) })) {
+      content += delta;
+      onProgress(content);
+    }
+
+    if (!content) {
+      throw new Error(`No response from ${provider.name}`);
+    }
+    return content;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return this.getProvider('embeddings').embed(texts, this.getModel('embeddings'));
+  }
+
+  private async attempt<T>(
+    task: LlmTask,
+    schema: Joi.Schema<T>,
+    request: Omit<CompletionRequest, 'task' | 'model' | 'json'>,
+    onProgress?: (content: string) => void
+  ): Promise<AttemptResult<T>> {
+    const content = onProgress
+      ? await this.stream(task, { ...request, json: true }, onProgress)
+      : await this.complete(task, { ...request, json: true });
+
+    // Models without a JSON mode like to wrap the object in prose or code fences
+    const start = content.indexOf('{');
+    const end = content.lastIndexOf('}');
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(start >= 0 && end > start ? content.substring(start, end + 1) : content);
+    } catch {
+      return { valid: false, content, issues: ['The reply is not a JSON object'] };
+    }
+
+    const { error, value } = schema.validate(parsed, { abortEarly: false, stripUnknown: true });
+    if (error) {
+      return { valid: false, content, issues: error.details.map(detail => detail.message) };
+    }
+    return { valid: true, value };
+  }
+
+  // Kept in the system log so a prompt or model change that starts producing
+  // bad output shows up in the admin summary
+  private async recordInvalidOutput(
+    task: LlmTask,
+    issues: string[],
+    repairIssues: string[] | null,
+    userId?: string
+  ): Promise<void> {
+    try {
+      await prisma.systemLog.create({
+        data: {
+          userId,
+          action: INVALID_OUTPUT_ACTION,
+          details: {
+            task,
+            provider: this.getProvider(task).name,
+            model: this.getModel(task),
+            outcome: repairIssues ? 'failed' : 'repaired',
+            issues,
+            ...(repairIssues ? { repairIssues } : {}),
+          },
+        },
+      });
+    } catch (error) {
+      console.error(`Failed to record invalid ${task} output:`, error);
+    }
+  }
+
+  private createProvider(name: string): LlmProvider {
+    switch (name) {
+      case 'local':
+        return new LocalLlmProvider();
+      case 'openai':
+        return new OpenAILlmProvider();
+      case 'openai-compatible':
+        return new OpenAICompatibleLlmProvider();
+      default:
+        throw new Error(`Unknown LLM provider: ${name}`);
+    }
+  }
+}
+
+export const llmService = new LlmService();
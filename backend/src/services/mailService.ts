@@ -0,0 +1,171 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { env } from '../config/env';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+// Prints messages to the server log so links can be copied during development
+class ConsoleMailTransport implements MailTransport {
+  readonly name = 'console';
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    console.log(
+      `📧 Mail to ${message.to} from ${message.from}\n` +
+      `Subject: ${message.subject}\n\n${message.text}`
+    );
+  }
+}
+
+// Writes each message to its own JSON file, which scripts and tests can read back
+class FileMailTransport implements MailTransport {
+  readonly name = 'file';
+
+  constructor(private readonly directory: string) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const sentAt = new Date();
+    const safeRecipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+    const filename = `${sentAt.getTime()}-${safeRecipient}.json`;
+
+    await fs.writeFile(
+      path.join(this.directory, filename),
+      JSON.stringify({ ...message, sentAt: sentAt.toISOString() }, null, 2)
+    );
+  }
+}
+
+class SendGridMailTransport implements MailTransport {
+  readonly name = 'sendgrid';
+
+  constructor(private readonly apiKey: string) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    const content = [{ type: 'text/plain', value: message.text }];
+    if (message.html) {
+      content.push({ type: 'text/html', value: message.html });
+    }
+
+    const response = await fetch('https://api.sendgrid.com/v3/mail/send', {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        personalizations: [{ to: [{ email: message.to }] }],
+        from: { email: message.from },
+        subject: message.subject,
+        content,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`SendGrid responded with ${response.status}: ${await response.text()}`);
+    }
+  }
+}
+
+class MailService {
+  private transport: MailTransport;
+
+  constructor() {
+    this.transport = this.createTransport(env.MAIL_TRANSPORT);
+  }
+
+  setTransport(transport: MailTransport): void {
+    this.transport = transport;
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transport.send({ ...message, from: env.MAIL_FROM });
+  }
+
+  async sendPasswordReset(email: string, token: string, expiresInMinutes: number): Promise<void> {
+    const lines = [
+      'We received a request to reset the password for your Dream Journal Pro account.',
+      '',
+      `Paste this reset code into the app to choose a new password:\n${token}`,
+      '',
+    ];
+
+    // Only when a web page exists that can hand the code to the app
+    if (env.APP_URL) {
+      lines.push(`Or open this link on your phone:\n${env.APP_URL}/reset-password?token=${encodeURIComponent(token)}`, '');
+    }
+
+    await this.send({
+      to: email,
+      subject: 'Reset your Dream Journal Pro password',
+      text: [
+        ...lines,
+        `The code expires in ${expiresInMinutes} minutes and can only be used once.`,
+        'If you did not ask for a reset, you can ignore this email; your password has not changed.',
+      ].join('\n'),
+    });
+  }
+
+  async sendEmailVerification(email: string, token: string, expiresInHours: number): Promise<void> {
+    const lines = [
+      'Welcome to Dream Journal Pro! Please confirm this is your email address.',
+      '',
+      `Paste this verification code into the app:\n${token}`,
+      '',
+    ];
+
+    if (env.APP_URL) {
+      lines.push(`Or open this link on your phone:\n${env.APP_URL}/verify-email?token=${encodeURIComponent(token)}`, '');
+    }
+
+    await this.send({
+      to: email,
+      subject: 'Confirm your Dream Journal Pro email',
+      text: [
+        ...lines,
+        `The code expires in ${expiresInHours} hours.`,
+        'If you did not create an account, you can ignore this email.',
+      ].join('\n'),
+    });
+  }
+
+  async sendAccountDeletionScheduled(email: string, scheduledFor: Date): Promise<void> {
+    await this.send({
+      to: email,
+      subject: 'Your Dream Journal Pro account is scheduled for deletion',
+      text: [
+        'We received a request to delete your Dream Journal Pro account.',
+        '',
+        `On ${scheduledFor.toUTCString()} your dreams, analyses, patterns and voice recordings will be permanently erased.`,
+        'Until then you can sign in and restore your account from the app, or download a copy of your data.',
+        '',
+        'If you did not ask for this, sign in and restore your account, then change your password.',
+      ].join('\n'),
+    });
+  }
+
+  private createTransport(name: string): MailTransport {
+    switch (name) {
+      case 'console':
+        return new ConsoleMailTransport();
+      case 'file':
+        return new FileMailTransport(env.MAIL_OUTPUT_DIR);
+      case 'sendgrid':
+        return new SendGridMailTransport(env.SENDGRID_API_KEY!);
+      default:
+        throw new Error(`Unknown mail transport: ${name}`);
+    }
+  }
+}
+
+export const mailService = new MailService();
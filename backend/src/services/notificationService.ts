@@ -1,127 +1,655 @@
-import { Expo, ExpoPushMessage, ExpoPushTicket, ExpoPushReceiptId } from 'expo-server-sdk';
-import cron from 'node-cron';
+import { Expo, ExpoPushMessage, ExpoPushTicket, ExpoPushReceipt, ExpoPushReceiptId } from 'expo-server-sdk';
+import { Device, DevicePlatform, NotificationDeliveryStatus, NotificationType, SubscriptionStatus } from '@prisma/client';
 import { prisma } from '../config/database';
 import { env } from '../config/env';
+import { TimezoneUtils } from '../utils/timezone';
+import { entitlementService } from './entitlementService';
+
+// Users who haven't picked a reminder time hear from us at 8:00 local time
+const DEFAULT_REMINDER_TIME = '08:00';
+
+// A reminder missed by a restart or a slow tick still goes out within this window
+const REMINDER_CATCH_UP_MINUTES = 30;
+
+// Expo keeps receipts for a day; the first check waits until most are ready
+const RECEIPT_FIRST_CHECK_MS = 15 * 60 * 1000;
+const RECEIPT_MAX_BACKOFF_MS = 4 * 60 * 60 * 1000;
+const RECEIPT_TTL_MS = 24 * 60 * 60 * 1000;
+const RECEIPT_BATCH_SIZE = 1000;
+const DEFERRED_BATCH_SIZE = 500;
+
+// The parts of the Expo SDK this service calls, so tests can pass a local fake
+export type PushClient = Pick<
+  Expo,
+  'chunkPushNotifications' | 'sendPushNotificationsAsync' | 'chunkPushNotificationReceiptIds' | 'getPushNotificationReceiptsAsync'
+>;
+
+export interface ReceiptSummary {
+  checked: number;
+  delivered: number;
+  failed: number;
+  retried: number;
+}
+
+export interface DeviceDetails {
+  platform?: DevicePlatform; // Older app builds don't send it
+  deviceName?: string;
+  appVersion?: string;
+}
+
+interface SendOptions {
+  dedupeKey?: string;
+  scheduledFor?: Date;
+  ignorePreferences?: boolean; // Only for sends the user asked for, like the test notification
+}
+
+export type SuppressionReason = 'type_muted' | 'quiet_hours' | 'daily_limit';
+
+// Always sent at once and left out of the daily count
+const EXEMPT_TYPES: NotificationType[] = ['TEST', 'BILLING'];
+
+export interface DeferredSummary {
+  sent: number;
+  deferred: number; // Still held back, now until a later time
+  dropped: number; // Muted or turned off while waiting
+}
+
+interface DeliveryPreferences {
+  timezone: string;
+  mutedNotificationTypes: NotificationType[];
+  quietHoursStart: string | null;
+  quietHoursEnd: string | null;
+  maxNotificationsPerDay: number | null;
+}
+
+interface Recipient extends DeliveryPreferences {
+  devices: Array<{ id: string; pushToken: string }>;
+}
+
+interface ReminderCandidate {
+  id: string;
+  firstName: string | null;
+  reminderTime: string | null;
+  timezone: string;
+  dreamEntriesThisMonth: number;
+  subscriptionStatus: SubscriptionStatus;
+}
 
 class NotificationService {
-  private expo: Expo;
+  private expo: PushClient;
 
   constructor() {
     this.expo = new Expo({
       accessToken: env.EXPO_ACCESS_TOKEN,
     });
+  }
 
-    // Schedule daily reminder notifications at 8:00 AM
-    this.scheduleDailyReminders();
+  setClient(client: PushClient): void {
+    this.expo = client;
   }
 
+  // Fans out to every device of the user that hasn't been muted. Returns true
+  // when Expo accepted the message for at least one of them. A send held back by
+  // quiet hours or the daily limit is stored and goes out once they allow it.
   async sendPushNotification(
     userId: string,
     title: string,
     body: string,
     data?: any,
-    type: 'DREAM_REMINDER' | 'ANALYSIS_COMPLETE' | 'PATTERN_DISCOVERED' | 'SUBSCRIPTION_EXPIRING' | 'WELCOME' | 'TIP_OF_DAY' = 'DREAM_REMINDER'
+    type: NotificationType = 'DREAM_REMINDER',
+    options: SendOptions = {}
   ): Promise<boolean> {
     try {
-      const user = await prisma.user.findUnique({
-        where: { id: userId },
-        select: {
-          pushNotificationToken: true,
-          notificationsEnabled: true,
-        },
-      });
+      const recipient = await this.getRecipient(userId);
+      if (!recipient) {
+        return false;
+      }
 
-      if (!user || !user.notificationsEnabled || !user.pushNotificationToken) {
+      const now = new Date();
+      const suppression = options.ignorePreferences || EXEMPT_TYPES.includes(type)
+        ? null
+        : await this.getSuppressionReason(userId, recipient, type, now);
+      if (suppression === 'type_muted') {
         return false;
       }
 
-      // Check that the push token is valid
-      if (!Expo.isExpoPushToken(user.pushNotificationToken)) {
-        console.error(`Invalid push token for user ${userId}: ${user.pushNotificationToken}`);
+      // The record is written before sending so a dedupe key claims the slot;
+      // whoever loses the race skips instead of sending a second copy
+      let notificationId: string;
+      try {
+        const notification = await prisma.notification.create({
+          data: {
+            userId,
+            type,
+            title,
+            body,
+            data: data || {},
+            scheduledFor: suppression
+              ? this.getDeferredUntil(recipient, suppression, now)
+              : options.scheduledFor,
+            dedupeKey: options.dedupeKey,
+          },
+          select: { id: true },
+        });
+        notificationId = notification.id;
+      } catch (error) {
+        if (options.dedupeKey && (error as any).code === 'P2002') {
+          return false;
+        }
+        throw error;
+      }
+
+      if (suppression) {
         return false;
       }
 
-      const message: ExpoPushMessage = {
-        to: user.pushNotificationToken,
-        title,
-        body,
-        data: data || {},
-        sound: 'default',
-        priority: 'normal',
-        channelId: 'dream-notifications',
-      };
-
-      // Send the notification
-      const chunks = this.expo.chunkPushNotifications([message]);
-      const tickets: ExpoPushTicket[] = [];
-
-      for (const chunk of chunks) {
-        try {
-          const ticketChunk = await this.expo.sendPushNotificationsAsync(chunk);
-          tickets.push(...ticketChunk);
-        } catch (error) {
-          console.error('Error sending push notification chunk:', error);
+      let accepted = false;
+      try {
+        accepted = await this.deliver({ id: notificationId, title, body, data }, recipient.devices);
+      } finally {
+        // Nothing reached Expo, so give the slot back and let a later tick in
+        // the catch-up window try again. The failed attempt stays in the history.
+        if (!accepted && options.dedupeKey) {
+          await prisma.notification.update({
+            where: { id: notificationId },
+            data: { dedupeKey: null },
+          });
         }
       }
+      return accepted;
+    } catch (error) {
+      console.error('Push notification error:', error);
+      return false;
+    }
+  }
+
+  // Run every minute by the scheduler. Sends the notifications that quiet hours
+  // or the daily limit held back, once the user's preferences let them through.
+  async processDeferred(now: Date = new Date()): Promise<DeferredSummary> {
+    const summary: DeferredSummary = { sent: 0, deferred: 0, dropped: 0 };
+
+    const due = await prisma.notification.findMany({
+      where: {
+        sentAt: null,
+        deliveryStatus: 'PENDING',
+        scheduledFor: { lte: now },
+        deliveries: { none: {} },
+      },
+      select: { id: true, userId: true, type: true, title: true, body: true, data: true },
+      orderBy: { scheduledFor: 'asc' },
+      take: DEFERRED_BATCH_SIZE,
+    });
+
+    for (const notification of due) {
+      const recipient = await this.getRecipient(notification.userId);
+      const suppression = recipient
+        ? await this.getSuppressionReason(notification.userId, recipient, notification.type, now)
+        : null;
+
+      // Turned off or muted in the meantime, so it is never going out
+      if (!recipient || suppression === 'type_muted') {
+        await prisma.notification.update({
+          where: { id: notification.id },
+          data: { deliveryStatus: 'FAILED', deliveryError: 'Suppressed' },
+        });
+        summary.dropped++;
+        continue;
+      }
 
-      // Save notification record
-      await prisma.notification.create({
-        data: {
+      if (suppression) {
+        await prisma.notification.update({
+          where: { id: notification.id },
+          data: { scheduledFor: this.getDeferredUntil(recipient, suppression, now) },
+        });
+        summary.deferred++;
+        continue;
+      }
+
+      if (await this.deliver(notification, recipient.devices)) {
+        summary.sent++;
+      }
+    }
+
+    return summary;
+  }
+
+  // The user's notification settings and the devices a send would reach, or
+  // null when nothing can reach them
+  private async getRecipient(userId: string): Promise<Recipient | null> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        notificationsEnabled: true,
+        timezone: true,
+        mutedNotificationTypes: true,
+        quietHoursStart: true,
+        quietHoursEnd: true,
+        maxNotificationsPerDay: true,
+        devices: {
+          where: { notificationsEnabled: true },
+          select: { id: true, pushToken: true },
+        },
+      },
+    });
+
+    if (!user || !user.notificationsEnabled) {
+      return null;
+    }
+
+    // Check that the push tokens are valid
+    const devices = user.devices.filter(device => {
+      if (!Expo.isExpoPushToken(device.pushToken)) {
+        console.error(`Invalid push token for device ${device.id}: ${device.pushToken}`);
+        return false;
+      }
+      return true;
+    });
+
+    return devices.length > 0 ? { ...user, devices } : null;
+  }
+
+  private async deliver(
+    notification: { id: string; title: string; body: string; data: any },
+    devices: Array<{ id: string; pushToken: string }>
+  ): Promise<boolean> {
+    const { id: notificationId, title, body } = notification;
+    const data = notification.data || {};
+
+    const deliveries = await prisma.notificationDelivery.createManyAndReturn({
+      data: devices.map(device => ({
+        notificationId,
+        deviceId: device.id,
+        pushToken: device.pushToken,
+      })),
+      select: { id: true, deviceId: true, pushToken: true },
+    });
+
+    const messages: ExpoPushMessage[] = deliveries.map(delivery => ({
+      to: delivery.pushToken,
+      title,
+      body,
+      data,
+      sound: 'default',
+      priority: 'normal',
+      channelId: 'dream-notifications',
+    }));
+
+    // Tickets come back in message order, chunk by chunk; a failed chunk
+    // leaves a gap so the remaining tickets still line up with their delivery
+    const tickets: Array<ExpoPushTicket | undefined> = [];
+    for (const chunk of this.expo.chunkPushNotifications(messages)) {
+      try {
+        const ticketChunk = await this.expo.sendPushNotificationsAsync(chunk);
+        tickets.push(...ticketChunk);
+      } catch (error) {
+        console.error('Error sending push notification chunk:', error);
+        tickets.push(...new Array<undefined>(chunk.length).fill(undefined));
+      }
+    }
+
+    const sentAt = new Date();
+    let accepted = false;
+    for (const [index, delivery] of deliveries.entries()) {
+      if (await this.recordTicket(delivery, tickets[index], sentAt)) {
+        accepted = true;
+      }
+    }
+
+    await prisma.notification.update({
+      where: { id: notificationId },
+      data: { sentAt },
+    });
+    await this.refreshDeliveryStatus(notificationId);
+
+    return accepted;
+  }
+
+  // The user's own limits on what reaches them, checked before every send
+  async getSuppressionReason(
+    userId: string,
+    preferences: DeliveryPreferences,
+    type: NotificationType,
+    now: Date = new Date()
+  ): Promise<SuppressionReason | null> {
+    if (preferences.mutedNotificationTypes.includes(type)) {
+      return 'type_muted';
+    }
+
+    const timeZone = TimezoneUtils.resolveTimeZone(preferences.timezone);
+    const local = TimezoneUtils.getZonedParts(now, timeZone);
+
+    if (preferences.quietHoursStart && preferences.quietHoursEnd) {
+      const minute = local.hour * 60 + local.minute;
+      const start = this.toMinuteOfDay(preferences.quietHoursStart);
+      const end = this.toMinuteOfDay(preferences.quietHoursEnd);
+      const quiet = start <= end
+        ? minute >= start && minute < end
+        : minute >= start || minute < end; // Spans midnight
+
+      if (quiet) {
+        return 'quiet_hours';
+      }
+    }
+
+    if (preferences.maxNotificationsPerDay !== null) {
+      const dayStart = TimezoneUtils.zonedTimeToUtc({ ...local, hour: 0, minute: 0 }, timeZone);
+      const sentToday = await prisma.notification.count({
+        where: {
           userId,
-          type,
-          title,
-          body,
-          data: data || {},
-          sentAt: new Date(),
-          delivered: tickets.length > 0 && tickets[0].status === 'ok',
+          type: { notIn: EXEMPT_TYPES },
+          sentAt: { gte: dayStart },
+          deliveryStatus: { not: 'FAILED' },
         },
       });
 
-      return tickets.length > 0 && tickets[0].status === 'ok';
-    } catch (error) {
-      console.error('Push notification error:', error);
-      return false;
+      if (sentToday >= preferences.maxNotificationsPerDay) {
+        return 'daily_limit';
+      }
     }
+
+    return null;
+  }
+
+  // When a held-back send should be tried again: the end of the quiet window,
+  // or the user's next local midnight once today's limit is used up
+  private getDeferredUntil(
+    preferences: DeliveryPreferences,
+    reason: Exclude<SuppressionReason, 'type_muted'>,
+    now: Date
+  ): Date {
+    const timeZone = TimezoneUtils.resolveTimeZone(preferences.timezone);
+    const local = TimezoneUtils.getZonedParts(now, timeZone);
+
+    let minuteOfDay = 0;
+    let dayOffset = 1;
+    if (reason === 'quiet_hours') {
+      minuteOfDay = this.toMinuteOfDay(preferences.quietHoursEnd!);
+      dayOffset = minuteOfDay > local.hour * 60 + local.minute ? 0 : 1;
+    }
+
+    const [year, month, day] = TimezoneUtils.formatDate(local, dayOffset).split('-').map(Number);
+    return TimezoneUtils.zonedTimeToUtc(
+      { year, month, day, hour: Math.floor(minuteOfDay / 60), minute: minuteOfDay % 60 },
+      timeZone
+    );
+  }
+
+  private toMinuteOfDay(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  }
+
+  // Expo accepting a message only yields a ticket; whether it reached the
+  // device is known once the receipt for that ticket is checked
+  private async recordTicket(
+    delivery: { id: string; pushToken: string },
+    ticket: ExpoPushTicket | undefined,
+    sentAt: Date
+  ): Promise<boolean> {
+    if (ticket?.status === 'ok') {
+      await prisma.notificationDelivery.update({
+        where: { id: delivery.id },
+        data: {
+          status: 'SENT',
+          expoTicketId: ticket.id,
+          nextReceiptCheckAt: new Date(sentAt.getTime() + RECEIPT_FIRST_CHECK_MS),
+        },
+      });
+      return true;
+    }
+
+    await prisma.notificationDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status: 'FAILED',
+        error: ticket ? ticket.details?.error ?? ticket.message : 'Push service unavailable',
+      },
+    });
+
+    if (ticket?.details?.error === 'DeviceNotRegistered') {
+      await this.removeDeadDevice(delivery.pushToken);
+    }
+
+    return false;
+  }
+
+  // A notification counts as delivered once any device got it, and as failed
+  // only when every device failed
+  private async refreshDeliveryStatus(notificationId: string): Promise<void> {
+    const deliveries = await prisma.notificationDelivery.findMany({
+      where: { notificationId },
+      select: { status: true, error: true },
+    });
+
+    const statuses = deliveries.map(({ status }) => status);
+    let deliveryStatus: NotificationDeliveryStatus = 'FAILED';
+    if (statuses.includes('DELIVERED')) {
+      deliveryStatus = 'DELIVERED';
+    } else if (statuses.includes('SENT')) {
+      deliveryStatus = 'SENT';
+    } else if (statuses.includes('PENDING')) {
+      deliveryStatus = 'PENDING';
+    }
+
+    await prisma.notification.update({
+      where: { id: notificationId },
+      data: {
+        deliveryStatus,
+        delivered: deliveryStatus === 'DELIVERED',
+        deliveryError: deliveryStatus === 'FAILED'
+          ? deliveries.find(({ error }) => error)?.error ?? null
+          : null,
+      },
+    });
   }
 
-  async registerPushToken(userId: string, pushToken: string): Promise<boolean> {
+  // Run by the scheduler. Settles SENT deliveries from their Expo receipts;
+  // receipts that aren't ready yet, or requests that fail, are retried with backoff.
+  async processReceipts(now: Date = new Date()): Promise<ReceiptSummary> {
+    const summary: ReceiptSummary = { checked: 0, delivered: 0, failed: 0, retried: 0 };
+
+    const pending = await prisma.notificationDelivery.findMany({
+      where: {
+        status: 'SENT',
+        expoTicketId: { not: null },
+        nextReceiptCheckAt: { lte: now },
+      },
+      select: {
+        id: true,
+        notificationId: true,
+        expoTicketId: true,
+        pushToken: true,
+        receiptAttempts: true,
+        createdAt: true,
+      },
+      orderBy: { nextReceiptCheckAt: 'asc' },
+      take: RECEIPT_BATCH_SIZE,
+    });
+
+    const byTicket = new Map(pending.map(delivery => [delivery.expoTicketId!, delivery]));
+    const settled = new Set<string>();
+
+    for (const chunk of this.expo.chunkPushNotificationReceiptIds([...byTicket.keys()])) {
+      let receipts: Record<ExpoPushReceiptId, ExpoPushReceipt>;
+      try {
+        receipts = await this.expo.getPushNotificationReceiptsAsync(chunk);
+      } catch (error) {
+        console.error('Error fetching push receipts:', error);
+        for (const ticketId of chunk) {
+          await this.scheduleReceiptRetry(byTicket.get(ticketId)!, now);
+          summary.retried++;
+        }
+        continue;
+      }
+
+      for (const ticketId of chunk) {
+        const delivery = byTicket.get(ticketId)!;
+        const receipt = receipts[ticketId];
+        summary.checked++;
+
+        if (!receipt) {
+          await this.scheduleReceiptRetry(delivery, now);
+          summary.retried++;
+          continue;
+        }
+
+        if (receipt.status === 'ok') {
+          await prisma.notificationDelivery.update({
+            where: { id: delivery.id },
+            data: { status: 'DELIVERED', nextReceiptCheckAt: null },
+          });
+          summary.delivered++;
+        } else {
+          await prisma.notificationDelivery.update({
+            where: { id: delivery.id },
+            data: {
+              status: 'FAILED',
+              error: receipt.details?.error ?? receipt.message,
+              nextReceiptCheckAt: null,
+            },
+          });
+          summary.failed++;
+
+          if (receipt.details?.error === 'DeviceNotRegistered') {
+            await this.removeDeadDevice(delivery.pushToken);
+          }
+        }
+
+        settled.add(delivery.notificationId);
+      }
+    }
+
+    for (const notificationId of settled) {
+      await this.refreshDeliveryStatus(notificationId);
+    }
+
+    return summary;
+  }
+
+  private async scheduleReceiptRetry(
+    delivery: { id: string; receiptAttempts: number; createdAt: Date },
+    now: Date
+  ): Promise<void> {
+    const attempts = delivery.receiptAttempts + 1;
+
+    // Past Expo's retention the receipt is gone for good
+    if (now.getTime() - delivery.createdAt.getTime() >= RECEIPT_TTL_MS) {
+      await prisma.notificationDelivery.update({
+        where: { id: delivery.id },
+        data: {
+          receiptAttempts: attempts,
+          error: 'ReceiptUnavailable',
+          nextReceiptCheckAt: null,
+        },
+      });
+      return;
+    }
+
+    const backoff = Math.min(RECEIPT_FIRST_CHECK_MS * 2 ** (attempts - 1), RECEIPT_MAX_BACKOFF_MS);
+    await prisma.notificationDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        receiptAttempts: attempts,
+        nextReceiptCheckAt: new Date(now.getTime() + backoff),
+      },
+    });
+  }
+
+  // Expo says the app was uninstalled or the token expired; a fresh token
+  // registers as a new device
+  private async removeDeadDevice(pushToken: string): Promise<void> {
+    const result = await prisma.device.deleteMany({ where: { pushToken } });
+
+    if (result.count > 0) {
+      console.log('Removed device with an unregistered push token');
+    }
+  }
+
+  // Called by the app on every launch. A token seen before refreshes its device
+  // (and moves it over if another account used it last); a new one adds a device.
+  async registerPushToken(userId: string, pushToken: string, details: DeviceDetails): Promise<Device | null> {
     try {
       if (!Expo.isExpoPushToken(pushToken)) {
-        return false;
+        return null;
       }
 
-      await prisma.user.update({
-        where: { id: userId },
-        data: {
-          pushNotificationToken: pushToken,
-          notificationsEnabled: true,
+      // Only the user's first device gets the welcome, not every new phone
+      const knownDevices = await prisma.device.count({ where: { userId } });
+
+      const device = await prisma.device.upsert({
+        where: { pushToken },
+        create: {
+          userId,
+          pushToken,
+          platform: details.platform,
+          deviceName: details.deviceName,
+          appVersion: details.appVersion,
+        },
+        update: {
+          userId,
+          platform: details.platform,
+          deviceName: details.deviceName,
+          appVersion: details.appVersion,
+          lastSeenAt: new Date(),
         },
       });
 
-      // Send welcome notification
-      await this.sendPushNotification(
-        userId,
-        'Welcome to Dream Journal Pro! 🌙',
-        'Your dream analysis journey begins now. Record your first dream tonight!',
-        { type: 'welcome' },
-        'WELCOME'
-      );
+      if (knownDevices === 0) {
+        await prisma.user.update({
+          where: { id: userId },
+          data: { notificationsEnabled: true },
+        });
 
-      return true;
+        // Send welcome notification
+        await this.sendPushNotification(
+          userId,
+          'Welcome to Dream Journal Pro! 🌙',
+          'Your dream analysis journey begins now. Record your first dream tonight!',
+          { type: 'welcome' },
+          'WELCOME'
+        );
+      }
+
+      return device;
     } catch (error) {
       console.error('Register push token error:', error);
-      return false;
+      return null;
     }
   }
 
-  async unregisterPushToken(userId: string): Promise<boolean> {
-    try {
+  // Users from before devices kept a single token on their row. Each one becomes
+  // a device with an unknown platform, and the column is cleared once moved.
+  async migrateLegacyPushTokens(): Promise<number> {
+    const users = await prisma.user.findMany({
+      where: { pushNotificationToken: { not: null } },
+      select: { id: true, pushNotificationToken: true },
+    });
+
+    let migrated = 0;
+    for (const user of users) {
+      const pushToken = user.pushNotificationToken!;
+      if (Expo.isExpoPushToken(pushToken)) {
+        const claimed = await prisma.device.findUnique({ where: { pushToken }, select: { id: true } });
+        if (!claimed) {
+          await prisma.device.create({ data: { userId: user.id, pushToken } });
+          migrated++;
+        }
+      }
+
       await prisma.user.update({
-        where: { id: userId },
-        data: {
-          pushNotificationToken: null,
-          notificationsEnabled: false,
-        },
+        where: { id: user.id },
+        data: { pushNotificationToken: null },
+      });
+    }
+
+    return migrated;
+  }
+
+  // Without a token every device of the user is removed, e.g. when signing out everywhere
+  async unregisterPushToken(userId: string, pushToken?: string): Promise<boolean> {
+    try {
+      await prisma.device.deleteMany({
+        where: { userId, ...(pushToken ? { pushToken } : {}) },
       });
 
       return true;
@@ -131,6 +659,38 @@ class NotificationService {
     }
   }
 
+  async listDevices(userId: string): Promise<Device[]> {
+    return prisma.device.findMany({
+      where: { userId },
+      orderBy: { lastSeenAt: 'desc' },
+    });
+  }
+
+  // Per-device opt-out and rename
+  async updateDevice(
+    userId: string,
+    deviceId: string,
+    changes: { notificationsEnabled?: boolean; deviceName?: string }
+  ): Promise<Device | null> {
+    const result = await prisma.device.updateMany({
+      where: { id: deviceId, userId },
+      data: changes,
+    });
+
+    if (result.count === 0) {
+      return null;
+    }
+
+    return prisma.device.findUnique({ where: { id: deviceId } });
+  }
+
+  async removeDevice(userId: string, deviceId: string): Promise<boolean> {
+    const result = await prisma.device.deleteMany({
+      where: { id: deviceId, userId },
+    });
+    return result.count > 0;
+  }
+
   async scheduleReminder(userId: string, title: string, body: string, scheduledFor: Date): Promise<void> {
     try {
       await prisma.notification.create({
@@ -147,108 +707,107 @@ class NotificationService {
     }
   }
 
-  private scheduleDailyReminders(): void {
-    // Run every day at 8:00 AM
-    cron.schedule('0 8 * * *', async () => {
-      await this.processDailyReminders();
-    }, {
-      timezone: 'UTC',
-    });
-
-    // Also check for custom reminder times every hour
-    cron.schedule('0 * * * *', async () => {
-      await this.processCustomReminders();
-    });
-  }
+  // Run every minute by the scheduler. Its lease keeps ticks from overlapping,
+  // and the dedupe key keeps a reminder from going out twice regardless. A
+  // reminder no device accepted releases its key, so the next tick retries it.
+  async processReminders(now: Date = new Date()): Promise<number> {
+    let sent = 0;
+    let lastId: string | undefined;
 
-  private async processDailyReminders(): Promise<void> {
-    try {
-      const users = await prisma.user.findMany({
+    while (true) {
+      const users: ReminderCandidate[] = await prisma.user.findMany({
         where: {
           notificationsEnabled: true,
-          pushNotificationToken: { not: null },
-          reminderTime: null, // Users without custom reminder time get default 8 AM
+          devices: { some: { notificationsEnabled: true } },
+          ...(lastId ? { id: { gt: lastId } } : {}),
         },
         select: {
           id: true,
           firstName: true,
+          reminderTime: true,
+          timezone: true,
           dreamEntriesThisMonth: true,
           subscriptionStatus: true,
         },
+        orderBy: { id: 'asc' },
+        take: 500,
       });
 
-      for (const user of users) {
+      if (users.length === 0) {
+        break;
+      }
+
+      const due = users
+        .map(user => ({ user, reminder: this.getDueReminder(user, now) }))
+        .filter(({ reminder }) => reminder !== null);
+
+      // Skip users already reminded today without paying for a failed insert each tick
+      const claimed = due.length > 0
+        ? await prisma.notification.findMany({
+            where: { dedupeKey: { in: due.map(({ reminder }) => reminder!.dedupeKey) } },
+            select: { dedupeKey: true },
+          })
+        : [];
+      const claimedKeys = new Set(claimed.map(({ dedupeKey }) => dedupeKey));
+
+      for (const { user, reminder } of due) {
+        if (claimedKeys.has(reminder!.dedupeKey)) {
+          continue;
+        }
+
         const messages = this.getReminderMessages(user);
         const selectedMessage = messages[Math.floor(Math.random() * messages.length)];
 
-        await this.sendPushNotification(
+        const success = await this.sendPushNotification(
           user.id,
           selectedMessage.title,
           selectedMessage.body,
-          { type: 'daily_reminder' },
-          'DREAM_REMINDER'
+          { type: user.reminderTime ? 'custom_reminder' : 'daily_reminder' },
+          'DREAM_REMINDER',
+          { dedupeKey: reminder!.dedupeKey, scheduledFor: reminder!.scheduledFor }
         );
+        if (success) {
+          sent++;
+        }
       }
 
-      console.log(`Sent daily reminders to ${users.length} users`);
-    } catch (error) {
-      console.error('Process daily reminders error:', error);
+      lastId = users[users.length - 1].id;
     }
-  }
-
-  private async processCustomReminders(): Promise<void> {
-    try {
-      const currentHour = new Date().getHours();
-      const currentMinute = new Date().getMinutes();
-      
-      // Only process at the top of the hour
-      if (currentMinute !== 0) {
-        return;
-      }
 
-      const users = await prisma.user.findMany({
-        where: {
-          notificationsEnabled: true,
-          pushNotificationToken: { not: null },
-          reminderTime: { not: null },
-        },
-        select: {
-          id: true,
-          firstName: true,
-          reminderTime: true,
-          timezone: true,
-          dreamEntriesThisMonth: true,
-          subscriptionStatus: true,
-        },
-      });
+    if (sent > 0) {
+      console.log(`Sent reminders to ${sent} users`);
+    }
+    return sent;
+  }
 
-      for (const user of users) {
-        if (user.reminderTime) {
-          const [reminderHour, reminderMinute] = user.reminderTime.split(':').map(Number);
-          
-          // Simple timezone handling - in production, you'd want proper timezone conversion
-          if (reminderHour === currentHour && reminderMinute === 0) {
-            const messages = this.getReminderMessages(user);
-            const selectedMessage = messages[Math.floor(Math.random() * messages.length)];
-
-            await this.sendPushNotification(
-              user.id,
-              selectedMessage.title,
-              selectedMessage.body,
-              { type: 'custom_reminder' },
-              'DREAM_REMINDER'
-            );
-          }
-        }
+  // The reminder whose local time passed within the catch-up window, if any.
+  // Yesterday is checked too so a 23:50 reminder survives a tick after midnight.
+  private getDueReminder(
+    user: Pick<ReminderCandidate, 'id' | 'reminderTime' | 'timezone'>,
+    now: Date
+  ): { dedupeKey: string; scheduledFor: Date } | null {
+    const timeZone = TimezoneUtils.resolveTimeZone(user.timezone);
+    const [hour, minute] = (user.reminderTime || DEFAULT_REMINDER_TIME).split(':').map(Number);
+    const today = TimezoneUtils.getZonedParts(now, timeZone);
+
+    for (const dayOffset of [0, -1]) {
+      const localDate = TimezoneUtils.formatDate(today, dayOffset);
+      const [year, month, day] = localDate.split('-').map(Number);
+      const scheduledFor = TimezoneUtils.zonedTimeToUtc({ year, month, day, hour, minute }, timeZone);
+      const lateBy = now.getTime() - scheduledFor.getTime();
+
+      if (lateBy >= 0 && lateBy < REMINDER_CATCH_UP_MINUTES * 60 * 1000) {
+        return { dedupeKey: `reminder:${user.id}:${localDate}`, scheduledFor };
       }
-    } catch (error) {
-      console.error('Process custom reminders error:', error);
     }
+
+    return null;
   }
 
   private getReminderMessages(user: any): Array<{ title: string; body: string }> {
     const name = user.firstName || 'Dreamer';
     const dreamCount = user.dreamEntriesThisMonth || 0;
+    const dreamLimit = entitlementService.getLimits(user.subscriptionStatus).dreamEntries;
     
     const messages = [
       {
@@ -274,10 +833,10 @@ class NotificationService {
         title: '🚀 Start Your Dream Journey',
         body: 'Record your first dream and unlock the mysteries of your subconscious mind!',
       });
-    } else if (dreamCount >= 5 && user.subscriptionStatus === 'FREE') {
+    } else if (dreamLimit !== null && dreamCount >= dreamLimit) {
       messages.push({
         title: '🔓 Unlock More Insights',
-        body: 'You\'ve recorded 5 dreams this month! Upgrade to Premium for unlimited entries and AI analysis.',
+        body: `You've recorded ${dreamLimit} dreams this month! Upgrade to Premium for unlimited entries and AI analysis.`,
       });
     }
 
@@ -304,13 +863,14 @@ class NotificationService {
     );
   }
 
-  async sendSubscriptionExpiringNotification(userId: string, daysLeft: number): Promise<void> {
-    await this.sendPushNotification(
+  async sendSubscriptionExpiringNotification(userId: string, daysLeft: number, dedupeKey?: string): Promise<boolean> {
+    return this.sendPushNotification(
       userId,
       'Subscription Expiring Soon ⏰',
       `Your Premium subscription expires in ${daysLeft} day${daysLeft > 1 ? 's' : ''}. Don't lose access to your advanced features!`,
       { type: 'subscription_expiring', daysLeft },
-      'SUBSCRIPTION_EXPIRING'
+      'SUBSCRIPTION_EXPIRING',
+      { dedupeKey }
     );
   }
 }
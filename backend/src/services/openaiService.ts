@@ -1,5 +1,6 @@
-import OpenAI from "openai/index.js";
-import { env } from "../config/env";
+import Joi from "joi";
+import { llmService, LlmOutputError } from "./llmService";
+import { PartialJsonUtils } from "../utils/partialJson";
 
 interface DreamAnalysisInput {
   title: string;
@@ -20,7 +21,7 @@ interface DreamAnalysisInput {
     | "PERSONAL_MYTHOLOGY";
 }
 
-interface DreamAnalysisResult {
+export interface DreamAnalysisResult {
   interpretation: string;
   symbolAnalysis: Record<string, any>;
   emotionalAnalysis: Record<string, any>;
@@ -31,21 +32,84 @@ interface DreamAnalysisResult {
   confidence: number;
 }
 
-class OpenAIService {
-  private openai: OpenAI;
-
-  constructor() {
-    this.openai = new OpenAI({
-      apiKey: env.OPENAI_API_KEY,
-    });
-  }
+// What a streamed analysis reports before it is validated: the interpretation
+// as it is written, then each other section once it is complete
+export type AnalysisProgressEvent =
+  | { type: "interpretation"; delta: string }
+  | { type: "section"; field: AnalysisSection; value: unknown };
+
+export type AnalysisSection = Exclude<keyof DreamAnalysisResult, "interpretation">;
+
+const STREAMED_SECTIONS: AnalysisSection[] = [
+  "symbolAnalysis",
+  "emotionalAnalysis",
+  "themes",
+  "insights",
+  "reflectionQuestions",
+  "actionableAdvice",
+  "confidence",
+];
+
+interface DetectedPattern {
+  type: string;
+  name: string;
+  description: string;
+  frequency: number;
+  confidence: number;
+  insight: string;
+}
 
-  async analyzeDream(input: DreamAnalysisInput): Promise<DreamAnalysisResult> {
+// What each task must answer with. Unknown keys are dropped; anything missing
+// or malformed sends the reply back for repair.
+const nonEmptyText = Joi.string().trim().min(1);
+
+const analysisSchema = Joi.object<DreamAnalysisResult>({
+  interpretation: nonEmptyText.required(),
+  symbolAnalysis: Joi.object().pattern(Joi.string(), nonEmptyText).required(),
+  emotionalAnalysis: Joi.object().pattern(Joi.string(), nonEmptyText).required(),
+  themes: Joi.array().items(nonEmptyText.max(100)).max(20).required(),
+  insights: Joi.array().items(nonEmptyText).min(1).max(20).required(),
+  reflectionQuestions: Joi.array().items(nonEmptyText).min(1).max(10).required(),
+  actionableAdvice: Joi.string().trim().allow("").optional(),
+  confidence: Joi.number().min(0).max(1).required(),
+}).required();
+
+const symbolsSchema = Joi.object<{ symbols: string[] }>({
+  symbols: Joi.array().items(nonEmptyText.max(100)).max(50).required(),
+}).required();
+
+const patternsSchema = Joi.object<{ patterns: DetectedPattern[] }>({
+  patterns: Joi.array()
+    .items(
+      Joi.object({
+        type: Joi.string()
+          .lowercase()
+          .valid("symbol", "emotion", "timing", "theme", "stress", "seasonal")
+          .required(),
+        name: nonEmptyText.max(200).required(),
+        description: nonEmptyText.required(),
+        frequency: Joi.number().min(0).required(),
+        confidence: Joi.number().min(0).max(1).required(),
+        insight: nonEmptyText.required(),
+      })
+    )
+    .max(20)
+    .required(),
+}).required();
+
+// Prompts for each dream task. Which provider and model answer them is
+// configured per task in llmService.
+class OpenAIService {
+  // Throws LlmOutputError when the model can't produce a valid analysis
+  async analyzeDream(
+    input: DreamAnalysisInput,
+    userId?: string,
+    onProgress?: (event: AnalysisProgressEvent) => void
+  ): Promise<DreamAnalysisResult> {
     try {
       const prompt = this.buildAnalysisPrompt(input);
 
-      const completion = await this.openai.chat.completions.create({
-        model: "gpt-4-turbo-preview",
+      return await llmService.completeStructured("analysis", analysisSchema, {
         messages: [
           {
             role: "system",
@@ -57,34 +121,21 @@ class OpenAIService {
           },
         ],
         temperature: 0.7,
-        max_tokens: 2000,
-        response_format: { type: "json_object" },
-      });
-
-      const response = completion.choices[0]?.message?.content;
-      if (!response) {
-        throw new Error("No response from OpenAI");
-      }
-
-      const analysisResult = JSON.parse(response) as DreamAnalysisResult;
-
-      // Ensure confidence is a valid number between 0 and 1
-      analysisResult.confidence = Math.max(
-        0,
-        Math.min(1, analysisResult.confidence || 0.7)
-      );
-
-      return analysisResult;
+        maxTokens: 2000,
+      }, userId, onProgress && this.trackProgress(onProgress));
     } catch (error) {
-      console.error("OpenAI analysis error:", error);
+      console.error("Dream analysis error:", error);
+      if (error instanceof LlmOutputError) {
+        throw error;
+      }
       throw new Error("Failed to analyze dream with AI");
     }
   }
 
-  async extractSymbols(dreamContent: string): Promise<string[]> {
+  // Empty when the model fails; the failure is still recorded
+  async extractSymbols(dreamContent: string, userId?: string): Promise<string[]> {
     try {
-      const completion = await this.openai.chat.completions.create({
-        model: "gpt-3.5-turbo",
+      const result = await llmService.completeStructured("symbols", symbolsSchema, {
         messages: [
           {
             role: "system",
@@ -97,17 +148,10 @@ class OpenAIService {
           },
         ],
         temperature: 0.3,
-        max_tokens: 500,
-        response_format: { type: "json_object" },
-      });
-
-      const response = completion.choices[0]?.message?.content;
-      if (!response) {
-        return [];
-      }
+        maxTokens: 500,
+      }, userId);
 
-      const result = JSON.parse(response);
-      return result.symbols || [];
+      return result.symbols;
     } catch (error) {
       console.error("Symbol extraction error:", error);
       return [];
@@ -122,17 +166,9 @@ class OpenAIService {
       symbols: string[];
       themes: string[];
       dreamDate: Date;
-    }>
-  ): Promise<
-    Array<{
-      type: string;
-      name: string;
-      description: string;
-      frequency: number;
-      confidence: number;
-      insight: string;
-    }>
-  > {
+    }>,
+    userId?: string
+  ): Promise<DetectedPattern[]> {
     try {
       if (dreams.length < 3) {
         return []; // Need at least 3 dreams to detect patterns
@@ -146,8 +182,7 @@ class OpenAIService {
         title: dream.title,
       }));
 
-      const completion = await this.openai.chat.completions.create({
-        model: "gpt-4-turbo-preview",
+      const result = await llmService.completeStructured("patterns", patternsSchema, {
         messages: [
           {
             role: "system",
@@ -170,23 +205,49 @@ class OpenAIService {
           },
         ],
         temperature: 0.6,
-        max_tokens: 1500,
-        response_format: { type: "json_object" },
-      });
-
-      const response = completion.choices[0]?.message?.content;
-      if (!response) {
-        return [];
-      }
+        maxTokens: 1500,
+      }, userId);
 
-      const result = JSON.parse(response);
-      return result.patterns || [];
+      return result.patterns;
     } catch (error) {
       console.error("Pattern detection error:", error);
       return [];
     }
   }
 
+  // Turns the growing reply into interpretation deltas and finished sections
+  private trackProgress(
+    onProgress: (event: AnalysisProgressEvent) => void
+  ): (content: string) => void {
+    let interpretationLength = 0;
+    const reported = new Set<AnalysisSection>();
+
+    return (content) => {
+      const { values, partial } = PartialJsonUtils.readObject(content);
+
+      const interpretation =
+        typeof values.interpretation === "string"
+          ? values.interpretation
+          : partial?.key === "interpretation"
+            ? partial.text
+            : "";
+      if (interpretation.length > interpretationLength) {
+        onProgress({
+          type: "interpretation",
+          delta: interpretation.substring(interpretationLength),
+        });
+        interpretationLength = interpretation.length;
+      }
+
+      for (const field of STREAMED_SECTIONS) {
+        if (field in values && !reported.has(field)) {
+          reported.add(field);
+          onProgress({ type: "section", field, value: values[field] });
+        }
+      }
+    };
+  }
+
   private buildAnalysisPrompt(input: DreamAnalysisInput): string {
     let prompt = `Analyze this dream:
 
@@ -1,5 +1,12 @@
+import { DreamPattern } from '@prisma/client';
 import { prisma } from '../config/database';
 import { openaiService } from './openaiService';
+import { changeLogService } from './changeLogService';
+import { notificationService } from './notificationService';
+import { entitlementService } from './entitlementService';
+
+// The nightly recompute covers users with pattern recognition who logged a dream this recently
+const RECOMPUTE_ACTIVITY_WINDOW_DAYS = 1;
 
 interface PatternDetectionResult {
   patterns: Array<{
@@ -78,7 +85,7 @@ export class PatternService {
 
       // 6. Use AI for advanced pattern detection
       if (dreams.length >= 5) {
-        const aiPatterns = await openaiService.detectPatterns(dreams);
+        const aiPatterns = await openaiService.detectPatterns(dreams, userId);
         const convertedAiPatterns = aiPatterns.map(pattern => ({
           type: this.mapAiPatternType(pattern.type),
           name: pattern.name,
@@ -108,6 +115,109 @@ export class PatternService {
     }
   }
 
+  // Upsert detected patterns by type and name, keeping ids stable across refreshes
+  static async savePatterns(
+    userId: string,
+    patterns: PatternDetectionResult['patterns']
+  ): Promise<{ patterns: DreamPattern[]; created: DreamPattern[] }> {
+    const created: DreamPattern[] = [];
+
+    const saved = await Promise.all(
+      patterns.map(async (pattern) => {
+        // Check if similar pattern already exists
+        const existingPattern = await prisma.dreamPattern.findFirst({
+          where: {
+            userId,
+            patternType: pattern.type,
+            name: pattern.name,
+          },
+        });
+
+        if (existingPattern) {
+          // Update existing pattern
+          const updated = await prisma.dreamPattern.update({
+            where: { id: existingPattern.id },
+            data: {
+              description: pattern.description,
+              frequency: pattern.frequency,
+              confidence: pattern.confidence,
+              insight: pattern.insight,
+              timeRange: pattern.timeRange,
+              lastOccurrence: pattern.lastOccurrence,
+              relatedSymbols: pattern.relatedSymbols,
+              relatedEmotions: pattern.relatedEmotions,
+              relatedThemes: pattern.relatedThemes,
+              isActive: true,
+            },
+          });
+          await changeLogService.record(userId, 'DREAM_PATTERN', updated.id, 'UPDATE');
+          return updated;
+        } else {
+          // Create new pattern
+          const newPattern = await prisma.dreamPattern.create({
+            data: {
+              userId,
+              patternType: pattern.type,
+              name: pattern.name,
+              description: pattern.description,
+              frequency: pattern.frequency,
+              confidence: pattern.confidence,
+              timeRange: pattern.timeRange,
+              correlation: null,
+              insight: pattern.insight,
+              firstOccurrence: pattern.firstOccurrence,
+              lastOccurrence: pattern.lastOccurrence,
+              relatedSymbols: pattern.relatedSymbols,
+              relatedEmotions: pattern.relatedEmotions,
+              relatedThemes: pattern.relatedThemes,
+            },
+          });
+          await changeLogService.record(userId, 'DREAM_PATTERN', newPattern.id, 'CREATE');
+          created.push(newPattern);
+          return newPattern;
+        }
+      })
+    );
+
+    return { patterns: saved, created };
+  }
+
+  // Scheduled job: refresh patterns for premium users with new dreams, and
+  // tell them about the strongest pattern that wasn't there before
+  static async recomputeActiveUsers(timeRangeDays: number = 90): Promise<{ users: number; created: number }> {
+    const since = new Date(Date.now() - RECOMPUTE_ACTIVITY_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+    const users = await prisma.user.findMany({
+      where: {
+        subscriptionStatus: { in: entitlementService.getStatusesWithFeature('pattern_recognition') },
+        dreams: { some: { createdAt: { gte: since } } },
+      },
+      select: { id: true },
+    });
+
+    let created = 0;
+    for (const user of users) {
+      try {
+        const result = await this.detectUserPatterns(user.id, timeRangeDays);
+        if (result.patterns.length === 0) {
+          continue;
+        }
+
+        const saved = await this.savePatterns(user.id, result.patterns);
+        created += saved.created.length;
+
+        const strongest = [...saved.created].sort((a, b) => b.confidence - a.confidence)[0];
+        if (strongest) {
+          await notificationService.sendPatternDiscoveredNotification(user.id, strongest.name);
+        }
+      } catch (error) {
+        // One user's failure shouldn't stop everyone else's refresh
+        console.error(`Pattern recompute failed for user ${user.id}:`, error);
+      }
+    }
+
+    return { users: users.length, created };
+  }
+
   private static async detectSymbolFrequencyPatterns(dreams: any[]): Promise<any[]> {
     const symbolCount: Record<string, { count: number; dreams: any[] }> = {};
     const totalDreams = dreams.length;
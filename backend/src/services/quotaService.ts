@@ -0,0 +1,242 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { entitlementService, QuotaResource, Tier, TIERS } from './entitlementService';
+
+export interface QuotaExceeded {
+  quota: QuotaResource;
+  used: number;
+  limit: number;
+  resetsAt: Date | null; // null for storage, which only frees up when recordings are deleted
+  upgrade: { tier: Tier; limit: number | null } | null; // null when already on the top tier
+}
+
+export interface QuotaUsage {
+  used: number;
+  limit: number | null;
+  remaining: number | null;
+}
+
+// Monthly counters on User; storage is measured from the recordings themselves
+const COUNTER_FIELDS = {
+  dreamEntries: 'dreamEntriesThisMonth',
+  analyses: 'analysesThisMonth',
+} as const;
+
+type CountedResource = keyof typeof COUNTER_FIELDS;
+
+const EXCEEDED_MESSAGES: Record<QuotaResource, string> = {
+  dreamEntries: 'Monthly dream limit reached',
+  analyses: 'Monthly AI analysis limit reached',
+  transcriptionMinutes: 'Monthly transcription minutes used up',
+  storageBytes: 'Voice recording storage is full',
+};
+
+const usageSelect = {
+  subscriptionStatus: true,
+  dreamEntriesThisMonth: true,
+  dreamEntriesResetAt: true,
+  analysesThisMonth: true,
+  transcriptionSecondsThisMonth: true,
+} satisfies Prisma.UserSelect;
+
+type UsageRow = Prisma.UserGetPayload<{ select: typeof usageSelect }>;
+
+class QuotaService {
+  // Count one more use, unless that would go over the limit. The check and the
+  // increment are a single conditional update, so parallel requests can't both
+  // take the last slot.
+  async consume(userId: string, resource: CountedResource, amount: number = 1): Promise<QuotaExceeded | null> {
+    const user = await this.getCurrentPeriod(userId);
+    const limit = entitlementService.getLimits(user.subscriptionStatus)[resource];
+    const field = COUNTER_FIELDS[resource];
+
+    const result = await prisma.user.updateMany({
+      where: {
+        id: userId,
+        ...(limit !== null ? { [field]: { lte: limit - amount } } : {}),
+      },
+      data: { [field]: { increment: amount } },
+    });
+
+    if (result.count > 0) {
+      return null;
+    }
+
+    return this.exceeded(user, resource, user[field]);
+  }
+
+  // Give back a use whose work never happened
+  async release(userId: string, resource: CountedResource, amount: number = 1): Promise<void> {
+    const field = COUNTER_FIELDS[resource];
+    await prisma.user.updateMany({
+      where: { id: userId, [field]: { gte: amount } },
+      data: { [field]: { decrement: amount } },
+    });
+  }
+
+  // The length of a recording is only known once it is transcribed, so this
+  // checks what is known up front and recordTranscription charges the actual time
+  async checkTranscription(userId: string, seconds: number): Promise<QuotaExceeded | null> {
+    const user = await this.getCurrentPeriod(userId);
+    const limit = entitlementService.getLimits(user.subscriptionStatus).transcriptionMinutes;
+
+    if (limit === null) {
+      return null;
+    }
+
+    const used = user.transcriptionSecondsThisMonth;
+    if (used >= limit * 60 || used + seconds > limit * 60) {
+      return this.exceeded(user, 'transcriptionMinutes', this.toMinutes(used));
+    }
+
+    return null;
+  }
+
+  async recordTranscription(userId: string, seconds: number): Promise<void> {
+    if (seconds <= 0) {
+      return;
+    }
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { transcriptionSecondsThisMonth: { increment: Math.ceil(seconds) } },
+    });
+  }
+
+  async checkStorage(userId: string, bytes: number): Promise<QuotaExceeded | null> {
+    const [user, used] = await Promise.all([
+      this.getCurrentPeriod(userId),
+      this.getStorageUsed(userId),
+    ]);
+    const limit = entitlementService.getLimits(user.subscriptionStatus).storageBytes;
+
+    if (limit !== null && used + bytes > limit) {
+      return this.exceeded(user, 'storageBytes', used);
+    }
+
+    return null;
+  }
+
+  async getUsage(userId: string) {
+    const [user, storageUsed] = await Promise.all([
+      this.getCurrentPeriod(userId),
+      this.getStorageUsed(userId),
+    ]);
+    const limits = entitlementService.getLimits(user.subscriptionStatus);
+
+    return {
+      subscriptionStatus: user.subscriptionStatus,
+      periodStart: user.dreamEntriesResetAt,
+      resetsAt: this.getPeriodEnd(user.dreamEntriesResetAt),
+      limits,
+      usage: {
+        dreamEntries: this.describeUsage(user.dreamEntriesThisMonth, limits.dreamEntries),
+        analyses: this.describeUsage(user.analysesThisMonth, limits.analyses),
+        transcriptionMinutes: this.describeUsage(
+          this.toMinutes(user.transcriptionSecondsThisMonth),
+          limits.transcriptionMinutes
+        ),
+        storageBytes: this.describeUsage(storageUsed, limits.storageBytes),
+      } satisfies Record<QuotaResource, QuotaUsage>,
+    };
+  }
+
+  getExceededMessage(exceeded: QuotaExceeded): string {
+    const message = EXCEEDED_MESSAGES[exceeded.quota];
+    if (!exceeded.upgrade) {
+      return `${message}.`;
+    }
+    return exceeded.upgrade.limit === null
+      ? `${message}. Upgrade to Premium for unlimited use.`
+      : `${message}. Upgrade to Premium for more.`;
+  }
+
+  // Start a fresh period, e.g. when a subscription payment goes through
+  async resetPeriod(userId: string): Promise<void> {
+    await prisma.user.update({
+      where: { id: userId },
+      data: this.resetData(new Date()),
+    });
+  }
+
+  // Scheduled job: start a new period for everyone whose month is up
+  async resetDuePeriods(): Promise<number> {
+    const now = new Date();
+    const result = await prisma.user.updateMany({
+      where: { dreamEntriesResetAt: { lte: this.getPeriodStartCutoff(now) } },
+      data: this.resetData(now),
+    });
+    return result.count;
+  }
+
+  // The reset job runs hourly; this covers users whose period ended since
+  private async getCurrentPeriod(userId: string): Promise<UsageRow> {
+    const now = new Date();
+    await prisma.user.updateMany({
+      where: { id: userId, dreamEntriesResetAt: { lte: this.getPeriodStartCutoff(now) } },
+      data: this.resetData(now),
+    });
+
+    return prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: usageSelect,
+    });
+  }
+
+  private async getStorageUsed(userId: string): Promise<number> {
+    const result = await prisma.voiceRecording.aggregate({
+      where: { userId },
+      _sum: { fileSize: true },
+    });
+    return result._sum.fileSize ?? 0;
+  }
+
+  private exceeded(user: UsageRow, quota: QuotaResource, used: number): QuotaExceeded {
+    const limit = entitlementService.getLimits(user.subscriptionStatus)[quota] ?? 0;
+    const upgradeTier = entitlementService.getUpgradeTier(user.subscriptionStatus);
+
+    return {
+      quota,
+      used,
+      limit,
+      resetsAt: quota === 'storageBytes' ? null : this.getPeriodEnd(user.dreamEntriesResetAt),
+      upgrade: upgradeTier ? { tier: upgradeTier, limit: TIERS[upgradeTier].limits[quota] } : null,
+    };
+  }
+
+  private describeUsage(used: number, limit: number | null): QuotaUsage {
+    return {
+      used,
+      limit,
+      remaining: limit === null ? null : Math.max(limit - used, 0),
+    };
+  }
+
+  private resetData(now: Date) {
+    return {
+      dreamEntriesThisMonth: 0,
+      analysesThisMonth: 0,
+      transcriptionSecondsThisMonth: 0,
+      dreamEntriesResetAt: now,
+    };
+  }
+
+  private getPeriodEnd(periodStart: Date): Date {
+    const end = new Date(periodStart);
+    end.setMonth(end.getMonth() + 1);
+    return end;
+  }
+
+  // Periods that started on or before this have run for a full month
+  private getPeriodStartCutoff(now: Date): Date {
+    const cutoff = new Date(now);
+    cutoff.setMonth(cutoff.getMonth() - 1);
+    return cutoff;
+  }
+
+  private toMinutes(seconds: number): number {
+    return Math.round(seconds / 6) / 10;
+  }
+}
+
+export const quotaService = new QuotaService();
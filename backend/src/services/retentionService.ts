@@ -0,0 +1,194 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { s3Service } from './s3Service';
+import { changeLogService } from './changeLogService';
+
+export interface RetentionSummary {
+  retentionDays: number | null; // null: keep everything
+  cutoff: Date | null;
+  dreams: number;
+  voiceRecordings: number;
+  analyses: number;
+  notifications: number;
+}
+
+// Shorter settings are raised to this, so a typo can't wipe a journal overnight
+export const MIN_RETENTION_DAYS = 30;
+
+class RetentionService {
+  private running = false;
+
+  // The window the user picked in PrivacySettings, synced into User.preferences
+  getRetentionDays(preferences: Prisma.JsonValue): number | null {
+    const days = (preferences as any)?.privacySettings?.dataRetentionDays;
+    if (typeof days !== 'number' || !Number.isFinite(days) || days <= 0) {
+      return null;
+    }
+    return Math.max(Math.floor(days), MIN_RETENTION_DAYS);
+  }
+
+  // Dry run: what a purge would remove right now, optionally for a candidate setting
+  async preview(userId: string, overrideDays?: number): Promise<RetentionSummary | null> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { preferences: true },
+    });
+
+    if (!user) {
+      return null;
+    }
+
+    const retentionDays = overrideDays !== undefined
+      ? this.getRetentionDays({ privacySettings: { dataRetentionDays: overrideDays } })
+      : this.getRetentionDays(user.preferences);
+
+    if (retentionDays === null) {
+      return this.emptySummary();
+    }
+
+    const cutoff = this.getCutoff(retentionDays);
+    const [dreams, voiceRecordings, analyses, notifications] = await Promise.all([
+      prisma.dream.count({ where: { userId, createdAt: { lt: cutoff } } }),
+      prisma.voiceRecording.count({ where: { userId, createdAt: { lt: cutoff } } }),
+      prisma.dreamAnalysis.count({
+        where: {
+          userId,
+          OR: [{ createdAt: { lt: cutoff } }, { dream: { createdAt: { lt: cutoff } } }],
+        },
+      }),
+      prisma.notification.count({ where: { userId, createdAt: { lt: cutoff } } }),
+    ]);
+
+    return { retentionDays, cutoff, dreams, voiceRecordings, analyses, notifications };
+  }
+
+  // Delete everything older than the user's retention window
+  async purgeUser(userId: string): Promise<RetentionSummary> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { preferences: true },
+    });
+
+    const retentionDays = user ? this.getRetentionDays(user.preferences) : null;
+    if (retentionDays === null) {
+      return this.emptySummary();
+    }
+
+    const cutoff = this.getCutoff(retentionDays);
+    const summary: RetentionSummary = { ...this.emptySummary(), retentionDays, cutoff };
+
+    // Recordings first, so audio attached to expiring dreams goes with them
+    const recordings = await prisma.voiceRecording.findMany({
+      where: { userId, createdAt: { lt: cutoff } },
+      select: { id: true, filePath: true },
+    });
+    for (const recording of recordings) {
+      await s3Service.deleteVoiceRecording(recording.filePath);
+      await prisma.voiceRecording.delete({ where: { id: recording.id } });
+      await changeLogService.record(userId, 'VOICE_RECORDING', recording.id, 'DELETE');
+      summary.voiceRecordings++;
+    }
+
+    // Analyses of an expiring dream are counted with it; they cascade on delete
+    summary.analyses += await prisma.dreamAnalysis.count({
+      where: { userId, dream: { createdAt: { lt: cutoff } } },
+    });
+
+    const dreams = await prisma.dream.findMany({
+      where: { userId, createdAt: { lt: cutoff } },
+      select: { id: true },
+    });
+    for (const dream of dreams) {
+      await changeLogService.deleteDream(userId, dream.id);
+      summary.dreams++;
+    }
+
+    // Old analyses of dreams that are still kept
+    const analyses = await prisma.dreamAnalysis.findMany({
+      where: { userId, createdAt: { lt: cutoff } },
+      select: { id: true },
+    });
+    if (analyses.length > 0) {
+      await prisma.dreamAnalysis.deleteMany({ where: { id: { in: analyses.map(({ id }) => id) } } });
+      for (const analysis of analyses) {
+        await changeLogService.record(userId, 'DREAM_ANALYSIS', analysis.id, 'DELETE');
+      }
+      summary.analyses += analyses.length;
+    }
+
+    const notifications = await prisma.notification.deleteMany({
+      where: { userId, createdAt: { lt: cutoff } },
+    });
+    summary.notifications = notifications.count;
+
+    return summary;
+  }
+
+  // Walk every user that has a retention window set
+  async purgeAll(): Promise<number> {
+    if (this.running) {
+      return 0;
+    }
+
+    this.running = true;
+    try {
+      let purgedUsers = 0;
+      let lastId: string | undefined;
+
+      while (true) {
+        const users = await prisma.user.findMany({
+          where: {
+            preferences: { path: ['privacySettings', 'dataRetentionDays'], gt: 0 },
+            ...(lastId ? { id: { gt: lastId } } : {}),
+          },
+          select: { id: true },
+          orderBy: { id: 'asc' },
+          take: 100,
+        });
+
+        if (users.length === 0) {
+          break;
+        }
+
+        for (const user of users) {
+          try {
+            const summary = await this.purgeUser(user.id);
+            const removed = summary.dreams + summary.voiceRecordings + summary.analyses + summary.notifications;
+            if (removed > 0) {
+              purgedUsers++;
+            }
+          } catch (error) {
+            // The next run picks up whatever was left behind
+            console.error(`Retention purge failed for user ${user.id}:`, error);
+          }
+        }
+
+        lastId = users[users.length - 1].id;
+      }
+
+      if (purgedUsers > 0) {
+        console.log(`🧹 Applied data retention for ${purgedUsers} user(s)`);
+      }
+      return purgedUsers;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private getCutoff(retentionDays: number): Date {
+    return new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+  }
+
+  private emptySummary(): RetentionSummary {
+    return {
+      retentionDays: null,
+      cutoff: null,
+      dreams: 0,
+      voiceRecordings: 0,
+      analyses: 0,
+      notifications: 0,
+    };
+  }
+}
+
+export const retentionService = new RetentionService();
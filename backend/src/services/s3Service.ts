@@ -59,6 +59,23 @@ class S3Service {
     }
   }
 
+  async getVoiceRecording(key: string): Promise<{ body: Buffer; contentType?: string }> {
+    try {
+      const object = await this.s3.getObject({
+        Bucket: env.AWS_S3_BUCKET,
+        Key: key,
+      }).promise();
+
+      return {
+        body: Buffer.from(object.Body as Buffer),
+        contentType: object.ContentType,
+      };
+    } catch (error) {
+      console.error('S3 download error:', error);
+      throw new Error('Failed to download voice recording from S3');
+    }
+  }
+
   async deleteVoiceRecording(key: string): Promise<void> {
     try {
       await this.s3.deleteObject({
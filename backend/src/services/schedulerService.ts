@@ -0,0 +1,267 @@
+import cron, { ScheduledTask } from 'node-cron';
+import { JobRun, JobRunStatus, JobTrigger, Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { env } from '../config/env';
+
+export interface JobDefinition {
+  name: string;
+  description: string;
+  schedule: string; // Cron expression, evaluated in UTC
+  leaseMs?: number;
+  run: () => Promise<Prisma.InputJsonObject | void>;
+}
+
+export type TriggerResult =
+  | { status: 'started'; run: JobRun }
+  | { status: 'not_found' }
+  | { status: 'busy' };
+
+class SchedulerService {
+  private jobs = new Map<string, JobDefinition>();
+  private tasks = new Map<string, ScheduledTask>();
+
+  register(job: JobDefinition): void {
+    if (this.jobs.has(job.name)) {
+      throw new Error(`Job already registered: ${job.name}`);
+    }
+    if (!cron.validate(job.schedule)) {
+      throw new Error(`Invalid schedule for job ${job.name}: ${job.schedule}`);
+    }
+
+    this.jobs.set(job.name, job);
+  }
+
+  async start(): Promise<void> {
+    if (this.tasks.size > 0) {
+      return;
+    }
+
+    await this.ensureLocks([...this.jobs.keys()]);
+
+    for (const job of this.jobs.values()) {
+      const task = cron.schedule(job.schedule, context => {
+        this.runScheduled(job, context.date)
+          .catch(error => console.error(`Scheduled job ${job.name} error:`, error));
+      }, { name: job.name, timezone: 'UTC' });
+
+      this.tasks.set(job.name, task);
+    }
+  }
+
+  stop(): void {
+    for (const task of this.tasks.values()) {
+      task.stop();
+    }
+    this.tasks.clear();
+  }
+
+  // Run a job now, outside its schedule. Returns as soon as the run is recorded;
+  // the outcome shows up in the run history.
+  async trigger(name: string, triggeredBy?: string): Promise<TriggerResult> {
+    const job = this.jobs.get(name);
+    if (!job) {
+      return { status: 'not_found' };
+    }
+
+    // Instances with the scheduler disabled can still take manual triggers
+    await this.ensureLocks([name]);
+
+    if (!(await this.acquireLease(job))) {
+      return { status: 'busy' };
+    }
+
+    let run: JobRun;
+    try {
+      run = await this.createRun(job, 'MANUAL', triggeredBy);
+    } catch (error) {
+      await this.releaseLease(job.name);
+      throw error;
+    }
+
+    this.execute(job, run)
+      .catch(error => console.error(`Manual job ${job.name} error:`, error));
+
+    return { status: 'started', run };
+  }
+
+  async listJobs() {
+    const names = [...this.jobs.keys()];
+    const [locks, lastRuns] = await Promise.all([
+      prisma.jobLock.findMany({ where: { name: { in: names } } }),
+      Promise.all(names.map(name => prisma.jobRun.findFirst({
+        where: { jobName: name },
+        orderBy: { startedAt: 'desc' },
+      }))),
+    ]);
+
+    const now = new Date();
+    return names.map((name, index) => {
+      const job = this.jobs.get(name)!;
+      const lock = locks.find(candidate => candidate.name === name);
+      const leased = lock?.lockedUntil && lock.lockedUntil > now;
+
+      return {
+        name,
+        description: job.description,
+        schedule: job.schedule,
+        nextRunAt: this.tasks.get(name)?.getNextRun() ?? null,
+        lockedBy: leased ? lock!.lockedBy : null,
+        lockedUntil: leased ? lock!.lockedUntil : null,
+        lastScheduledAt: lock?.lastScheduledAt ?? null,
+        lastRun: lastRuns[index],
+      };
+    });
+  }
+
+  async getRuns(name: string, limit: number, status?: JobRunStatus): Promise<JobRun[] | null> {
+    if (!this.jobs.has(name)) {
+      return null;
+    }
+
+    return prisma.jobRun.findMany({
+      where: { jobName: name, ...(status ? { status } : {}) },
+      orderBy: { startedAt: 'desc' },
+      take: limit,
+    });
+  }
+
+  // Keeps run history from growing forever; the every-minute jobs add up quickly
+  async pruneRuns(): Promise<number> {
+    const cutoff = new Date(Date.now() - env.JOB_RUN_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    const result = await prisma.jobRun.deleteMany({
+      where: {
+        startedAt: { lt: cutoff },
+        status: { not: 'RUNNING' },
+      },
+    });
+    return result.count;
+  }
+
+  private async runScheduled(job: JobDefinition, scheduledAt: Date): Promise<void> {
+    // Every instance fires the same cron tick; the slot lets only one of them claim it
+    const slot = new Date(Math.floor(scheduledAt.getTime() / 60000) * 60000);
+
+    if (!(await this.acquireLease(job, slot))) {
+      return;
+    }
+
+    let run: JobRun;
+    try {
+      run = await this.createRun(job, 'SCHEDULED');
+    } catch (error) {
+      await this.releaseLease(job.name);
+      throw error;
+    }
+
+    await this.execute(job, run);
+  }
+
+  private async execute(job: JobDefinition, run: JobRun): Promise<void> {
+    const leaseMs = job.leaseMs ?? env.JOB_LEASE_MS;
+
+    // Long runs keep renewing, so the lease only lapses if this instance dies
+    const heartbeat = setInterval(() => {
+      prisma.jobLock.updateMany({
+        where: { name: job.name, lockedBy: env.INSTANCE_ID },
+        data: { lockedUntil: new Date(Date.now() + leaseMs) },
+      }).catch(error => console.error(`Failed to renew lease for job ${job.name}:`, error));
+    }, Math.max(Math.floor(leaseMs / 2), 1000));
+
+    try {
+      const result = await job.run();
+      await this.finishRun(run, 'SUCCEEDED', { result: result ?? undefined });
+    } catch (error) {
+      console.error(`Job ${job.name} failed:`, error);
+      await this.finishRun(run, 'FAILED', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      clearInterval(heartbeat);
+      await this.releaseLease(job.name);
+    }
+  }
+
+  // Scheduled runs also claim their cron slot; manual runs only need the lease
+  private async acquireLease(job: JobDefinition, slot?: Date): Promise<boolean> {
+    const now = new Date();
+    const leaseMs = job.leaseMs ?? env.JOB_LEASE_MS;
+
+    const result = await prisma.jobLock.updateMany({
+      where: {
+        name: job.name,
+        OR: [{ lockedUntil: null }, { lockedUntil: { lt: now } }],
+        ...(slot ? {
+          AND: [{ OR: [{ lastScheduledAt: null }, { lastScheduledAt: { lt: slot } }] }],
+        } : {}),
+      },
+      data: {
+        lockedBy: env.INSTANCE_ID,
+        lockedUntil: new Date(now.getTime() + leaseMs),
+        ...(slot ? { lastScheduledAt: slot } : {}),
+      },
+    });
+
+    if (result.count === 0) {
+      return false;
+    }
+
+    // Holding the lease means nothing else can be running this job, so any run
+    // still marked RUNNING belongs to an instance that died mid-way
+    await prisma.jobRun.updateMany({
+      where: { jobName: job.name, status: 'RUNNING' },
+      data: {
+        status: 'FAILED',
+        error: 'Abandoned: the lease expired before the run finished',
+        finishedAt: now,
+      },
+    });
+
+    return true;
+  }
+
+  private async releaseLease(name: string): Promise<void> {
+    await prisma.jobLock.updateMany({
+      where: { name, lockedBy: env.INSTANCE_ID },
+      data: { lockedBy: null, lockedUntil: null },
+    });
+  }
+
+  // Lock rows exist up front, so taking a lease is a single conditional update
+  private async ensureLocks(names: string[]): Promise<void> {
+    await prisma.jobLock.createMany({
+      data: names.map(name => ({ name })),
+      skipDuplicates: true,
+    });
+  }
+
+  private async createRun(job: JobDefinition, trigger: JobTrigger, triggeredBy?: string): Promise<JobRun> {
+    return prisma.jobRun.create({
+      data: {
+        jobName: job.name,
+        trigger,
+        triggeredBy,
+        instanceId: env.INSTANCE_ID,
+      },
+    });
+  }
+
+  private async finishRun(
+    run: JobRun,
+    status: JobRunStatus,
+    outcome: { result?: Prisma.InputJsonObject; error?: string }
+  ): Promise<void> {
+    const finishedAt = new Date();
+    await prisma.jobRun.update({
+      where: { id: run.id },
+      data: {
+        status,
+        result: outcome.result,
+        error: outcome.error,
+        finishedAt,
+        durationMs: finishedAt.getTime() - run.startedAt.getTime(),
+      },
+    });
+  }
+}
+
+export const schedulerService = new SchedulerService();
@@ -0,0 +1,226 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+
+export interface DreamSearchFilters {
+  emotions?: string[];
+  symbols?: string[];
+  themes?: string[];
+  dateFrom?: Date;
+  dateTo?: Date;
+}
+
+// Without a sort, results come most relevant first
+export interface DreamSearchSort {
+  field: 'dreamDate' | 'createdAt' | 'title';
+  order: 'asc' | 'desc';
+}
+
+// Highlights are HTML: the dream's text is escaped and only the matches are
+// wrapped in <mark>
+export interface DreamSearchHit {
+  id: string;
+  rank: number;
+  titleHighlight: string;
+  snippet: string;
+}
+
+export interface DreamSearchResult {
+  hits: DreamSearchHit[];
+  total: number;
+}
+
+const SEARCH_CONFIG = 'english';
+// Postgres marks matches with private-use characters, which are stripped from
+// the text first, so nothing a user writes can pass for a marker. They become
+// <mark> tags once the rest of the headline is escaped.
+const MATCH_START = '\uE000';
+const MATCH_STOP = '\uE001';
+const HIGHLIGHT_OPTIONS = `StartSel="${MATCH_START}", StopSel="${MATCH_STOP}", HighlightAll=true`;
+const SNIPPET_OPTIONS = `StartSel="${MATCH_START}", StopSel="${MATCH_STOP}", MaxFragments=2, MaxWords=25, MinWords=8, FragmentDelimiter=" … "`;
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+const SORT_COLUMNS: Record<DreamSearchSort['field'], Prisma.Sql> = {
+  dreamDate: Prisma.sql`d."dreamDate"`,
+  createdAt: Prisma.sql`d."createdAt"`,
+  title: Prisma.sql`d."title"`,
+};
+
+// The english stemmer handles regular inflections (flying -> fly) but not irregular
+// ones, so common dream words are expanded to all of their forms.
+const IRREGULAR_FORMS: string[][] = [
+  ['fly', 'flies', 'flying', 'flew', 'flown'],
+  ['fall', 'falls', 'falling', 'fell', 'fallen'],
+  ['run', 'runs', 'running', 'ran'],
+  ['swim', 'swims', 'swimming', 'swam', 'swum'],
+  ['drive', 'drives', 'driving', 'drove', 'driven'],
+  ['ride', 'rides', 'riding', 'rode', 'ridden'],
+  ['see', 'sees', 'seeing', 'saw', 'seen'],
+  ['meet', 'meets', 'meeting', 'met'],
+  ['lose', 'loses', 'losing', 'lost'],
+  ['find', 'finds', 'finding', 'found'],
+  ['hide', 'hides', 'hiding', 'hid', 'hidden'],
+  ['fight', 'fights', 'fighting', 'fought'],
+  ['sink', 'sinks', 'sinking', 'sank', 'sunk'],
+  ['drown', 'drowns', 'drowning', 'drowned'],
+  ['die', 'dies', 'dying', 'died', 'dead'],
+  ['bite', 'bites', 'biting', 'bit', 'bitten'],
+  ['break', 'breaks', 'breaking', 'broke', 'broken'],
+  ['catch', 'catches', 'catching', 'caught'],
+  ['climb', 'climbs', 'climbing', 'climbed'],
+  ['leave', 'leaves', 'leaving', 'left'],
+  ['speak', 'speaks', 'speaking', 'spoke', 'spoken'],
+  ['steal', 'steals', 'stealing', 'stole', 'stolen'],
+  ['take', 'takes', 'taking', 'took', 'taken'],
+  ['wake', 'wakes', 'waking', 'woke', 'woken'],
+  ['tooth', 'teeth'],
+  ['child', 'children'],
+  ['man', 'men'],
+  ['woman', 'women'],
+  ['mouse', 'mice'],
+  ['foot', 'feet'],
+];
+
+const FORM_LOOKUP = new Map<string, string[]>(
+  IRREGULAR_FORMS.flatMap(forms => forms.map(form => [form, forms] as [string, string[]]))
+);
+
+class SearchService {
+  async searchDreams(
+    userId: string,
+    query: string,
+    filters: DreamSearchFilters,
+    page: number,
+    limit: number,
+    sort?: DreamSearchSort
+  ): Promise<DreamSearchResult> {
+    const tsQuery = this.buildTsQuery(query);
+    if (!tsQuery) {
+      return { hits: [], total: 0 };
+    }
+
+    const conditions: Prisma.Sql[] = [
+      Prisma.sql`d."userId" = ${userId}`,
+      Prisma.sql`d."searchVector" @@ q.query`,
+    ];
+
+    if (filters.emotions?.length) {
+      conditions.push(Prisma.sql`d."emotions" && ${filters.emotions}::text[]`);
+    }
+    if (filters.symbols?.length) {
+      conditions.push(Prisma.sql`d."symbols" && ${filters.symbols}::text[]`);
+    }
+    if (filters.themes?.length) {
+      conditions.push(Prisma.sql`d."themes" && ${filters.themes}::text[]`);
+    }
+    if (filters.dateFrom) {
+      conditions.push(Prisma.sql`d."dreamDate" >= ${filters.dateFrom}`);
+    }
+    if (filters.dateTo) {
+      conditions.push(Prisma.sql`d."dreamDate" <= ${filters.dateTo}`);
+    }
+
+    const orderBy = sort
+      ? Prisma.sql`${SORT_COLUMNS[sort.field]} ${Prisma.raw(sort.order === 'asc' ? 'ASC' : 'DESC')}, "rank" DESC`
+      : Prisma.sql`"rank" DESC, d."dreamDate" DESC`;
+    const markers = `${MATCH_START}${MATCH_STOP}`;
+
+    const rows = await prisma.$queryRaw<Array<{
+      id: string;
+      rank: number;
+      titleHighlight: string;
+      snippet: string;
+      total: bigint;
+    }>>`
+      SELECT
+        d."id",
+        ts_rank_cd(d."searchVector", q.query, 32) AS "rank",
+        ts_headline(${SEARCH_CONFIG}::regconfig, translate(d."title", ${markers}, ''), q.query, ${HIGHLIGHT_OPTIONS}) AS "titleHighlight",
+        ts_headline(${SEARCH_CONFIG}::regconfig, translate(d."content", ${markers}, ''), q.query, ${SNIPPET_OPTIONS}) AS "snippet",
+        COUNT(*) OVER() AS "total"
+      FROM "dreams" d, (SELECT ${tsQuery} AS query) q
+      WHERE ${Prisma.join(conditions, ' AND ')}
+      ORDER BY ${orderBy}
+      LIMIT ${limit} OFFSET ${(page - 1) * limit}
+    `;
+
+    return {
+      hits: rows.map(row => ({
+        id: row.id,
+        rank: Number(row.rank),
+        titleHighlight: this.toHighlightHtml(row.titleHighlight),
+        snippet: this.toHighlightHtml(row.snippet),
+      })),
+      total: rows.length > 0 ? Number(rows[0].total) : 0,
+    };
+  }
+
+  // Rebuild the search document for a dream. Call after the dream or any of its
+  // voice transcriptions change.
+  async indexDream(dreamId: string): Promise<void> {
+    try {
+      await this.updateSearchVectors(Prisma.sql`d."id" = ${dreamId}`);
+    } catch (error) {
+      // Search indexing must never fail the write that triggered it
+      console.error(`Failed to index dream ${dreamId} for search:`, error);
+    }
+  }
+
+  // Index dreams written before search was enabled
+  async indexMissingDreams(): Promise<number> {
+    return this.updateSearchVectors(Prisma.sql`d."searchVector" IS NULL`);
+  }
+
+  // Weights: title A, tags B, narrative C, voice transcripts D
+  private updateSearchVectors(where: Prisma.Sql): Promise<number> {
+    return prisma.$executeRaw`
+      UPDATE "dreams" d SET "searchVector" =
+        setweight(to_tsvector(${SEARCH_CONFIG}::regconfig, coalesce(d."title", '')), 'A') ||
+        setweight(to_tsvector(${SEARCH_CONFIG}::regconfig, array_to_string(d."symbols" || d."themes" || d."people" || d."places", ' ')), 'B') ||
+        setweight(to_tsvector(${SEARCH_CONFIG}::regconfig, coalesce(d."content", '')), 'C') ||
+        setweight(to_tsvector(${SEARCH_CONFIG}::regconfig, coalesce((
+          SELECT string_agg(v."transcription", ' ')
+          FROM "voice_recordings" v
+          WHERE v."dreamId" = d."id" AND v."transcription" IS NOT NULL
+        ), '')), 'D')
+      WHERE ${where}
+    `;
+  }
+
+  private toHighlightHtml(headline: string): string {
+    return headline
+      .replace(/[&<>"']/g, char => HTML_ESCAPES[char])
+      .split(MATCH_START).join('<mark>')
+      .split(MATCH_STOP).join('</mark>');
+  }
+
+  // Each word must match (AND); irregular words match any of their forms (OR)
+  private buildTsQuery(query: string): Prisma.Sql | null {
+    const words = query
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}']+/u)
+      .map(word => word.replace(/^'+|'+$/g, ''))
+      .filter(Boolean)
+      .slice(0, 16);
+
+    if (words.length === 0) {
+      return null;
+    }
+
+    const groups = words.map(word => {
+      const forms = FORM_LOOKUP.get(word) || [word];
+      const alternatives = forms.map(form => Prisma.sql`plainto_tsquery(${SEARCH_CONFIG}::regconfig, ${form})`);
+      return Prisma.sql`(${Prisma.join(alternatives, ' || ')})`;
+    });
+
+    return Prisma.join(groups, ' && ');
+  }
+}
+
+export const searchService = new SearchService();
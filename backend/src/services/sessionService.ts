@@ -0,0 +1,173 @@
+import { Session } from '@prisma/client';
+import { prisma } from '../config/database';
+import { env } from '../config/env';
+import { AuthUtils } from '../utils/auth';
+
+export interface SessionContext {
+  deviceName?: string;
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export type RefreshResult =
+  | { status: 'rotated'; session: Session; refreshToken: string }
+  | { status: 'invalid' }
+  | { status: 'reused' };
+
+class SessionService {
+  async createSession(userId: string, context: SessionContext): Promise<{ session: Session; refreshToken: string }> {
+    const secret = AuthUtils.generateRefreshToken();
+
+    const session = await prisma.session.create({
+      data: {
+        userId,
+        refreshTokenHash: AuthUtils.hashToken(secret),
+        deviceName: context.deviceName,
+        userAgent: context.userAgent,
+        ipAddress: context.ipAddress,
+        expiresAt: this.getExpiry(),
+      },
+    });
+
+    return { session, refreshToken: this.formatToken(session.id, secret) };
+  }
+
+  // Exchange a refresh token for a new one. A token that was already rotated away
+  // means it leaked (or the client replayed it), so the whole session is revoked.
+  async rotate(refreshToken: string, context: SessionContext): Promise<RefreshResult> {
+    const parsed = this.parseToken(refreshToken);
+    if (!parsed) {
+      return { status: 'invalid' };
+    }
+
+    const session = await prisma.session.findUnique({ where: { id: parsed.sessionId } });
+    if (!session || session.revokedAt || session.expiresAt < new Date()) {
+      return { status: 'invalid' };
+    }
+
+    if (session.refreshTokenHash !== AuthUtils.hashToken(parsed.secret)) {
+      await this.revoke(session.id, session.userId, 'reuse_detected');
+      console.warn(`Refresh token reuse detected for session ${session.id}; session revoked`);
+      return { status: 'reused' };
+    }
+
+    const secret = AuthUtils.generateRefreshToken();
+
+    // Conditional on the old hash so two concurrent refreshes can't both succeed
+    const rotated = await prisma.session.updateMany({
+      where: {
+        id: session.id,
+        refreshTokenHash: session.refreshTokenHash,
+        revokedAt: null,
+      },
+      data: {
+        refreshTokenHash: AuthUtils.hashToken(secret),
+        lastUsedAt: new Date(),
+        expiresAt: this.getExpiry(),
+        userAgent: context.userAgent ?? session.userAgent,
+        ipAddress: context.ipAddress ?? session.ipAddress,
+      },
+    });
+
+    if (rotated.count === 0) {
+      await this.revoke(session.id, session.userId, 'reuse_detected');
+      return { status: 'reused' };
+    }
+
+    return {
+      status: 'rotated',
+      session,
+      refreshToken: this.formatToken(session.id, secret),
+    };
+  }
+
+  async isActive(sessionId: string): Promise<boolean> {
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+      select: { revokedAt: true, expiresAt: true },
+    });
+
+    return !!session && !session.revokedAt && session.expiresAt > new Date();
+  }
+
+  async listActiveSessions(userId: string) {
+    return prisma.session.findMany({
+      where: {
+        userId,
+        revokedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+      select: {
+        id: true,
+        deviceName: true,
+        userAgent: true,
+        ipAddress: true,
+        lastUsedAt: true,
+        createdAt: true,
+      },
+      orderBy: { lastUsedAt: 'desc' },
+    });
+  }
+
+  async revoke(sessionId: string, userId: string, reason: string): Promise<boolean> {
+    const result = await prisma.session.updateMany({
+      where: {
+        id: sessionId,
+        userId,
+        revokedAt: null,
+      },
+      data: {
+        revokedAt: new Date(),
+        revokedReason: reason,
+      },
+    });
+
+    return result.count > 0;
+  }
+
+  // Sign the user out everywhere, e.g. after a password change
+  async revokeAll(userId: string, reason: string): Promise<number> {
+    const result = await prisma.session.updateMany({
+      where: {
+        userId,
+        revokedAt: null,
+      },
+      data: {
+        revokedAt: new Date(),
+        revokedReason: reason,
+      },
+    });
+
+    return result.count;
+  }
+
+  // Resolve the session a refresh token belongs to, without rotating it
+  async findByToken(refreshToken: string): Promise<Session | null> {
+    const parsed = this.parseToken(refreshToken);
+    if (!parsed) {
+      return null;
+    }
+
+    const session = await prisma.session.findUnique({ where: { id: parsed.sessionId } });
+    return session && session.refreshTokenHash === AuthUtils.hashToken(parsed.secret) ? session : null;
+  }
+
+  // Tokens carry their session id so lookups don't depend on the hash alone
+  private formatToken(sessionId: string, secret: string): string {
+    return `${sessionId}.${secret}`;
+  }
+
+  private parseToken(refreshToken: string): { sessionId: string; secret: string } | null {
+    const [sessionId, secret, ...rest] = refreshToken.split('.');
+    if (!sessionId || !secret || rest.length > 0) {
+      return null;
+    }
+    return { sessionId, secret };
+  }
+
+  private getExpiry(): Date {
+    return new Date(Date.now() + env.REFRESH_TOKEN_EXPIRES_DAYS * 24 * 60 * 60 * 1000);
+  }
+}
+
+export const sessionService = new SessionService();
@@ -1,7 +1,21 @@
 import Stripe from 'stripe';
+import { Prisma, StripeEvent, StripeEventStatus } from '@prisma/client';
 import { prisma } from '../config/database';
 import { env } from '../config/env';
 import { notificationService } from './notificationService';
+import { quotaService } from './quotaService';
+
+// duplicate: already applied. in_progress: another delivery holds it, so the
+// webhook answers with an error and Stripe tries again later.
+export type WebhookResult = 'processed' | 'skipped' | 'duplicate' | 'in_progress';
+
+export type ReplayResult =
+  | { status: 'replayed'; event: StripeEvent }
+  | { status: 'not_found' }
+  | { status: 'busy' };
+
+// A delivery still PROCESSING after this long is assumed to have died with its instance
+const EVENT_PROCESSING_TIMEOUT_MS = 5 * 60 * 1000;
 
 class StripeService {
   private stripe: Stripe;
@@ -168,6 +182,39 @@ class StripeService {
     }
   }
 
+  // Undo a cancel-at-period-end before the period runs out
+  async resumeSubscription(userId: string): Promise<Stripe.Subscription> {
+    try {
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { subscriptionId: true },
+      });
+
+      if (!user?.subscriptionId) {
+        throw new Error('No active subscription found');
+      }
+
+      const subscription = await this.stripe.subscriptions.update(user.subscriptionId, {
+        cancel_at_period_end: false,
+      });
+
+      await prisma.subscription.updateMany({
+        where: {
+          userId,
+          stripeSubscriptionId: user.subscriptionId,
+        },
+        data: {
+          cancelAtPeriodEnd: false,
+        },
+      });
+
+      return subscription;
+    } catch (error) {
+      console.error('Resume subscription error:', error);
+      throw new Error('Failed to resume subscription');
+    }
+  }
+
   async updateSubscription(userId: string, newPriceId: string): Promise<Stripe.Subscription> {
     try {
       const user = await prisma.user.findUnique({
@@ -223,163 +270,343 @@ class StripeService {
     }
   }
 
-  async handleWebhook(payload: string, signature: string): Promise<void> {
-    try {
-      const event = this.stripe.webhooks.constructEvent(
-        payload,
-        signature,
-        env.STRIPE_WEBHOOK_SECRET
-      );
-
-      switch (event.type) {
-        case 'customer.subscription.created':
-        case 'customer.subscription.updated':
-          await this.handleSubscriptionUpdate(event.data.object as Stripe.Subscription);
-          break;
-
-        case 'customer.subscription.deleted':
-          await this.handleSubscriptionDeleted(event.data.object as Stripe.Subscription);
-          break;
+  // Throws when the signature doesn't match, before anything is recorded
+  constructWebhookEvent(payload: string | Buffer, signature: string): Stripe.Event {
+    return this.stripe.webhooks.constructEvent(payload, signature, env.STRIPE_WEBHOOK_SECRET);
+  }
 
-        case 'invoice.payment_succeeded':
-          await this.handlePaymentSucceeded(event.data.object as Stripe.Invoice);
-          break;
+  // Stripe delivers at least once, so the ledger decides whether this delivery
+  // still has work to do
+  async handleWebhookEvent(event: Stripe.Event): Promise<WebhookResult> {
+    if (!(await this.claimEvent(event))) {
+      const existing = await prisma.stripeEvent.findUnique({
+        where: { id: event.id },
+        select: { status: true },
+      });
+      const done = existing?.status === 'PROCESSED' || existing?.status === 'SKIPPED';
+      return done ? 'duplicate' : 'in_progress';
+    }
 
-        case 'invoice.payment_failed':
-          await this.handlePaymentFailed(event.data.object as Stripe.Invoice);
-          break;
+    return this.processEvent(event);
+  }
 
-        default:
-          console.log(`Unhandled event type: ${event.type}`);
+  // Run an event again, even one that was already applied. Events that never
+  // reached the webhook are fetched from Stripe, which keeps them for 30 days.
+  async replayEvent(eventId: string): Promise<ReplayResult> {
+    const stored = await prisma.stripeEvent.findUnique({ where: { id: eventId } });
+
+    let event: Stripe.Event;
+    if (stored) {
+      event = stored.payload as unknown as Stripe.Event;
+    } else {
+      try {
+        event = await this.stripe.events.retrieve(eventId);
+      } catch (error) {
+        if ((error as Stripe.errors.StripeError).code === 'resource_missing') {
+          return { status: 'not_found' };
+        }
+        throw error;
       }
-    } catch (error) {
-      console.error('Webhook handling error:', error);
-      throw error;
     }
-  }
 
-  private async handleSubscriptionUpdate(subscription: Stripe.Subscription): Promise<void> {
+    if (!(await this.claimEvent(event, true))) {
+      return { status: 'busy' };
+    }
+
     try {
-      const userId = subscription.metadata.userId;
-      if (!userId) return;
+      await this.processEvent(event);
+    } catch {
+      // Recorded on the ledger row returned below
+    }
 
-      const status = this.mapSubscriptionStatus(subscription.status);
+    return {
+      status: 'replayed',
+      event: await prisma.stripeEvent.findUniqueOrThrow({ where: { id: event.id } }),
+    };
+  }
 
-      // Update subscription in database
-      await prisma.subscription.upsert({
-        where: {
-          stripeSubscriptionId: subscription.id,
-        },
-        create: {
-          userId,
-          stripeSubscriptionId: subscription.id,
-          status,
-          priceId: subscription.items.data[0]?.price?.id || '',
-          currentPeriodStart: new Date((subscription as any).current_period_start * 1000),
-          currentPeriodEnd: new Date((subscription as any).current_period_end * 1000),
-          cancelAtPeriodEnd: subscription.cancel_at_period_end,
-          canceledAt: subscription.canceled_at ? new Date(subscription.canceled_at * 1000) : null,
-        },
-        update: {
-          status,
-          priceId: subscription.items.data[0]?.price?.id || '',
-          currentPeriodStart: new Date((subscription as any).current_period_start * 1000),
-          currentPeriodEnd: new Date((subscription as any).current_period_end * 1000),
-          cancelAtPeriodEnd: subscription.cancel_at_period_end,
-          canceledAt: subscription.canceled_at ? new Date(subscription.canceled_at * 1000) : null,
+  async listEvents(limit: number, status?: StripeEventStatus, type?: string) {
+    return prisma.stripeEvent.findMany({
+      where: {
+        ...(status ? { status } : {}),
+        ...(type ? { type } : {}),
+      },
+      select: {
+        id: true,
+        type: true,
+        objectId: true,
+        stripeCreatedAt: true,
+        status: true,
+        attempts: true,
+        error: true,
+        processedAt: true,
+        receivedAt: true,
+      },
+      orderBy: { receivedAt: 'desc' },
+      take: limit,
+    });
+  }
+
+  // First delivery creates the ledger row. Later ones may only take it over when
+  // the earlier attempt failed or died mid-way; a replay may also redo a finished one.
+  private async claimEvent(event: Stripe.Event, replay: boolean = false): Promise<boolean> {
+    try {
+      await prisma.stripeEvent.create({
+        data: {
+          id: event.id,
+          type: event.type,
+          objectId: (event.data.object as { id?: string }).id ?? null,
+          stripeCreatedAt: new Date(event.created * 1000),
+          payload: event as unknown as Prisma.InputJsonObject,
         },
       });
+      return true;
+    } catch (error) {
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+        throw error;
+      }
+    }
 
-      // Update user subscription status
-      await prisma.user.update({
-        where: { id: userId },
+    const staleBefore = new Date(Date.now() - EVENT_PROCESSING_TIMEOUT_MS);
+    const result = await prisma.stripeEvent.updateMany({
+      where: {
+        id: event.id,
+        OR: [
+          { status: { in: replay ? ['FAILED', 'PROCESSED', 'SKIPPED'] : ['FAILED'] } },
+          { status: 'PROCESSING', updatedAt: { lt: staleBefore } },
+        ],
+      },
+      data: {
+        status: 'PROCESSING',
+        attempts: { increment: 1 },
+        error: null,
+      },
+    });
+
+    return result.count > 0;
+  }
+
+  private async processEvent(event: Stripe.Event): Promise<'processed' | 'skipped'> {
+    try {
+      const applied = await this.applyEvent(event);
+
+      await prisma.stripeEvent.update({
+        where: { id: event.id },
         data: {
-          subscriptionStatus: status,
-          subscriptionId: subscription.id,
-          subscriptionEndsAt: new Date((subscription as any).current_period_end * 1000),
+          status: applied ? 'PROCESSED' : 'SKIPPED',
+          processedAt: new Date(),
         },
       });
 
-      // Send notification for new subscriptions
-      if (subscription.status === 'active') {
-        await notificationService.sendPushNotification(
-          userId,
-          'Welcome to Premium! 🎉',
-          'You now have access to unlimited dreams, advanced AI analysis, and pattern insights!',
-          { type: 'subscription_activated' }
-        );
-      }
+      return applied ? 'processed' : 'skipped';
     } catch (error) {
-      console.error('Handle subscription update error:', error);
+      await prisma.stripeEvent.update({
+        where: { id: event.id },
+        data: {
+          status: 'FAILED',
+          error: error instanceof Error ? error.message : String(error),
+        },
+      }).catch(updateError => console.error(`Failed to record failure of Stripe event ${event.id}:`, updateError));
+
+      throw error;
     }
   }
 
-  private async handleSubscriptionDeleted(subscription: Stripe.Subscription): Promise<void> {
-    try {
-      const userId = subscription.metadata.userId;
-      if (!userId) return;
+  // Returns false when the event had nothing to change
+  private async applyEvent(event: Stripe.Event): Promise<boolean> {
+    const eventAt = new Date(event.created * 1000);
 
-      await prisma.subscription.updateMany({
+    switch (event.type) {
+      case 'customer.subscription.created':
+      case 'customer.subscription.updated':
+        return this.handleSubscriptionUpdate(event.data.object as Stripe.Subscription, eventAt);
+
+      case 'customer.subscription.deleted':
+        return this.handleSubscriptionDeleted(event.data.object as Stripe.Subscription, eventAt);
+
+      case 'invoice.payment_succeeded':
+        return this.handlePaymentSucceeded(event.data.object as Stripe.Invoice);
+
+      case 'invoice.payment_failed':
+        return this.handlePaymentFailed(event.data.object as Stripe.Invoice);
+
+      default:
+        console.log(`Unhandled event type: ${event.type}`);
+        return false;
+    }
+  }
+
+  // Stripe doesn't deliver in order. Every subscription event carries the whole
+  // object, so the newest one wins and anything older than what was applied is
+  // dropped. Events from the same second are applied in arrival order.
+  private async handleSubscriptionUpdate(subscription: Stripe.Subscription, eventAt: Date): Promise<boolean> {
+    const userId = subscription.metadata.userId;
+    if (!userId) return false;
+
+    const status = this.mapSubscriptionStatus(subscription.status);
+    const data = this.toSubscriptionData(subscription, status, eventAt);
+
+    const updated = await prisma.subscription.updateMany({
+      where: {
+        stripeSubscriptionId: subscription.id,
+        OR: [{ lastEventAt: null }, { lastEventAt: { lte: eventAt } }],
+      },
+      data,
+    });
+
+    if (updated.count === 0) {
+      const existing = await prisma.subscription.findUnique({
         where: { stripeSubscriptionId: subscription.id },
-        data: {
-          status: 'CANCELLED',
-          canceledAt: new Date(),
-        },
+        select: { id: true },
       });
+      if (existing) {
+        return false;
+      }
 
-      await prisma.user.update({
-        where: { id: userId },
+      // Late events for an account that has since been purged
+      const user = await prisma.user.findUnique({ where: { id: userId }, select: { id: true } });
+      if (!user) {
+        return false;
+      }
+
+      await prisma.subscription.create({
         data: {
-          subscriptionStatus: 'FREE',
-          subscriptionId: null,
-          subscriptionEndsAt: null,
+          userId,
+          stripeSubscriptionId: subscription.id,
+          ...data,
         },
       });
-    } catch (error) {
-      console.error('Handle subscription deleted error:', error);
     }
+
+    // An older subscription winding down must not override the one the user is on now
+    await prisma.user.updateMany({
+      where: {
+        id: userId,
+        ...(status === 'PREMIUM' ? {} : { OR: [{ subscriptionId: null }, { subscriptionId: subscription.id }] }),
+      },
+      data: {
+        subscriptionStatus: status,
+        subscriptionId: subscription.id,
+        subscriptionEndsAt: data.currentPeriodEnd,
+      },
+    });
+
+    // Send notification for new subscriptions
+    if (subscription.status === 'active') {
+      await notificationService.sendPushNotification(
+        userId,
+        'Welcome to Premium! 🎉',
+        'You now have access to unlimited dreams, advanced AI analysis, and pattern insights!',
+        { type: 'subscription_activated' },
+        'BILLING'
+      );
+    }
+
+    return true;
   }
 
-  private async handlePaymentSucceeded(invoice: Stripe.Invoice): Promise<void> {
-    try {
-      if (!(invoice as any).subscription || !invoice.customer) return;
+  private async handleSubscriptionDeleted(subscription: Stripe.Subscription, eventAt: Date): Promise<boolean> {
+    const userId = subscription.metadata.userId;
+    if (!userId) return false;
+
+    const data = {
+      ...this.toSubscriptionData(subscription, 'CANCELLED', eventAt),
+      canceledAt: subscription.canceled_at ? new Date(subscription.canceled_at * 1000) : eventAt,
+    };
+
+    const updated = await prisma.subscription.updateMany({
+      where: {
+        stripeSubscriptionId: subscription.id,
+        OR: [{ lastEventAt: null }, { lastEventAt: { lte: eventAt } }],
+      },
+      data,
+    });
 
-      const subscription = await this.stripe.subscriptions.retrieve((invoice as any).subscription as string);
-      const userId = subscription.metadata.userId;
+    if (updated.count === 0) {
+      const existing = await prisma.subscription.findUnique({
+        where: { stripeSubscriptionId: subscription.id },
+        select: { id: true },
+      });
+      if (existing) {
+        return false;
+      }
 
-      if (!userId) return;
+      const user = await prisma.user.findUnique({ where: { id: userId }, select: { id: true } });
+      if (!user) {
+        return false;
+      }
 
-      // Reset monthly dream count on successful payment
-      await prisma.user.update({
-        where: { id: userId },
+      // Deleted before its created event arrived. The cancelled row stays as a
+      // tombstone, so the late created event is dropped as older instead of
+      // putting the user on Premium.
+      await prisma.subscription.create({
         data: {
-          dreamEntriesThisMonth: 0,
-          dreamEntriesResetAt: new Date(),
+          userId,
+          stripeSubscriptionId: subscription.id,
+          ...data,
         },
       });
-    } catch (error) {
-      console.error('Handle payment succeeded error:', error);
     }
+
+    await prisma.user.updateMany({
+      where: { id: userId, subscriptionId: subscription.id },
+      data: {
+        subscriptionStatus: 'FREE',
+        subscriptionId: null,
+        subscriptionEndsAt: null,
+      },
+    });
+
+    return true;
   }
 
-  private async handlePaymentFailed(invoice: Stripe.Invoice): Promise<void> {
-    try {
-      if (!(invoice as any).subscription) return;
+  private async handlePaymentSucceeded(invoice: Stripe.Invoice): Promise<boolean> {
+    if (!(invoice as any).subscription || !invoice.customer) return false;
 
-      const subscription = await this.stripe.subscriptions.retrieve((invoice as any).subscription as string);
-      const userId = subscription.metadata.userId;
+    const subscription = await this.stripe.subscriptions.retrieve((invoice as any).subscription as string);
+    const userId = subscription.metadata.userId;
 
-      if (!userId) return;
+    if (!userId) return false;
 
-      await notificationService.sendPushNotification(
-        userId,
-        'Payment Failed ⚠️',
-        'We couldn\'t process your payment. Please update your payment method to continue enjoying Premium features.',
-        { type: 'payment_failed' }
-      );
-    } catch (error) {
-      console.error('Handle payment failed error:', error);
-    }
+    // Each paid billing period starts a fresh usage period
+    await quotaService.resetPeriod(userId);
+
+    return true;
+  }
+
+  private async handlePaymentFailed(invoice: Stripe.Invoice): Promise<boolean> {
+    if (!(invoice as any).subscription) return false;
+
+    const subscription = await this.stripe.subscriptions.retrieve((invoice as any).subscription as string);
+    const userId = subscription.metadata.userId;
+
+    if (!userId) return false;
+
+    await notificationService.sendPushNotification(
+      userId,
+      'Payment Failed ⚠️',
+      'We couldn\'t process your payment. Please update your payment method to continue enjoying Premium features.',
+      { type: 'payment_failed' },
+      'BILLING'
+    );
+
+    return true;
+  }
+
+  private toSubscriptionData(
+    subscription: Stripe.Subscription,
+    status: 'FREE' | 'PREMIUM' | 'CANCELLED' | 'EXPIRED',
+    eventAt: Date
+  ) {
+    return {
+      status,
+      priceId: subscription.items.data[0]?.price?.id || '',
+      currentPeriodStart: new Date((subscription as any).current_period_start * 1000),
+      currentPeriodEnd: new Date((subscription as any).current_period_end * 1000),
+      cancelAtPeriodEnd: subscription.cancel_at_period_end,
+      canceledAt: subscription.canceled_at ? new Date(subscription.canceled_at * 1000) : null,
+      lastEventAt: eventAt,
+    };
   }
 
   private mapSubscriptionStatus(stripeStatus: string): 'FREE' | 'PREMIUM' | 'CANCELLED' | 'EXPIRED' {
@@ -399,6 +626,38 @@ class StripeService {
     }
   }
 
+  // Daily job: warn users whose cancelled subscription runs out soon. Renewing
+  // subscriptions are skipped since nothing is about to change for them.
+  async notifyExpiringSubscriptions(): Promise<number> {
+    const now = new Date();
+    const horizon = new Date(now.getTime() + env.SUBSCRIPTION_EXPIRY_NOTICE_DAYS * 24 * 60 * 60 * 1000);
+
+    const expiring = await prisma.subscription.findMany({
+      where: {
+        status: 'PREMIUM',
+        cancelAtPeriodEnd: true,
+        currentPeriodEnd: { gt: now, lte: horizon },
+      },
+      select: { id: true, userId: true, currentPeriodEnd: true },
+    });
+
+    let notified = 0;
+    for (const subscription of expiring) {
+      const daysLeft = Math.max(
+        Math.ceil((subscription.currentPeriodEnd.getTime() - now.getTime()) / (24 * 60 * 60 * 1000)),
+        1
+      );
+      // One notice per billing period, however often the job runs
+      const dedupeKey = `subscription-expiring:${subscription.id}:${subscription.currentPeriodEnd.toISOString()}`;
+
+      if (await notificationService.sendSubscriptionExpiringNotification(subscription.userId, daysLeft, dedupeKey)) {
+        notified++;
+      }
+    }
+
+    return notified;
+  }
+
   async getPrices(): Promise<Stripe.Price[]> {
     try {
       const prices = await this.stripe.prices.list({
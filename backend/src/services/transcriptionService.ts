@@ -0,0 +1,110 @@
+import crypto from 'crypto';
+import OpenAI, { toFile } from 'openai/index.js';
+import { env } from '../config/env';
+
+export interface TranscriptionOptions {
+  fileName: string;
+  contentType?: string;
+  language?: string;
+}
+
+export interface TranscriptionResult {
+  text: string;
+  language?: string;
+  duration?: number; // Duration in seconds, when the provider reports it
+  provider: string;
+}
+
+export interface TranscriptionProvider {
+  readonly name: string;
+  transcribe(audio: Buffer, options: TranscriptionOptions): Promise<TranscriptionResult>;
+}
+
+class WhisperTranscriptionProvider implements TranscriptionProvider {
+  readonly name = 'whisper';
+  private openai: OpenAI;
+
+  constructor() {
+    this.openai = new OpenAI({
+      apiKey: env.OPENAI_API_KEY,
+    });
+  }
+
+  async transcribe(audio: Buffer, options: TranscriptionOptions): Promise<TranscriptionResult> {
+    const file = await toFile(audio, options.fileName, {
+      type: options.contentType,
+    });
+
+    const transcription = await this.openai.audio.transcriptions.create({
+      file,
+      model: env.WHISPER_MODEL,
+      response_format: 'verbose_json',
+      language: options.language,
+    });
+
+    return {
+      text: transcription.text.trim(),
+      language: transcription.language,
+      duration: transcription.duration,
+      provider: this.name,
+    };
+  }
+}
+
+// Deterministic stand-in for tests and offline development: the same audio
+// always produces the same transcript, and nothing leaves the machine.
+class LocalTranscriptionProvider implements TranscriptionProvider {
+  readonly name = 'local';
+
+  async transcribe(audio: Buffer, options: TranscriptionOptions): Promise<TranscriptionResult> {
+    const digest = crypto.createHash('sha256').update(audio).digest('hex').substring(0, 12);
+
+    return {
+      text: `Local transcription of ${options.fileName} (${audio.length} bytes, ${digest})`,
+      language: options.language || 'en',
+      provider: this.name,
+    };
+  }
+}
+
+class TranscriptionService {
+  private provider: TranscriptionProvider;
+
+  constructor() {
+    this.provider = this.createProvider(env.TRANSCRIPTION_PROVIDER);
+  }
+
+  get providerName(): string {
+    return this.provider.name;
+  }
+
+  setProvider(provider: TranscriptionProvider): void {
+    this.provider = provider;
+  }
+
+  async transcribe(audio: Buffer, options: TranscriptionOptions): Promise<TranscriptionResult> {
+    if (audio.length === 0) {
+      throw new Error('Cannot transcribe an empty audio file');
+    }
+
+    try {
+      return await this.provider.transcribe(audio, options);
+    } catch (error) {
+      console.error(`Transcription error (${this.provider.name}):`, error);
+      throw new Error('Failed to transcribe voice recording');
+    }
+  }
+
+  private createProvider(name: string): TranscriptionProvider {
+    switch (name) {
+      case 'local':
+        return new LocalTranscriptionProvider();
+      case 'whisper':
+        return new WhisperTranscriptionProvider();
+      default:
+        throw new Error(`Unknown transcription provider: ${name}`);
+    }
+  }
+}
+
+export const transcriptionService = new TranscriptionService();
@@ -1,10 +1,14 @@
 import { Request } from 'express';
+import { SubscriptionStatus } from '@prisma/client';
 
 export interface AuthenticatedRequest extends Request {
   user?: {
     id: string;
     email: string;
-    subscriptionStatus: string;
+    subscriptionStatus: SubscriptionStatus;
+    isVerified?: boolean;
+    isAdmin?: boolean;
+    sessionId?: string;
   };
 }
 
@@ -65,4 +69,23 @@ export interface SubscriptionWebhookData {
   data: {
     object: any;
   };
-}
\ No newline at end of file
+}
+export type SyncRecordType = 'dream' | 'voiceRecording' | 'user';
+
+export interface SyncOperation {
+  id: string;
+  type: SyncRecordType;
+  action: 'create' | 'update' | 'delete';
+  data: any;
+  baseRevision?: number; // Revision the client's edit was based on
+}
+
+export interface SyncConflict {
+  type: SyncRecordType;
+  recordId: string;
+  baseRevision: number;
+  serverRevision: number;
+  clientVersion: any;
+  serverVersion: any;
+  conflictingFields: string[]; // Fields the client changed that also differ on the server
+}
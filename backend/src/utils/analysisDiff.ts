@@ -0,0 +1,140 @@
+import { DreamAnalysis } from '@prisma/client';
+
+export interface ListDiff {
+  added: string[];
+  removed: string[];
+  kept: string[];
+}
+
+// Prose is compared sentence by sentence
+export interface TextDiff {
+  from: string | null;
+  to: string | null;
+  added: string[];
+  removed: string[];
+}
+
+export interface MapDiff {
+  added: Record<string, unknown>;
+  removed: Record<string, unknown>;
+  changed: Record<string, { from: unknown; to: unknown }>;
+}
+
+export interface AnalysisVersionSummary {
+  id: string;
+  version: number;
+  analysisType: string;
+  contentHash: string | null;
+  isStale: boolean;
+  provider: string | null;
+  model: string | null;
+  createdAt: Date;
+}
+
+export interface AnalysisDiff {
+  from: AnalysisVersionSummary;
+  to: AnalysisVersionSummary;
+  contentChanged: boolean | null; // null when either version predates content hashing
+  confidence: { from: number | null; to: number | null; delta: number | null };
+  interpretation: TextDiff;
+  actionableAdvice: TextDiff;
+  symbolAnalysis: MapDiff;
+  emotionalAnalysis: MapDiff;
+  themes: ListDiff;
+  insights: ListDiff;
+  reflectionQuestions: ListDiff;
+}
+
+// Structured differences between two versions of a dream's analysis, for
+// showing them side by side
+export class AnalysisDiffUtils {
+  static compare(from: DreamAnalysis, to: DreamAnalysis): AnalysisDiff {
+    return {
+      from: this.summarize(from),
+      to: this.summarize(to),
+      contentChanged: from.contentHash && to.contentHash ? from.contentHash !== to.contentHash : null,
+      confidence: {
+        from: from.confidence,
+        to: to.confidence,
+        delta: from.confidence !== null && to.confidence !== null
+          ? Math.round((to.confidence - from.confidence) * 1000) / 1000
+          : null,
+      },
+      interpretation: this.compareText(from.interpretation, to.interpretation),
+      actionableAdvice: this.compareText(from.actionableAdvice, to.actionableAdvice),
+      symbolAnalysis: this.compareMaps(from.symbolAnalysis, to.symbolAnalysis),
+      emotionalAnalysis: this.compareMaps(from.emotionalAnalysis, to.emotionalAnalysis),
+      themes: this.compareLists(from.themes, to.themes),
+      insights: this.compareLists(from.insights, to.insights),
+      reflectionQuestions: this.compareLists(from.reflectionQuestions, to.reflectionQuestions),
+    };
+  }
+
+  private static summarize(analysis: DreamAnalysis): AnalysisVersionSummary {
+    return {
+      id: analysis.id,
+      version: analysis.version,
+      analysisType: analysis.analysisType,
+      contentHash: analysis.contentHash,
+      isStale: analysis.isStale,
+      provider: analysis.provider,
+      model: analysis.model,
+      createdAt: analysis.createdAt,
+    };
+  }
+
+  // Entries match regardless of case and surrounding whitespace
+  private static compareLists(from: string[], to: string[]): ListDiff {
+    const fromKeys = new Set(from.map(this.normalize));
+    const toKeys = new Set(to.map(this.normalize));
+
+    return {
+      added: to.filter(item => !fromKeys.has(this.normalize(item))),
+      removed: from.filter(item => !toKeys.has(this.normalize(item))),
+      kept: to.filter(item => fromKeys.has(this.normalize(item))),
+    };
+  }
+
+  private static compareText(from: string | null, to: string | null): TextDiff {
+    const { added, removed } = this.compareLists(this.sentences(from), this.sentences(to));
+    return { from, to, added, removed };
+  }
+
+  private static compareMaps(from: unknown, to: unknown): MapDiff {
+    const before = this.asRecord(from);
+    const after = this.asRecord(to);
+    const diff: MapDiff = { added: {}, removed: {}, changed: {} };
+
+    for (const [key, value] of Object.entries(after)) {
+      if (!(key in before)) {
+        diff.added[key] = value;
+      } else if (JSON.stringify(before[key]) !== JSON.stringify(value)) {
+        diff.changed[key] = { from: before[key], to: value };
+      }
+    }
+    for (const [key, value] of Object.entries(before)) {
+      if (!(key in after)) {
+        diff.removed[key] = value;
+      }
+    }
+
+    return diff;
+  }
+
+  private static sentences(text: string | null): string[] {
+    return (text ?? '')
+      .split(/(?<=[.!?])\s+/)
+      .map(sentence => sentence.trim())
+      .filter(sentence => sentence.length > 0);
+  }
+
+  private static normalize(value: string): string {
+    return value.trim().toLowerCase();
+  }
+
+  private static asRecord(value: unknown): Record<string, unknown> {
+    return value && typeof value === 'object' && !Array.isArray(value)
+      ? value as Record<string, unknown>
+      : {};
+  }
+}
@@ -1,3 +1,4 @@
+import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
 import bcrypt from 'bcryptjs';
 import { env } from '../config/env';
@@ -6,6 +7,7 @@ export interface TokenPayload {
   userId: string;
   email: string;
   subscriptionStatus: string;
+  sessionId?: string;
 }
 
 export class AuthUtils {
@@ -41,46 +43,21 @@ export class AuthUtils {
     }
   }
 
+  // Opaque random secret; only its hash is stored server-side
   static generateRefreshToken(): string {
-    return jwt.sign({}, env.JWT_SECRET, {
-      expiresIn: '30d',
-      issuer: 'dream-journal-pro',
-    });
+    return crypto.randomBytes(32).toString('base64url');
   }
 
-  static generateResetToken(): string {
-    return jwt.sign({}, env.JWT_SECRET, {
-      expiresIn: '1h',
-      issuer: 'dream-journal-pro-reset',
-    });
+  static hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
   }
 
-  static verifyResetToken(token: string): boolean {
-    try {
-      jwt.verify(token, env.JWT_SECRET, {
-        issuer: 'dream-journal-pro-reset',
-      });
-      return true;
-    } catch (error) {
-      return false;
-    }
+  // Single-use codes sent by email; like refresh tokens, only their hashes are stored
+  static generateResetToken(): string {
+    return crypto.randomBytes(32).toString('base64url');
   }
 
   static generateVerificationToken(): string {
-    return jwt.sign({}, env.JWT_SECRET, {
-      expiresIn: '24h',
-      issuer: 'dream-journal-pro-verify',
-    });
-  }
-
-  static verifyVerificationToken(token: string): boolean {
-    try {
-      jwt.verify(token, env.JWT_SECRET, {
-        issuer: 'dream-journal-pro-verify',
-      });
-      return true;
-    } catch (error) {
-      return false;
-    }
+    return crypto.randomBytes(32).toString('base64url');
   }
 }
\ No newline at end of file
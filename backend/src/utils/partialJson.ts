@@ -0,0 +1,128 @@
+export interface PartialObject {
+  values: Record<string, unknown>; // Top-level keys whose values have fully arrived
+  partial: { key: string; text: string } | null; // A string value still being written
+}
+
+const WHITESPACE = ' \t\r\n';
+
+// Reads a JSON object that is still arriving, for showing a streamed model reply
+// before it is complete. Only the top level is split up; nested values are
+// reported once they close.
+export class PartialJsonUtils {
+  static readObject(text: string): PartialObject {
+    const result: PartialObject = { values: {}, partial: null };
+
+    let index = text.indexOf('{');
+    if (index < 0) {
+      return result;
+    }
+    index++;
+
+    while (true) {
+      index = this.skip(text, index, WHITESPACE + ',');
+      if (text[index] !== '"') {
+        return result; // End of the object, or the key hasn't started yet
+      }
+
+      const keyEnd = this.findStringEnd(text, index);
+      if (keyEnd < 0) {
+        return result;
+      }
+      const key: string = JSON.parse(text.substring(index, keyEnd));
+
+      index = this.skip(text, keyEnd, WHITESPACE);
+      if (text[index] !== ':') {
+        return result;
+      }
+      index = this.skip(text, index + 1, WHITESPACE);
+      if (index >= text.length) {
+        return result;
+      }
+
+      const valueEnd = this.findValueEnd(text, index);
+      if (valueEnd < 0) {
+        if (text[index] === '"') {
+          result.partial = { key, text: this.decodePartialString(text.substring(index + 1)) };
+        }
+        return result;
+      }
+
+      try {
+        result.values[key] = JSON.parse(text.substring(index, valueEnd));
+      } catch {
+        return result;
+      }
+      index = valueEnd;
+    }
+  }
+
+  private static skip(text: string, index: number, characters: string): number {
+    while (index < text.length && characters.includes(text[index])) {
+      index++;
+    }
+    return index;
+  }
+
+  // Index just past the closing quote of the string starting at `start`, or -1
+  private static findStringEnd(text: string, start: number): number {
+    for (let index = start + 1; index < text.length; index++) {
+      if (text[index] === '\\') {
+        index++;
+      } else if (text[index] === '"') {
+        return index + 1;
+      }
+    }
+    return -1;
+  }
+
+  // Index just past the value starting at `start`, or -1 while it is incomplete
+  private static findValueEnd(text: string, start: number): number {
+    const first = text[start];
+
+    if (first === '"') {
+      return this.findStringEnd(text, start);
+    }
+
+    if (first === '{' || first === '[') {
+      let depth = 0;
+      for (let index = start; index < text.length; index++) {
+        const character = text[index];
+        if (character === '"') {
+          index = this.findStringEnd(text, index) - 1;
+          if (index < 0) {
+            return -1;
+          }
+        } else if (character === '{' || character === '[') {
+          depth++;
+        } else if (character === '}' || character === ']') {
+          depth--;
+          if (depth === 0) {
+            return index + 1;
+          }
+        }
+      }
+      return -1;
+    }
+
+    // Numbers, booleans and null end at the next delimiter; until one arrives
+    // a number could still be growing
+    for (let index = start; index < text.length; index++) {
+      if ((WHITESPACE + ',}]').includes(text[index])) {
+        return index;
+      }
+    }
+    return -1;
+  }
+
+  // The text so far, minus an escape sequence that was cut in half
+  private static decodePartialString(raw: string): string {
+    for (let trim = 0; trim <= 6 && trim <= raw.length; trim++) {
+      try {
+        return JSON.parse(`"${raw.substring(0, raw.length - trim)}"`);
+      } catch {
+        // Try again without the last character
+      }
+    }
+    return '';
+  }
+}
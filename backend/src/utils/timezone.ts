@@ -0,0 +1,97 @@
+export interface ZonedDateTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+export class TimezoneUtils {
+  private static formatters = new Map<string, Intl.DateTimeFormat>();
+
+  static isValidTimeZone(timeZone: string): boolean {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  // Unknown zones fall back to UTC rather than breaking whoever asked
+  static resolveTimeZone(timeZone: string | null | undefined): string {
+    return timeZone && this.isValidTimeZone(timeZone) ? timeZone : 'UTC';
+  }
+
+  // Wall-clock reading of an instant in the given zone
+  static getZonedParts(date: Date, timeZone: string): ZonedDateTime {
+    const parts: Record<string, number> = {};
+    for (const part of this.getFormatter(timeZone).formatToParts(date)) {
+      if (part.type !== 'literal') {
+        parts[part.type] = Number(part.value);
+      }
+    }
+
+    return {
+      year: parts.year,
+      month: parts.month,
+      day: parts.day,
+      hour: parts.hour,
+      minute: parts.minute,
+    };
+  }
+
+  // Minutes the zone is ahead of UTC at that instant
+  static getOffsetMinutes(date: Date, timeZone: string): number {
+    const local = this.getZonedParts(date, timeZone);
+    const localAsUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute);
+    return Math.round((localAsUtc - Math.floor(date.getTime() / 60000) * 60000) / 60000);
+  }
+
+  // The instant a wall-clock time happens in the zone. The offsets a day either
+  // side cover any DST change in between: a repeated time resolves to its first
+  // occurrence, and a skipped time moves forward by the length of the gap.
+  static zonedTimeToUtc(local: ZonedDateTime, timeZone: string): Date {
+    const localAsUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute);
+    const day = 24 * 60 * 60 * 1000;
+
+    const candidates = [localAsUtc - day, localAsUtc + day]
+      .map(probe => localAsUtc - this.getOffsetMinutes(new Date(probe), timeZone) * 60000)
+      .sort((a, b) => a - b);
+    const exact = candidates.find(candidate => this.matches(new Date(candidate), local, timeZone));
+
+    return new Date(exact ?? candidates[candidates.length - 1]);
+  }
+
+  // YYYY-MM-DD of the calendar day, shifted by whole days when asked
+  static formatDate(local: ZonedDateTime, dayOffset = 0): string {
+    const date = new Date(Date.UTC(local.year, local.month - 1, local.day + dayOffset));
+    return date.toISOString().slice(0, 10);
+  }
+
+  private static matches(date: Date, local: ZonedDateTime, timeZone: string): boolean {
+    const parts = this.getZonedParts(date, timeZone);
+    return parts.year === local.year
+      && parts.month === local.month
+      && parts.day === local.day
+      && parts.hour === local.hour
+      && parts.minute === local.minute;
+  }
+
+  private static getFormatter(timeZone: string): Intl.DateTimeFormat {
+    let formatter = this.formatters.get(timeZone);
+    if (!formatter) {
+      formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+      });
+      this.formatters.set(timeZone, formatter);
+    }
+    return formatter;
+  }
+}
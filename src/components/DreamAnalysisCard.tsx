@@ -11,8 +11,61 @@ import {
 import { Ionicons } from '@expo/vector-icons';
 import { DreamEntry, DreamAnalysis } from '../types/dream';
 import { getOpenAIService, generateMockAnalysis } from '../services/openAIService';
+import { apiClient, ServerDreamAnalysis } from '../services/apiClient';
 import { useDreamStore } from '../store/dreamStore';
 
+const JOB_POLL_INTERVAL_MS = 2000;
+
+// Fits the server's analysis into the card's sections; also used for the
+// partial analysis while it streams in
+const toCardAnalysis = (analysis: Partial<ServerDreamAnalysis>): Partial<DreamAnalysis> => {
+  const card: Partial<DreamAnalysis> = {};
+
+  if (analysis.symbolAnalysis) {
+    card.symbolicLandscape = Object.entries(analysis.symbolAnalysis)
+      .map(([symbol, meaning]) => `${symbol}: ${meaning}`)
+      .join('\n');
+  }
+  if (analysis.emotionalAnalysis) {
+    card.emotionalUndercurrent = Object.values(analysis.emotionalAnalysis).join('\n\n');
+  }
+  if (analysis.interpretation !== undefined) {
+    card.lifeIntegration = analysis.interpretation;
+  }
+  if (analysis.insights) {
+    card.personalPatterns = analysis.insights.join('\n');
+  }
+  if (analysis.reflectionQuestions) {
+    card.soulQuestions = analysis.reflectionQuestions;
+  }
+  if (analysis.actionableAdvice) {
+    card.integrationPractice = analysis.actionableAdvice;
+  }
+  if (analysis.confidence !== undefined) {
+    card.confidence = analysis.confidence;
+  }
+  if (analysis.processingTime) {
+    card.processingTime = analysis.processingTime;
+  }
+
+  return card;
+};
+
+// A worker was already running this analysis, so wait for it to finish
+const waitForJob = async (jobId: string): Promise<ServerDreamAnalysis> => {
+  while (true) {
+    await new Promise((resolve) => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+    const { job, analysis } = await apiClient.getAnalysisJob(jobId);
+
+    if (job.status === 'COMPLETED' && analysis) {
+      return analysis;
+    }
+    if (job.status === 'DEAD_LETTER') {
+      throw new Error(job.error || 'Analysis failed');
+    }
+  }
+};
+
 interface DreamAnalysisCardProps {
   dream: DreamEntry;
 }
@@ -21,27 +74,50 @@ const DreamAnalysisCard: React.FC<DreamAnalysisCardProps> = ({ dream }) => {
   const colorScheme = useColorScheme();
   const isDark = colorScheme === 'dark';
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [streamed, setStreamed] = useState<Partial<ServerDreamAnalysis>>({});
   const [analysis, setAnalysis] = useState<DreamAnalysis | null>(
     dream.aiInterpretation ? JSON.parse(dream.aiInterpretation) : null
   );
   const { updateDreamAnalysis } = useDreamStore();
 
-  const performAnalysis = async () => {
+  // The server analysis streams in section by section; the card keeps showing
+  // what has arrived until the stored analysis replaces it
+  const streamServerAnalysis = async (regenerate: boolean): Promise<DreamAnalysis> => {
+    const result = await apiClient.streamDreamAnalysis(dream.id, 'BASIC', {
+      onInterpretation: (delta) =>
+        setStreamed((current) => ({ ...current, interpretation: (current.interpretation ?? '') + delta })),
+      onSection: (field, value) => setStreamed((current) => ({ ...current, [field]: value })),
+    }, regenerate);
+
+    const serverAnalysis = result.status === 'complete' ? result.analysis : await waitForJob(result.jobId);
+    return toCardAnalysis(serverAnalysis) as DreamAnalysis;
+  };
+
+  // regenerate asks the server for a new version instead of the one it has
+  const performAnalysis = async (regenerate: boolean = false) => {
     if (isAnalyzing) return;
     
     setIsAnalyzing(true);
+    setStreamed({});
     
     try {
-      // Try to use OpenAI service, fallback to mock analysis
+      // Prefer the server, then the on-device OpenAI service, then mock analysis
       let dreamAnalysis: DreamAnalysis;
       
       try {
-        const openAIService = getOpenAIService();
-        dreamAnalysis = await openAIService.analyzeDream(dream);
-      } catch (error) {
-        // Fallback to mock analysis if OpenAI service isn't configured
-        console.log('Using mock analysis (OpenAI not configured)');
-        dreamAnalysis = await generateMockAnalysis(dream);
+        dreamAnalysis = await streamServerAnalysis(regenerate);
+      } catch (serverError) {
+        console.log('Server analysis unavailable, analyzing on device:', serverError);
+        setStreamed({});
+
+        try {
+          const openAIService = getOpenAIService();
+          dreamAnalysis = await openAIService.analyzeDream(dream);
+        } catch (error) {
+          // Fallback to mock analysis if OpenAI service isn't configured
+          console.log('Using mock analysis (OpenAI not configured)');
+          dreamAnalysis = await generateMockAnalysis(dream);
+        }
       }
       
       setAnalysis(dreamAnalysis);
@@ -54,6 +130,7 @@ const DreamAnalysisCard: React.FC<DreamAnalysisCardProps> = ({ dream }) => {
         'Unable to analyze dream at this time. Please try again later.'
       );
     } finally {
+      setStreamed({});
       setIsAnalyzing(false);
     }
   };
@@ -64,118 +141,138 @@ const DreamAnalysisCard: React.FC<DreamAnalysisCardProps> = ({ dream }) => {
       'This will create a new AI analysis of your dream. Continue?',
       [
         { text: 'Cancel', style: 'cancel' },
-        { text: 'Regenerate', onPress: performAnalysis }
+        { text: 'Regenerate', onPress: () => performAnalysis(true) }
       ]
     );
   };
 
-  const renderAnalysisContent = () => {
-    if (!analysis) return null;
-
+  // Sections show up one by one while the analysis streams in
+  const renderAnalysisContent = (content: Partial<DreamAnalysis>, isStreaming: boolean) => {
     return (
       <View style={styles.analysisContent}>
         {/* Symbolic Landscape */}
-        <View style={styles.analysisSection}>
-          <View style={styles.sectionHeader}>
-            <Ionicons name="sparkles" size={16} color="#8b5cf6" />
-            <Text style={[styles.sectionTitle, { color: isDark ? '#ffffff' : '#000000' }]}>
-              Symbolic Landscape
+        {content.symbolicLandscape !== undefined && (
+          <View style={styles.analysisSection}>
+            <View style={styles.sectionHeader}>
+              <Ionicons name="sparkles" size={16} color="#8b5cf6" />
+              <Text style={[styles.sectionTitle, { color: isDark ? '#ffffff' : '#000000' }]}>
+                Symbolic Landscape
+              </Text>
+            </View>
+            <Text style={[styles.analysisText, { color: isDark ? '#d1d5db' : '#374151' }]}>
+              {content.symbolicLandscape}
             </Text>
           </View>
-          <Text style={[styles.analysisText, { color: isDark ? '#d1d5db' : '#374151' }]}>
-            {analysis.symbolicLandscape}
-          </Text>
-        </View>
+        )}
 
         {/* Emotional Undercurrent */}
-        <View style={styles.analysisSection}>
-          <View style={styles.sectionHeader}>
-            <Ionicons name="heart" size={16} color="#ef4444" />
-            <Text style={[styles.sectionTitle, { color: isDark ? '#ffffff' : '#000000' }]}>
-              Emotional Undercurrent
+        {content.emotionalUndercurrent !== undefined && (
+          <View style={styles.analysisSection}>
+            <View style={styles.sectionHeader}>
+              <Ionicons name="heart" size={16} color="#ef4444" />
+              <Text style={[styles.sectionTitle, { color: isDark ? '#ffffff' : '#000000' }]}>
+                Emotional Undercurrent
+              </Text>
+            </View>
+            <Text style={[styles.analysisText, { color: isDark ? '#d1d5db' : '#374151' }]}>
+              {content.emotionalUndercurrent}
             </Text>
           </View>
-          <Text style={[styles.analysisText, { color: isDark ? '#d1d5db' : '#374151' }]}>
-            {analysis.emotionalUndercurrent}
-          </Text>
-        </View>
+        )}
 
         {/* Life Integration */}
-        <View style={styles.analysisSection}>
-          <View style={styles.sectionHeader}>
-            <Ionicons name="leaf" size={16} color="#10b981" />
-            <Text style={[styles.sectionTitle, { color: isDark ? '#ffffff' : '#000000' }]}>
-              Life Integration
+        {content.lifeIntegration !== undefined && (
+          <View style={styles.analysisSection}>
+            <View style={styles.sectionHeader}>
+              <Ionicons name="leaf" size={16} color="#10b981" />
+              <Text style={[styles.sectionTitle, { color: isDark ? '#ffffff' : '#000000' }]}>
+                Life Integration
+              </Text>
+            </View>
+            <Text style={[styles.analysisText, { color: isDark ? '#d1d5db' : '#374151' }]}>
+              {content.lifeIntegration}
             </Text>
           </View>
-          <Text style={[styles.analysisText, { color: isDark ? '#d1d5db' : '#374151' }]}>
-            {analysis.lifeIntegration}
-          </Text>
-        </View>
+        )}
 
         {/* Personal Patterns */}
-        <View style={styles.analysisSection}>
-          <View style={styles.sectionHeader}>
-            <Ionicons name="trending-up" size={16} color="#6366f1" />
-            <Text style={[styles.sectionTitle, { color: isDark ? '#ffffff' : '#000000' }]}>
-              Personal Patterns
+        {content.personalPatterns !== undefined && (
+          <View style={styles.analysisSection}>
+            <View style={styles.sectionHeader}>
+              <Ionicons name="trending-up" size={16} color="#6366f1" />
+              <Text style={[styles.sectionTitle, { color: isDark ? '#ffffff' : '#000000' }]}>
+                Personal Patterns
+              </Text>
+            </View>
+            <Text style={[styles.analysisText, { color: isDark ? '#d1d5db' : '#374151' }]}>
+              {content.personalPatterns}
             </Text>
           </View>
-          <Text style={[styles.analysisText, { color: isDark ? '#d1d5db' : '#374151' }]}>
-            {analysis.personalPatterns}
-          </Text>
-        </View>
+        )}
 
         {/* Soul Questions */}
-        <View style={styles.analysisSection}>
-          <View style={styles.sectionHeader}>
-            <Ionicons name="help-circle" size={16} color="#f59e0b" />
-            <Text style={[styles.sectionTitle, { color: isDark ? '#ffffff' : '#000000' }]}>
-              Soul Questions
-            </Text>
-          </View>
-          <View style={styles.questionsList}>
-            {analysis.soulQuestions.map((question, index) => (
-              <View key={index} style={styles.questionItem}>
-                <Text style={[styles.questionBullet, { color: isDark ? '#9ca3af' : '#6b7280' }]}>
-                  •
-                </Text>
-                <Text style={[styles.questionText, { color: isDark ? '#d1d5db' : '#374151' }]}>
-                  {question}
-                </Text>
-              </View>
-            ))}
+        {content.soulQuestions !== undefined && (
+          <View style={styles.analysisSection}>
+            <View style={styles.sectionHeader}>
+              <Ionicons name="help-circle" size={16} color="#f59e0b" />
+              <Text style={[styles.sectionTitle, { color: isDark ? '#ffffff' : '#000000' }]}>
+                Soul Questions
+              </Text>
+            </View>
+            <View style={styles.questionsList}>
+              {content.soulQuestions.map((question, index) => (
+                <View key={index} style={styles.questionItem}>
+                  <Text style={[styles.questionBullet, { color: isDark ? '#9ca3af' : '#6b7280' }]}>
+                    •
+                  </Text>
+                  <Text style={[styles.questionText, { color: isDark ? '#d1d5db' : '#374151' }]}>
+                    {question}
+                  </Text>
+                </View>
+              ))}
+            </View>
           </View>
-        </View>
+        )}
 
         {/* Integration Practice */}
-        <View style={styles.analysisSection}>
-          <View style={styles.sectionHeader}>
-            <Ionicons name="compass" size={16} color="#06b6d4" />
-            <Text style={[styles.sectionTitle, { color: isDark ? '#ffffff' : '#000000' }]}>
-              Integration Practice
-            </Text>
+        {content.integrationPractice !== undefined && (
+          <View style={styles.analysisSection}>
+            <View style={styles.sectionHeader}>
+              <Ionicons name="compass" size={16} color="#06b6d4" />
+              <Text style={[styles.sectionTitle, { color: isDark ? '#ffffff' : '#000000' }]}>
+                Integration Practice
+              </Text>
+            </View>
+            <View style={[styles.practiceCard, { backgroundColor: isDark ? '#1e40af' : '#dbeafe' }]}>
+              <Text style={[styles.practiceText, { color: isDark ? '#dbeafe' : '#1e40af' }]}>
+                {content.integrationPractice}
+              </Text>
+            </View>
           </View>
-          <View style={[styles.practiceCard, { backgroundColor: isDark ? '#1e40af' : '#dbeafe' }]}>
-            <Text style={[styles.practiceText, { color: isDark ? '#dbeafe' : '#1e40af' }]}>
-              {analysis.integrationPractice}
-            </Text>
-          </View>
-        </View>
+        )}
 
         {/* Analysis Metadata */}
-        <View style={styles.metadataRow}>
-          <View style={styles.metadataItem}>
-            <Ionicons name="checkmark-circle" size={14} color="#10b981" />
+        {isStreaming ? (
+          <View style={styles.streamingRow}>
+            <ActivityIndicator size="small" color="#6366f1" />
             <Text style={[styles.metadataText, { color: isDark ? '#9ca3af' : '#6b7280' }]}>
-              {Math.round(analysis.confidence * 100)}% confidence
+              Still writing...
             </Text>
           </View>
-          <TouchableOpacity style={styles.regenerateButton} onPress={regenerateAnalysis}>
-            <Ionicons name="refresh" size={14} color="#6366f1" />
-            <Text style={styles.regenerateText}>Regenerate</Text>
-          </TouchableOpacity>
-        </View>
+        ) : (
+          <View style={styles.metadataRow}>
+            <View style={styles.metadataItem}>
+              <Ionicons name="checkmark-circle" size={14} color="#10b981" />
+              <Text style={[styles.metadataText, { color: isDark ? '#9ca3af' : '#6b7280' }]}>
+                {Math.round((content.confidence ?? 0) * 100)}% confidence
+              </Text>
+            </View>
+            <TouchableOpacity style={styles.regenerateButton} onPress={regenerateAnalysis}>
+              <Ionicons name="refresh" size={14} color="#6366f1" />
+              <Text style={styles.regenerateText}>Regenerate</Text>
+            </TouchableOpacity>
+          </View>
+        )}
       </View>
     );
   };
@@ -196,7 +293,9 @@ const DreamAnalysisCard: React.FC<DreamAnalysisCardProps> = ({ dream }) => {
         )}
       </View>
 
-      {isAnalyzing ? (
+      {isAnalyzing && Object.keys(streamed).length > 0 ? (
+        renderAnalysisContent(toCardAnalysis(streamed), true)
+      ) : isAnalyzing ? (
         <View style={styles.loadingContainer}>
           <ActivityIndicator size="large" color="#6366f1" />
           <Text style={[styles.loadingText, { color: isDark ? '#9ca3af' : '#6b7280' }]}>
@@ -207,7 +306,7 @@ const DreamAnalysisCard: React.FC<DreamAnalysisCardProps> = ({ dream }) => {
           </Text>
         </View>
       ) : analysis ? (
-        renderAnalysisContent()
+        renderAnalysisContent(analysis, false)
       ) : (
         <View style={styles.emptyContainer}>
           <Ionicons name="bulb-outline" size={48} color={isDark ? '#4b5563' : '#d1d5db'} />
@@ -219,7 +318,7 @@ const DreamAnalysisCard: React.FC<DreamAnalysisCardProps> = ({ dream }) => {
           </Text>
           <TouchableOpacity
             style={styles.analyzeButton}
-            onPress={performAnalysis}
+            onPress={() => performAnalysis()}
             disabled={isAnalyzing}
           >
             <Ionicons name="sparkles" size={20} color="#ffffff" />
@@ -366,6 +465,13 @@ const styles = StyleSheet.create({
     borderTopWidth: 1,
     borderTopColor: '#e5e7eb',
   },
+  streamingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 8,
+    paddingTop: 16,
+  },
   metadataItem: {
     flexDirection: 'row',
     alignItems: 'center',
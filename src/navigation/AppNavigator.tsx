@@ -12,23 +12,31 @@ import DreamDetailScreen from '../screens/DreamDetailScreen';
 import AnalyticsScreen from '../screens/AnalyticsScreen';
 import PatternsScreen from '../screens/PatternsScreen';
 import SettingsScreen from '../screens/SettingsScreen';
+import NotificationHistoryScreen from '../screens/NotificationHistoryScreen';
 import { LoginScreen } from '../screens/LoginScreen';
 import { RegisterScreen } from '../screens/RegisterScreen';
+import { ForgotPasswordScreen } from '../screens/ForgotPasswordScreen';
+import { ResetPasswordScreen } from '../screens/ResetPasswordScreen';
 
 // Store
 import { useAuthStore } from '../store/authStore';
 import { useDreamStore } from '../store/dreamStore';
+import syncService from '../services/syncService';
+import notificationService from '../services/notificationService';
 
 // Navigation types
 export type RootStackParamList = {
   MainTabs: undefined;
   DreamDetail: { dreamId: string };
   DreamEntry: { dreamId?: string };
+  NotificationHistory: undefined;
 };
 
 export type AuthStackParamList = {
   Login: undefined;
   Register: undefined;
+  ForgotPassword: undefined;
+  ResetPassword: { email?: string; token?: string };
 };
 
 export type TabParamList = {
@@ -143,6 +151,7 @@ const AuthNavigator = () => {
         {({ navigation }) => (
           <LoginScreen 
             onNavigateToRegister={() => navigation.navigate('Register')} 
+            onNavigateToForgotPassword={() => navigation.navigate('ForgotPassword')}
           />
         )}
       </AuthStack.Screen>
@@ -153,6 +162,24 @@ const AuthNavigator = () => {
           />
         )}
       </AuthStack.Screen>
+      <AuthStack.Screen name="ForgotPassword">
+        {({ navigation }) => (
+          <ForgotPasswordScreen
+            onCodeSent={(email) => navigation.navigate('ResetPassword', { email })}
+            onNavigateToLogin={() => navigation.navigate('Login')}
+          />
+        )}
+      </AuthStack.Screen>
+      <AuthStack.Screen name="ResetPassword">
+        {({ navigation, route }) => (
+          <ResetPasswordScreen
+            email={route.params?.email}
+            initialCode={route.params?.token}
+            onPasswordReset={() => navigation.navigate('Login')}
+            onRequestNewCode={() => navigation.navigate('ForgotPassword')}
+          />
+        )}
+      </AuthStack.Screen>
     </AuthStack.Navigator>
   );
 };
@@ -163,11 +190,14 @@ const AppNavigator = () => {
   const { isAuthenticated, isLoading } = useAuthStore();
   const { fetchDreams } = useDreamStore();
 
-  // Fetch dreams when user becomes authenticated
+  // Fetch dreams, register for push and keep them in sync while the user is authenticated
   useEffect(() => {
     if (isAuthenticated) {
       fetchDreams().catch(console.error);
+      notificationService.registerDevice();
+      syncService.start();
     }
+    return () => syncService.stop();
   }, [isAuthenticated, fetchDreams]);
 
   // Show loading screen while checking authentication
@@ -231,6 +261,21 @@ const AppNavigator = () => {
               },
             }}
           />
+          <Stack.Screen
+            name="NotificationHistory"
+            component={NotificationHistoryScreen}
+            options={{
+              headerShown: true,
+              title: 'Notification History',
+              headerStyle: {
+                backgroundColor: isDark ? '#1f2937' : '#ffffff',
+              },
+              headerTintColor: isDark ? '#ffffff' : '#000000',
+              headerTitleStyle: {
+                fontWeight: '600',
+              },
+            }}
+          />
         </Stack.Navigator>
       ) : (
         <AuthNavigator />
@@ -23,7 +23,7 @@ const DreamListScreen = () => {
   const navigation = useNavigation<NavigationProp>();
   const colorScheme = useColorScheme();
   const isDark = colorScheme === 'dark';
-  const { dreams, searchDreams, filterDreams } = useDreamStore();
+  const { dreams, outbox, searchDreams, filterDreams, getSyncStatus, retryFailedOperations } = useDreamStore();
   const [searchQuery, setSearchQuery] = useState('');
   const [filters, setFilters] = useState<DreamFilters>({});
 
@@ -55,6 +55,7 @@ const DreamListScreen = () => {
   };
   
   const filteredDreams = getFilteredDreams();
+
   const hasActiveFilters = Object.values(filters).some(Boolean);
   
   const clearFilters = () => {
@@ -82,91 +83,110 @@ const DreamListScreen = () => {
     return text.substring(0, maxLength).trim() + '...';
   };
 
-  const renderDreamItem = ({ item }: { item: DreamEntry }) => (
-    <TouchableOpacity
-      style={[
-        styles.dreamCard,
-        { backgroundColor: isDark ? '#1f2937' : '#ffffff' },
-      ]}
-      onPress={() => navigation.navigate('DreamDetail', { dreamId: item.id })}
-    >
-      <View style={styles.dreamHeader}>
-        <Text
-          style={[
-            styles.dreamTitle,
-            { color: isDark ? '#ffffff' : '#000000' },
-          ]}
-          numberOfLines={1}
-        >
-          {item.title}
-        </Text>
-        <View style={styles.dreamMeta}>
-          <Text style={[styles.dreamDate, { color: isDark ? '#9ca3af' : '#6b7280' }]}>
-            {formatDate(item.date)}
-          </Text>
-          <Text style={[styles.dreamTime, { color: isDark ? '#9ca3af' : '#6b7280' }]}>
-            {formatTime(item.date)}
-          </Text>
-        </View>
-      </View>
-      
-      <Text
+  const renderDreamItem = ({ item }: { item: DreamEntry }) => {
+    const syncStatus = getSyncStatus(item.id);
+
+    return (
+      <TouchableOpacity
         style={[
-          styles.dreamNarrative,
-          { color: isDark ? '#d1d5db' : '#374151' },
+          styles.dreamCard,
+          { backgroundColor: isDark ? '#1f2937' : '#ffffff' },
         ]}
-        numberOfLines={3}
+        onPress={() => navigation.navigate('DreamDetail', { dreamId: item.id })}
       >
-        {truncateText(item.narrative)}
-      </Text>
-      
-      <View style={styles.dreamFooter}>
-        <View style={styles.dreamStats}>
-          <View style={styles.statItem}>
-            <Ionicons name="moon" size={14} color="#6366f1" />
-            <Text style={[styles.statText, { color: isDark ? '#9ca3af' : '#6b7280' }]}>
-              Lucidity: {item.lucidity}/10
+        <View style={styles.dreamHeader}>
+          <Text
+            style={[
+              styles.dreamTitle,
+              { color: isDark ? '#ffffff' : '#000000' },
+            ]}
+            numberOfLines={1}
+          >
+            {item.title}
+          </Text>
+          <View style={styles.dreamMeta}>
+            <Text style={[styles.dreamDate, { color: isDark ? '#9ca3af' : '#6b7280' }]}>
+              {formatDate(item.date)}
             </Text>
-          </View>
-          <View style={styles.statItem}>
-            <Ionicons name="heart" size={14} color="#ef4444" />
-            <Text style={[styles.statText, { color: isDark ? '#9ca3af' : '#6b7280' }]}>
-              Sleep: {item.sleepQuality}/10
+            <Text style={[styles.dreamTime, { color: isDark ? '#9ca3af' : '#6b7280' }]}>
+              {formatTime(item.date)}
             </Text>
+            {syncStatus === 'pending' && (
+              <View style={[styles.syncBadge, styles.pendingBadge]}>
+                <Ionicons name="cloud-upload-outline" size={10} color="#ffffff" />
+                <Text style={styles.syncBadgeText}>Pending</Text>
+              </View>
+            )}
+            {syncStatus === 'failed' && (
+              <TouchableOpacity
+                style={[styles.syncBadge, styles.failedBadge]}
+                onPress={() => retryFailedOperations().catch(console.error)}
+              >
+                <Ionicons name="alert-circle-outline" size={10} color="#ffffff" />
+                <Text style={styles.syncBadgeText}>Sync failed · Retry</Text>
+              </TouchableOpacity>
+            )}
           </View>
-          {item.voiceRecordingUri && (
+        </View>
+        
+        <Text
+          style={[
+            styles.dreamNarrative,
+            { color: isDark ? '#d1d5db' : '#374151' },
+          ]}
+          numberOfLines={3}
+        >
+          {truncateText(item.narrative)}
+        </Text>
+        
+        <View style={styles.dreamFooter}>
+          <View style={styles.dreamStats}>
+            <View style={styles.statItem}>
+              <Ionicons name="moon" size={14} color="#6366f1" />
+              <Text style={[styles.statText, { color: isDark ? '#9ca3af' : '#6b7280' }]}>
+                Lucidity: {item.lucidity}/10
+              </Text>
+            </View>
             <View style={styles.statItem}>
-              <Ionicons name="mic" size={14} color="#10b981" />
+              <Ionicons name="heart" size={14} color="#ef4444" />
               <Text style={[styles.statText, { color: isDark ? '#9ca3af' : '#6b7280' }]}>
-                Voice
+                Sleep: {item.sleepQuality}/10
               </Text>
             </View>
+            {item.voiceRecordingUri && (
+              <View style={styles.statItem}>
+                <Ionicons name="mic" size={14} color="#10b981" />
+                <Text style={[styles.statText, { color: isDark ? '#9ca3af' : '#6b7280' }]}>
+                  Voice
+                </Text>
+              </View>
+            )}
+          </View>
+          
+          {item.symbols.length > 0 && (
+            <View style={styles.symbolsContainer}>
+              {item.symbols.slice(0, 3).map((symbol, index) => (
+                <View key={index} style={styles.symbolTag}>
+                  <Text style={styles.symbolText}>{symbol}</Text>
+                </View>
+              ))}
+              {item.symbols.length > 3 && (
+                <Text style={[styles.moreSymbols, { color: isDark ? '#9ca3af' : '#6b7280' }]}>
+                  +{item.symbols.length - 3} more
+                </Text>
+              )}
+            </View>
           )}
         </View>
         
-        {item.symbols.length > 0 && (
-          <View style={styles.symbolsContainer}>
-            {item.symbols.slice(0, 3).map((symbol, index) => (
-              <View key={index} style={styles.symbolTag}>
-                <Text style={styles.symbolText}>{symbol}</Text>
-              </View>
-            ))}
-            {item.symbols.length > 3 && (
-              <Text style={[styles.moreSymbols, { color: isDark ? '#9ca3af' : '#6b7280' }]}>
-                +{item.symbols.length - 3} more
-              </Text>
-            )}
+        {item.status === 'draft' && (
+          <View style={styles.draftBadge}>
+            <Text style={styles.draftText}>Draft</Text>
           </View>
         )}
-      </View>
-      
-      {item.status === 'draft' && (
-        <View style={styles.draftBadge}>
-          <Text style={styles.draftText}>Draft</Text>
-        </View>
-      )}
-    </TouchableOpacity>
-  );
+      </TouchableOpacity>
+    );
+  };
 
   const renderEmptyState = () => (
     <View style={styles.emptyState}>
@@ -230,6 +250,7 @@ const DreamListScreen = () => {
         data={filteredDreams}
         renderItem={renderDreamItem}
         keyExtractor={(item) => item.id}
+        extraData={outbox} // Refresh sync badges as queued writes land or fail
         contentContainerStyle={styles.listContainer}
         showsVerticalScrollIndicator={false}
         ListEmptyComponent={renderEmptyState}
@@ -367,6 +388,26 @@ const styles = StyleSheet.create({
     fontSize: 10,
     fontWeight: '600',
   },
+  syncBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 4,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 8,
+  },
+  pendingBadge: {
+    backgroundColor: '#6b7280',
+  },
+  failedBadge: {
+    backgroundColor: '#ef4444',
+  },
+  syncBadgeText: {
+    color: '#ffffff',
+    fontSize: 10,
+    fontWeight: '600',
+    marginLeft: 3,
+  },
   emptyState: {
     flex: 1,
     justifyContent: 'center',
@@ -16,9 +16,13 @@ import { useDreamStore } from '../store/dreamStore';
 
 interface LoginScreenProps {
   onNavigateToRegister: () => void;
+  onNavigateToForgotPassword: () => void;
 }
 
-export const LoginScreen: React.FC<LoginScreenProps> = ({ onNavigateToRegister }) => {
+export const LoginScreen: React.FC<LoginScreenProps> = ({
+  onNavigateToRegister,
+  onNavigateToForgotPassword,
+}) => {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const { login, isLoading, error, clearError } = useAuthStore();
@@ -91,6 +95,14 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ onNavigateToRegister }
               />
             </View>
 
+            <TouchableOpacity
+              style={styles.forgotPasswordButton}
+              onPress={onNavigateToForgotPassword}
+              disabled={isLoading}
+            >
+              <Text style={styles.forgotPasswordText}>Forgot password?</Text>
+            </TouchableOpacity>
+
             {error && (
               <View style={styles.errorContainer}>
                 <Text style={styles.errorText}>{error}</Text>
@@ -184,6 +196,16 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: '#374151',
   },
+  forgotPasswordButton: {
+    alignSelf: 'flex-end',
+    marginTop: -12,
+    marginBottom: 24,
+  },
+  forgotPasswordText: {
+    color: '#8B5CF6',
+    fontSize: 14,
+    fontWeight: '600',
+  },
   errorContainer: {
     backgroundColor: '#FEF2F2',
     borderColor: '#FCA5A5',
@@ -0,0 +1,251 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  FlatList,
+  StyleSheet,
+  SafeAreaView,
+  useColorScheme,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import {
+  apiClient,
+  NotificationDeliveryStatus,
+  NotificationHistoryItem,
+} from '../services/apiClient';
+
+const PAGE_SIZE = 20;
+
+const DELIVERY_BADGES: Record<
+  NotificationDeliveryStatus,
+  { label: string; color: string; icon: keyof typeof Ionicons.glyphMap }
+> = {
+  PENDING: { label: 'Sending', color: '#9ca3af', icon: 'time-outline' },
+  SENT: { label: 'Sent', color: '#f59e0b', icon: 'paper-plane-outline' },
+  DELIVERED: { label: 'Delivered', color: '#10b981', icon: 'checkmark-done-outline' },
+  FAILED: { label: 'Not delivered', color: '#ef4444', icon: 'alert-circle-outline' },
+};
+
+// Expo error codes, reworded for people
+const DELIVERY_ERRORS: Record<string, string> = {
+  DeviceNotRegistered: 'This device no longer accepts notifications from the app',
+  MessageTooBig: 'The message was too large to send',
+  MessageRateExceeded: 'Too many messages were sent to this device',
+  ReceiptUnavailable: 'Delivery could not be confirmed',
+};
+
+const NotificationHistoryScreen = () => {
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+  const [notifications, setNotifications] = useState<NotificationHistoryItem[]>([]);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPage = useCallback(async (pageToLoad: number) => {
+    try {
+      setError(null);
+      const data = await apiClient.getNotificationHistory({ page: pageToLoad, limit: PAGE_SIZE });
+      setNotifications(current =>
+        pageToLoad === 1 ? data.notifications : [...current, ...data.notifications]
+      );
+      setPage(pageToLoad);
+      setTotalPages(data.pagination.totalPages);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load notifications');
+    } finally {
+      setIsLoading(false);
+      setIsRefreshing(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPage(1);
+  }, [loadPage]);
+
+  const handleRefresh = () => {
+    setIsRefreshing(true);
+    loadPage(1);
+  };
+
+  const handleEndReached = () => {
+    if (!isLoading && page < totalPages) {
+      setIsLoading(true);
+      loadPage(page + 1);
+    }
+  };
+
+  const formatDateTime = (value: string) => {
+    return new Date(value).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+      hour12: true,
+    });
+  };
+
+  const renderNotification = ({ item }: { item: NotificationHistoryItem }) => {
+    const badge = DELIVERY_BADGES[item.deliveryStatus] ?? DELIVERY_BADGES.PENDING;
+
+    return (
+      <View style={[styles.card, { backgroundColor: isDark ? '#1f2937' : '#ffffff' }]}>
+        <View style={styles.cardHeader}>
+          <Text
+            style={[styles.title, { color: isDark ? '#ffffff' : '#000000' }]}
+            numberOfLines={1}
+          >
+            {item.title}
+          </Text>
+          <View style={[styles.badge, { backgroundColor: badge.color }]}>
+            <Ionicons name={badge.icon} size={10} color="#ffffff" />
+            <Text style={styles.badgeText}>{badge.label}</Text>
+          </View>
+        </View>
+
+        <Text style={[styles.body, { color: isDark ? '#d1d5db' : '#374151' }]}>
+          {item.body}
+        </Text>
+
+        {item.deliveryError && (
+          <Text style={styles.errorText}>
+            {DELIVERY_ERRORS[item.deliveryError] ?? item.deliveryError}
+          </Text>
+        )}
+
+        <Text style={[styles.meta, { color: isDark ? '#9ca3af' : '#6b7280' }]}>
+          {formatDateTime(item.sentAt ?? item.createdAt)}
+          {item.opened ? ' · Opened' : ''}
+        </Text>
+      </View>
+    );
+  };
+
+  const renderEmptyState = () => {
+    if (isLoading) {
+      return null;
+    }
+
+    return (
+      <View style={styles.emptyState}>
+        <Ionicons
+          name={error ? 'cloud-offline-outline' : 'notifications-off-outline'}
+          size={64}
+          color={isDark ? '#4b5563' : '#d1d5db'}
+        />
+        <Text style={[styles.emptyTitle, { color: isDark ? '#d1d5db' : '#6b7280' }]}>
+          {error ? 'Could not load notifications' : 'No notifications yet'}
+        </Text>
+        <Text style={[styles.emptySubtitle, { color: '#9ca3af' }]}>
+          {error ?? 'Reminders and updates we send you will show up here'}
+        </Text>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView
+      style={[styles.container, { backgroundColor: isDark ? '#111827' : '#f9fafb' }]}
+    >
+      <FlatList
+        data={notifications}
+        renderItem={renderNotification}
+        keyExtractor={(item) => item.id}
+        contentContainerStyle={styles.listContainer}
+        ListEmptyComponent={renderEmptyState}
+        ListFooterComponent={
+          isLoading ? <ActivityIndicator style={styles.loader} color="#6366f1" /> : null
+        }
+        onEndReached={handleEndReached}
+        onEndReachedThreshold={0.5}
+        refreshControl={
+          <RefreshControl refreshing={isRefreshing} onRefresh={handleRefresh} tintColor="#6366f1" />
+        }
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  listContainer: {
+    flexGrow: 1,
+    padding: 16,
+  },
+  card: {
+    padding: 16,
+    marginBottom: 12,
+    borderRadius: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  title: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    marginRight: 8,
+  },
+  badge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 8,
+  },
+  badgeText: {
+    color: '#ffffff',
+    fontSize: 10,
+    fontWeight: '600',
+    marginLeft: 3,
+  },
+  body: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  errorText: {
+    color: '#ef4444',
+    fontSize: 12,
+    marginTop: 6,
+  },
+  meta: {
+    fontSize: 12,
+    marginTop: 8,
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 32,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  emptySubtitle: {
+    fontSize: 14,
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  loader: {
+    marginVertical: 16,
+  },
+});
+
+export default NotificationHistoryScreen;
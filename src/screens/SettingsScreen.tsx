@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -17,21 +17,70 @@ import {
 } from 'react-native';
 import DateTimePicker from '@react-native-community/datetimepicker';
 import { Ionicons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
 import { useDreamStore } from '../store/dreamStore';
 import { useAuthStore, useUser } from '../store/authStore';
 import { addSampleData } from '../utils/sampleData';
 import notificationService from '../services/notificationService';
+import {
+  apiClient,
+  Entitlements,
+  EntitlementFeature,
+  NotificationSettings,
+  NotificationSettingsUpdate,
+  NotificationType,
+} from '../services/apiClient';
+import { RootStackParamList } from '../navigation/AppNavigator';
+
+const RETENTION_OPTIONS = [
+  { label: '90 days', days: 90 },
+  { label: '6 months', days: 180 },
+  { label: '1 year', days: 365 },
+  { label: 'Keep forever', days: 0 },
+];
+
+const NOTIFICATION_TYPE_OPTIONS: { type: NotificationType; title: string; subtitle: string; icon: string }[] = [
+  { type: 'DREAM_REMINDER', title: 'Dream Reminders', subtitle: 'Daily nudge to record your dreams', icon: 'alarm-outline' },
+  { type: 'ANALYSIS_COMPLETE', title: 'Analysis Ready', subtitle: 'When a dream analysis finishes', icon: 'sparkles-outline' },
+  { type: 'PATTERN_DISCOVERED', title: 'New Patterns', subtitle: 'Recurring themes found in your dreams', icon: 'analytics-outline' },
+  { type: 'SUBSCRIPTION_EXPIRING', title: 'Subscription', subtitle: 'Before your premium plan ends', icon: 'card-outline' },
+  { type: 'WELCOME', title: 'New Devices', subtitle: 'A hello when notifications are first set up', icon: 'phone-portrait-outline' },
+  { type: 'TIP_OF_DAY', title: 'Tips', subtitle: 'Occasional journaling tips', icon: 'bulb-outline' },
+];
+
+const QUIET_HOURS_OPTIONS = [
+  { label: 'Off', quietHours: null },
+  { label: '10:00 PM – 7:00 AM', quietHours: { start: '22:00', end: '07:00' } },
+  { label: '11:00 PM – 8:00 AM', quietHours: { start: '23:00', end: '08:00' } },
+  { label: '9:00 PM – 6:00 AM', quietHours: { start: '21:00', end: '06:00' } },
+];
+
+const DAILY_LIMIT_OPTIONS = [
+  { label: 'No limit', dailyLimit: null },
+  { label: '1 per day', dailyLimit: 1 },
+  { label: '3 per day', dailyLimit: 3 },
+  { label: '5 per day', dailyLimit: 5 },
+];
+
+type NavigationProp = StackNavigationProp<RootStackParamList>;
 
 const SettingsScreen = () => {
+  const navigation = useNavigation<NavigationProp>();
   const colorScheme = useColorScheme();
   const isDark = colorScheme === 'dark';
-  const { userPreferences, updatePreferences, dreams, clearAllData } = useDreamStore();
-  const { logout } = useAuthStore();
+  const { userPreferences, updatePreferences, dreams, clearAllData, syncNow } = useDreamStore();
+  const { logout, verifyEmail, resendVerification } = useAuthStore();
   const user = useUser();
   const [showDeveloperInfo, setShowDeveloperInfo] = useState(false);
   const [showApiKeyInput, setShowApiKeyInput] = useState(false);
   const [apiKeyInput, setApiKeyInput] = useState(userPreferences.openAIApiKey || '');
+  const [showVerifyEmail, setShowVerifyEmail] = useState(false);
+  const [verificationCode, setVerificationCode] = useState('');
   const [showTimePicker, setShowTimePicker] = useState(false);
+  const [notificationSettings, setNotificationSettings] = useState<NotificationSettings | null>(null);
+  const [showNotificationTypes, setShowNotificationTypes] = useState(false);
+  const [entitlements, setEntitlements] = useState<Entitlements | null>(null);
   const [tempTime, setTempTime] = useState(() => {
     const [hours, minutes] = userPreferences.reminderTime.split(':').map(Number);
     const date = new Date();
@@ -39,6 +88,19 @@ const SettingsScreen = () => {
     return date;
   });
 
+  useEffect(() => {
+    apiClient.getNotificationSettings()
+      .then(setNotificationSettings)
+      .catch((error) => {
+        console.log('Notification settings unavailable:', error instanceof Error ? error.message : error);
+      });
+    apiClient.getEntitlements()
+      .then(setEntitlements)
+      .catch((error) => {
+        console.log('Entitlements unavailable:', error instanceof Error ? error.message : error);
+      });
+  }, []);
+
   const handleExportData = async () => {
     try {
       const exportData = {
@@ -140,6 +202,81 @@ const SettingsScreen = () => {
     setShowApiKeyInput(false);
   };
 
+  const handleVerifyEmail = async () => {
+    if (!verificationCode.trim()) {
+      Alert.alert('Error', 'Please paste the verification code from your email.');
+      return;
+    }
+
+    try {
+      await verifyEmail(verificationCode.trim());
+      setShowVerifyEmail(false);
+      setVerificationCode('');
+      Alert.alert('Email Verified', 'Thanks for confirming your email address.');
+    } catch (error) {
+      Alert.alert('Verification Failed', error instanceof Error ? error.message : 'Please try again.');
+    }
+  };
+
+  const handleResendVerification = async () => {
+    try {
+      await resendVerification();
+      Alert.alert('Email Sent', `A new verification code was sent to ${user?.email}.`);
+    } catch (error) {
+      Alert.alert('Could Not Send', error instanceof Error ? error.message : 'Please try again later.');
+    }
+  };
+
+  const getRetentionLabel = () => {
+    const days = userPreferences.privacySettings.dataRetentionDays;
+    return RETENTION_OPTIONS.find((option) => option.days === days)?.label ?? `${days} days`;
+  };
+
+  const applyRetention = (days: number) => {
+    updatePreferences({
+      privacySettings: {
+        ...userPreferences.privacySettings,
+        dataRetentionDays: days,
+      },
+    });
+  };
+
+  // Shows what the server would delete before the new window takes effect
+  const confirmRetention = async (days: number) => {
+    if (days === 0) {
+      applyRetention(0);
+      return;
+    }
+
+    let message = `Dreams, recordings, analyses and notifications older than ${days} days will be permanently deleted from the server.`;
+    try {
+      const { preview } = await apiClient.getRetentionPreview(days);
+      message = `${preview.dreams} dreams, ${preview.voiceRecordings} recordings, ${preview.analyses} analyses and ` +
+        `${preview.notifications} notifications are older than ${preview.retentionDays} days and will be permanently deleted.`;
+    } catch (error) {
+      console.log('Retention preview unavailable:', error instanceof Error ? error.message : error);
+    }
+
+    Alert.alert('Change Data Retention', message, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Delete Old Data', style: 'destructive', onPress: () => applyRetention(days) },
+    ]);
+  };
+
+  const handleRetentionPress = () => {
+    Alert.alert(
+      'Data Retention',
+      'Automatically delete journal data older than:',
+      [
+        ...RETENTION_OPTIONS.map((option) => ({
+          text: option.label,
+          onPress: () => { confirmRetention(option.days); },
+        })),
+        { text: 'Cancel', style: 'cancel' as const },
+      ]
+    );
+  };
+
   const getApiKeyStatus = () => {
     return userPreferences.openAIApiKey ? 'Configured' : 'Not configured';
   };
@@ -174,6 +311,95 @@ const SettingsScreen = () => {
     setShowTimePicker(false);
   };
 
+  const saveNotificationSettings = async (changes: NotificationSettingsUpdate) => {
+    try {
+      const updated = await apiClient.updateNotificationSettings(changes);
+      setNotificationSettings((current) => current && { ...current, ...updated });
+    } catch (error) {
+      Alert.alert('Could Not Save', error instanceof Error ? error.message : 'Please try again later.');
+    }
+  };
+
+  const getNotificationTypesLabel = () => {
+    if (!notificationSettings) {
+      return '';
+    }
+    const enabled = NOTIFICATION_TYPE_OPTIONS.filter((option) => notificationSettings.types[option.type]).length;
+    return enabled === NOTIFICATION_TYPE_OPTIONS.length
+      ? 'All notifications on'
+      : `${enabled} of ${NOTIFICATION_TYPE_OPTIONS.length} on`;
+  };
+
+  const getQuietHoursLabel = () => {
+    const quietHours = notificationSettings?.quietHours;
+    if (!quietHours) {
+      return 'Off';
+    }
+    return `${formatReminderTime(quietHours.start)} – ${formatReminderTime(quietHours.end)}`;
+  };
+
+  const getDailyLimitLabel = () => {
+    const dailyLimit = notificationSettings?.dailyLimit;
+    return dailyLimit ? `At most ${dailyLimit} per day` : 'No limit';
+  };
+
+  const handleQuietHoursPress = () => {
+    Alert.alert(
+      'Quiet Hours',
+      'Hold notifications during these hours:',
+      [
+        ...QUIET_HOURS_OPTIONS.map((option) => ({
+          text: option.label,
+          onPress: () => { saveNotificationSettings({ quietHours: option.quietHours }); },
+        })),
+        { text: 'Cancel', style: 'cancel' as const },
+      ]
+    );
+  };
+
+  const handleDailyLimitPress = () => {
+    Alert.alert(
+      'Daily Limit',
+      'Send at most this many notifications a day:',
+      [
+        ...DAILY_LIMIT_OPTIONS.map((option) => ({
+          text: option.label,
+          onPress: () => { saveNotificationSettings({ dailyLimit: option.dailyLimit }); },
+        })),
+        { text: 'Cancel', style: 'cancel' as const },
+      ]
+    );
+  };
+
+  const handleLockedFeaturePress = (feature: EntitlementFeature) => {
+    Alert.alert(
+      feature.name,
+      `${feature.description}. Included with Pro.`,
+      [{ text: 'OK' }]
+    );
+  };
+
+  const handleUpgradePress = () => {
+    const locked = entitlements?.features.filter((feature) => !feature.enabled) ?? [];
+    const included = locked.length > 0
+      ? `Pro adds:\n${locked.map((feature) => `• ${feature.name}`).join('\n')}`
+      : 'Pro adds unlimited dreams and higher monthly limits.';
+
+    Alert.alert(
+      'Upgrade to Pro',
+      `${included}\n\nEmail us and we'll get your account upgraded.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Send Email',
+          onPress: () => {
+            Linking.openURL('mailto:support@dreamjournalpro.com?subject=Upgrade to Pro');
+          },
+        },
+      ]
+    );
+  };
+
   const handleTestNotification = async () => {
     try {
       await notificationService.sendTestNotification();
@@ -194,11 +420,14 @@ const SettingsScreen = () => {
           style: 'destructive',
           onPress: async () => {
             try {
+              // Give queued offline changes a last chance to reach the server
+              await syncNow().catch(() => undefined);
               await logout();
             } catch (error) {
               console.error('Logout error:', error);
               // Even if logout fails, we still want to clear local state
             }
+            clearAllData();
           }
         }
       ]
@@ -338,6 +567,13 @@ const SettingsScreen = () => {
                 </View>
               </View>
               
+              {user && !user.isVerified && renderActionItem(
+                'Verify Email',
+                'Required for subscriptions',
+                'mail-unread-outline',
+                () => setShowVerifyEmail(true)
+              )}
+
               {renderActionItem(
                 'Logout',
                 'Sign out of your account',
@@ -366,6 +602,38 @@ const SettingsScreen = () => {
                 handleReminderTimePress,
                 '#f59e0b'
               )}
+
+              {notificationSettings && (
+                <>
+                  {renderActionItem(
+                    'Notification Types',
+                    getNotificationTypesLabel(),
+                    'options-outline',
+                    () => setShowNotificationTypes(true)
+                  )}
+
+                  {renderActionItem(
+                    'Quiet Hours',
+                    getQuietHoursLabel(),
+                    'bed-outline',
+                    handleQuietHoursPress
+                  )}
+
+                  {renderActionItem(
+                    'Daily Limit',
+                    getDailyLimitLabel(),
+                    'speedometer-outline',
+                    handleDailyLimitPress
+                  )}
+                </>
+              )}
+
+              {renderActionItem(
+                'Notification History',
+                'See what was sent and whether it arrived',
+                'notifications-circle-outline',
+                () => navigation.navigate('NotificationHistory')
+              )}
               
               {renderSwitchItem(
                 'Voice Recording',
@@ -414,6 +682,13 @@ const SettingsScreen = () => {
                 })
               )}
               
+              {renderActionItem(
+                'Data Retention',
+                getRetentionLabel(),
+                'time-outline',
+                handleRetentionPress
+              )}
+              
               {renderActionItem(
                 'Load Sample Dreams',
                 'Add sample dreams to explore the app features',
@@ -439,26 +714,50 @@ const SettingsScreen = () => {
             </>
           ))}
 
-          {/* Subscription (Future) */}
+          {/* Subscription */}
           {renderSection('Subscription', (
-            <View style={styles.subscriptionInfo}>
-              <Ionicons name="diamond-outline" size={32} color="#6366f1" />
-              <Text style={[styles.subscriptionTitle, { color: isDark ? '#ffffff' : '#000000' }]}>
-                Dream Journal Pro
-              </Text>
-              <Text style={[styles.subscriptionStatus, { color: isDark ? '#9ca3af' : '#6b7280' }]}>
-                Free Version
-              </Text>
-              <Text style={[styles.subscriptionDescription, { color: isDark ? '#d1d5db' : '#374151' }]}>
-                Upgrade to Pro for unlimited dreams, AI analysis, and advanced pattern recognition.
-              </Text>
-              <TouchableOpacity
-                style={styles.upgradeButton}
-                onPress={() => Alert.alert('Coming Soon', 'Subscription features will be available in a future update.')}
-              >
-                <Text style={styles.upgradeButtonText}>Upgrade to Pro</Text>
-              </TouchableOpacity>
-            </View>
+            <>
+              <View style={styles.subscriptionInfo}>
+                <Ionicons name="diamond-outline" size={32} color="#6366f1" />
+                <Text style={[styles.subscriptionTitle, { color: isDark ? '#ffffff' : '#000000' }]}>
+                  Dream Journal Pro
+                </Text>
+                <Text style={[styles.subscriptionStatus, { color: isDark ? '#9ca3af' : '#6b7280' }]}>
+                  {entitlements?.tier === 'PREMIUM' ? 'Pro' : 'Free Version'}
+                </Text>
+                {(!entitlements || entitlements.upgrade) && (
+                  <>
+                    <Text style={[styles.subscriptionDescription, { color: isDark ? '#d1d5db' : '#374151' }]}>
+                      Upgrade to Pro for unlimited dreams, AI analysis, and advanced pattern recognition.
+                    </Text>
+                    <TouchableOpacity
+                      style={styles.upgradeButton}
+                      onPress={handleUpgradePress}
+                    >
+                      <Text style={styles.upgradeButtonText}>Upgrade to Pro</Text>
+                    </TouchableOpacity>
+                  </>
+                )}
+              </View>
+
+              {entitlements?.features.map((feature) => (
+                <React.Fragment key={feature.key}>
+                  {renderSettingItem(
+                    feature.name,
+                    feature.description,
+                    feature.enabled ? 'checkmark-circle-outline' : 'lock-closed-outline',
+                    feature.enabled ? null : (
+                      <Ionicons
+                        name="chevron-forward"
+                        size={20}
+                        color={isDark ? '#9ca3af' : '#6b7280'}
+                      />
+                    ),
+                    feature.enabled ? undefined : () => handleLockedFeaturePress(feature)
+                  )}
+                </React.Fragment>
+              ))}
+            </>
           ))}
 
           {/* Support & Feedback */}
@@ -659,6 +958,120 @@ const SettingsScreen = () => {
         </View>
       </Modal>
 
+      {/* Email Verification Modal */}
+      <Modal
+        visible={showVerifyEmail}
+        transparent={true}
+        animationType="slide"
+        onRequestClose={() => setShowVerifyEmail(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={[styles.modalContent, { backgroundColor: isDark ? '#1f2937' : '#ffffff' }]}>
+            <View style={styles.modalHeader}>
+              <Text style={[styles.modalTitle, { color: isDark ? '#ffffff' : '#000000' }]}>
+                Verify Email
+              </Text>
+              <TouchableOpacity
+                onPress={() => setShowVerifyEmail(false)}
+                style={styles.modalCloseButton}
+              >
+                <Ionicons name="close" size={24} color={isDark ? '#9ca3af' : '#6b7280'} />
+              </TouchableOpacity>
+            </View>
+
+            <Text style={[styles.modalDescription, { color: isDark ? '#d1d5db' : '#374151' }]}>
+              We sent a verification code to {user?.email}. Paste it below to confirm your address.
+            </Text>
+
+            <View style={styles.inputContainer}>
+              <Text style={[styles.inputLabel, { color: isDark ? '#d1d5db' : '#374151' }]}>
+                Verification Code
+              </Text>
+              <TextInput
+                style={[
+                  styles.textInput,
+                  {
+                    backgroundColor: isDark ? '#374151' : '#f9fafb',
+                    color: isDark ? '#ffffff' : '#000000',
+                    borderColor: isDark ? '#4b5563' : '#d1d5db',
+                  }
+                ]}
+                value={verificationCode}
+                onChangeText={setVerificationCode}
+                placeholder="Paste your code"
+                placeholderTextColor={isDark ? '#9ca3af' : '#6b7280'}
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+            </View>
+
+            <TouchableOpacity onPress={handleResendVerification}>
+              <Text style={[styles.helperText, { color: '#6366f1' }]}>
+                Didn't get it? Send a new code
+              </Text>
+            </TouchableOpacity>
+
+            <View style={styles.modalActions}>
+              <TouchableOpacity
+                style={[styles.modalButton, styles.cancelButton, { borderColor: isDark ? '#4b5563' : '#d1d5db' }]}
+                onPress={() => setShowVerifyEmail(false)}
+              >
+                <Text style={[styles.cancelButtonText, { color: isDark ? '#9ca3af' : '#6b7280' }]}>
+                  Cancel
+                </Text>
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={[styles.modalButton, styles.saveButton]}
+                onPress={handleVerifyEmail}
+              >
+                <Text style={styles.saveButtonText}>Verify</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      {/* Notification Types Modal */}
+      <Modal
+        visible={showNotificationTypes}
+        transparent={true}
+        animationType="slide"
+        onRequestClose={() => setShowNotificationTypes(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={[styles.modalContent, { backgroundColor: isDark ? '#1f2937' : '#ffffff' }]}>
+            <View style={styles.modalHeader}>
+              <Text style={[styles.modalTitle, { color: isDark ? '#ffffff' : '#000000' }]}>
+                Notification Types
+              </Text>
+              <TouchableOpacity
+                onPress={() => setShowNotificationTypes(false)}
+                style={styles.modalCloseButton}
+              >
+                <Ionicons name="close" size={24} color={isDark ? '#9ca3af' : '#6b7280'} />
+              </TouchableOpacity>
+            </View>
+
+            <Text style={[styles.modalDescription, { color: isDark ? '#d1d5db' : '#374151' }]}>
+              Choose which notifications you'd like to receive on your devices.
+            </Text>
+
+            {notificationSettings && NOTIFICATION_TYPE_OPTIONS.map((option) => (
+              <React.Fragment key={option.type}>
+                {renderSwitchItem(
+                  option.title,
+                  option.subtitle,
+                  option.icon,
+                  notificationSettings.types[option.type],
+                  (value) => saveNotificationSettings({ types: { [option.type]: value } })
+                )}
+              </React.Fragment>
+            ))}
+          </View>
+        </View>
+      </Modal>
+
       {/* Time Picker Modal */}
       {showTimePicker && (
         <Modal
@@ -32,6 +32,7 @@ export interface AuthResponse {
     firstName: string;
     lastName: string;
     subscriptionStatus: string;
+    isVerified?: boolean;
   };
   token: string;
   refreshToken?: string;
@@ -55,9 +56,150 @@ export interface UpdateDreamRequest extends Partial<CreateDreamRequest> {
   id: string;
 }
 
+// Notification interfaces
+// SENT means Expo accepted the message; DELIVERED waits for its push receipt
+export type NotificationDeliveryStatus = 'PENDING' | 'SENT' | 'DELIVERED' | 'FAILED';
+
+export interface NotificationHistoryItem {
+  id: string;
+  type: string;
+  title: string;
+  body: string;
+  data: any;
+  scheduledFor: string | null;
+  sentAt: string | null;
+  delivered: boolean;
+  deliveryStatus: NotificationDeliveryStatus;
+  deliveryError: string | null;
+  deliveries: Array<{
+    deviceId: string | null;
+    status: NotificationDeliveryStatus;
+    error: string | null;
+  }>;
+  opened: boolean;
+  createdAt: string;
+}
+
+export interface PushDevice {
+  id: string;
+  platform: 'IOS' | 'ANDROID' | 'WEB' | null; // Unknown for devices registered by older app builds
+  deviceName: string | null;
+  appVersion: string | null;
+  notificationsEnabled: boolean;
+  lastSeenAt: string;
+  createdAt: string;
+}
+
+export type NotificationType =
+  | 'DREAM_REMINDER'
+  | 'ANALYSIS_COMPLETE'
+  | 'PATTERN_DISCOVERED'
+  | 'SUBSCRIPTION_EXPIRING'
+  | 'WELCOME'
+  | 'TIP_OF_DAY';
+
+// Quiet hours and the daily limit are read in the account's timezone
+export interface NotificationSettings {
+  notificationsEnabled: boolean;
+  reminderTime: string | null;
+  types: Record<NotificationType, boolean>;
+  quietHours: { start: string; end: string } | null;
+  dailyLimit: number | null;
+  hasToken: boolean;
+  activeDevices: number;
+}
+
+export type NotificationSettingsUpdate = Partial<
+  Omit<NotificationSettings, 'types' | 'hasToken' | 'activeDevices'>
+> & {
+  types?: Partial<Record<NotificationType, boolean>>;
+};
+
+// Subscription interfaces
+export type SubscriptionTier = 'FREE' | 'PREMIUM';
+
+// null: unlimited
+export interface QuotaLimits {
+  dreamEntries: number | null;
+  analyses: number | null;
+  transcriptionMinutes: number | null;
+  storageBytes: number | null;
+}
+
+export interface EntitlementFeature {
+  key: string;
+  name: string;
+  description: string;
+  enabled: boolean;
+  requiredTier: SubscriptionTier;
+}
+
+export interface Entitlements {
+  subscriptionStatus: 'FREE' | 'PREMIUM' | 'CANCELLED' | 'EXPIRED';
+  tier: SubscriptionTier;
+  features: EntitlementFeature[];
+  limits: QuotaLimits;
+  upgrade: { tier: SubscriptionTier; limits: QuotaLimits } | null;
+}
+
+// Analysis as stored on the server
+export interface ServerDreamAnalysis {
+  id: string;
+  dreamId: string;
+  interpretation: string;
+  symbolAnalysis: Record<string, string>;
+  emotionalAnalysis: Record<string, string>;
+  themes: string[];
+  insights: string[];
+  reflectionQuestions: string[];
+  actionableAdvice?: string | null;
+  analysisType: string;
+  confidence: number;
+  processingTime?: number | null;
+  version: number;
+  isStale: boolean; // The dream was edited after this was written
+  createdAt: string;
+}
+
+// Parts of an analysis the stream reports once the model has finished them
+export type AnalysisSectionField = Exclude<
+  keyof ServerDreamAnalysis,
+  'id' | 'dreamId' | 'interpretation' | 'analysisType' | 'processingTime' | 'version' | 'isStale' | 'createdAt'
+>;
+
+export interface AnalysisStreamHandlers {
+  onInterpretation?: (delta: string) => void;
+  onSection?: (field: AnalysisSectionField, value: any) => void;
+}
+
+// 'queued' means a worker is already running it: poll getAnalysisJob instead
+export type AnalysisStreamResult =
+  | { status: 'complete'; analysis: ServerDreamAnalysis; cached: boolean }
+  | { status: 'queued'; jobId: string };
+
+// Rate limit budget reported by the last response that carried one
+export interface RateLimitStatus {
+  limit: number;
+  remaining: number;
+  resetsAt: Date;
+}
+
+// Sync interfaces
+export interface SyncOperation {
+  id: string;
+  type: 'dream' | 'voiceRecording' | 'user';
+  action: 'create' | 'update' | 'delete';
+  data: any;
+  baseRevision?: number; // Omit to overwrite without conflict detection
+}
+
 class ApiClient {
   private baseURL: string;
   private authToken: string | null = null;
+  private refreshToken: string | null = null;
+  private refreshPromise: Promise<boolean> | null = null;
+  private sessionExpiredHandler: (() => void) | null = null;
+  private rateLimitStatus: RateLimitStatus | null = null;
 
   constructor() {
     this.baseURL = API_BASE_URL;
@@ -66,17 +208,25 @@ class ApiClient {
 
   private async loadAuthToken() {
     try {
-      const token = await AsyncStorage.getItem('authToken');
+      const [token, refreshToken] = await Promise.all([
+        AsyncStorage.getItem('authToken'),
+        AsyncStorage.getItem('refreshToken'),
+      ]);
       this.authToken = token;
+      this.refreshToken = refreshToken;
     } catch (error) {
       console.error('Failed to load auth token:', error);
     }
   }
 
-  private async saveAuthToken(token: string) {
+  private async saveAuthToken(token: string, refreshToken?: string) {
     try {
       await AsyncStorage.setItem('authToken', token);
       this.authToken = token;
+      if (refreshToken) {
+        await AsyncStorage.setItem('refreshToken', refreshToken);
+        this.refreshToken = refreshToken;
+      }
     } catch (error) {
       console.error('Failed to save auth token:', error);
     }
@@ -84,16 +234,76 @@ class ApiClient {
 
   private async removeAuthToken() {
     try {
-      await AsyncStorage.removeItem('authToken');
+      await AsyncStorage.multiRemove(['authToken', 'refreshToken']);
       this.authToken = null;
+      this.refreshToken = null;
     } catch (error) {
       console.error('Failed to remove auth token:', error);
     }
   }
 
+  // Called when the session can't be renewed and the user has to sign in again
+  setSessionExpiredHandler(handler: (() => void) | null) {
+    this.sessionExpiredHandler = handler;
+  }
+
+  getRateLimitStatus(): RateLimitStatus | null {
+    return this.rateLimitStatus;
+  }
+
+  private updateRateLimitStatus(getHeader: (name: string) => string | null) {
+    const limit = getHeader('RateLimit-Limit');
+    const remaining = getHeader('RateLimit-Remaining');
+    const reset = getHeader('RateLimit-Reset'); // Seconds until the window resets
+
+    if (limit !== null && remaining !== null && reset !== null) {
+      this.rateLimitStatus = {
+        limit: Number(limit),
+        remaining: Number(remaining),
+        resetsAt: new Date(Date.now() + Number(reset) * 1000),
+      };
+    }
+  }
+
+  // Exchange the refresh token for a new token pair. Concurrent callers share one
+  // request, since a refresh token is single-use and replaying it revokes the session.
+  private refreshSession(): Promise<boolean> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = (async () => {
+        if (!this.refreshToken) {
+          return false;
+        }
+
+        try {
+          const response = await fetch(`${this.baseURL}/auth/refresh`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ refreshToken: this.refreshToken }),
+          });
+          const data = await response.json();
+
+          if (!response.ok || !data.data?.token) {
+            return false;
+          }
+
+          await this.saveAuthToken(data.data.token, data.data.refreshToken);
+          return true;
+        } catch (error) {
+          console.error('Failed to refresh session:', error);
+          return false;
+        }
+      })().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+
+    return this.refreshPromise;
+  }
+
   private async makeRequest<T>(
     endpoint: string,
-    options: RequestInit = {}
+    options: RequestInit = {},
+    isRetry: boolean = false
   ): Promise<ApiResponse<T>> {
     const url = `${this.baseURL}${endpoint}`;
     
@@ -116,12 +326,18 @@ class ApiClient {
       console.log(`Making API request: ${options.method || 'GET'} ${url}`);
       
       const response = await fetch(url, config);
+      this.updateRateLimitStatus(name => response.headers.get(name));
       const data = await response.json();
 
       if (!response.ok) {
-        // Handle 401 unauthorized - token expired
-        if (response.status === 401) {
+        // Handle 401 unauthorized - renew the access token once and replay the request
+        if (response.status === 401 && !endpoint.startsWith('/auth/login')) {
+          if (!isRetry && await this.refreshSession()) {
+            return this.makeRequest<T>(endpoint, options, true);
+          }
+
           await this.removeAuthToken();
+          this.sessionExpiredHandler?.();
           throw new Error('Authentication required');
         }
         
@@ -148,7 +364,7 @@ class ApiClient {
     });
 
     if (response.success && response.data?.token) {
-      await this.saveAuthToken(response.data.token);
+      await this.saveAuthToken(response.data.token, response.data.refreshToken);
     }
 
     return response.data!;
@@ -161,7 +377,7 @@ class ApiClient {
     });
 
     if (response.success && response.data?.token) {
-      await this.saveAuthToken(response.data.token);
+      await this.saveAuthToken(response.data.token, response.data.refreshToken);
     }
 
     return response.data!;
@@ -169,7 +385,12 @@ class ApiClient {
 
   async logout(): Promise<void> {
     try {
-      await this.makeRequest('/auth/logout', { method: 'POST' });
+      if (this.refreshToken) {
+        await this.makeRequest('/auth/logout', {
+          method: 'POST',
+          body: JSON.stringify({ refreshToken: this.refreshToken }),
+        });
+      }
     } catch (error) {
       console.error('Logout API call failed:', error);
     } finally {
@@ -177,16 +398,82 @@ class ApiClient {
     }
   }
 
+  // Password reset; the server answers the same way whether or not the email is registered
+  async forgotPassword(email: string): Promise<void> {
+    await this.makeRequest('/auth/forgot-password', {
+      method: 'POST',
+      body: JSON.stringify({ email }),
+    });
+  }
+
+  async resetPassword(token: string, password: string): Promise<void> {
+    await this.makeRequest('/auth/reset-password', {
+      method: 'POST',
+      body: JSON.stringify({ token, password }),
+    });
+  }
+
+  // Email verification
+  async verifyEmail(token: string): Promise<void> {
+    await this.makeRequest('/auth/verify-email', {
+      method: 'POST',
+      body: JSON.stringify({ token }),
+    });
+  }
+
+  async resendVerification(): Promise<void> {
+    await this.makeRequest('/auth/resend-verification', {
+      method: 'POST',
+    });
+  }
+
   async getProfile(): Promise<any> {
     const response = await this.makeRequest('/auth/profile');
     return response.data;
   }
 
+  // Account data
+  // Complete server-side archive; voice recordings come as short-lived download links
+  async exportAccount(): Promise<any> {
+    const response = await this.makeRequest('/auth/export');
+    return response.data;
+  }
+
+  // Signs out every device. Signing in again doesn't undo it: call restoreAccount
+  // before deletionScheduledFor to keep the account
+  async deleteAccount(password: string): Promise<{ deletionScheduledFor: string }> {
+    const response = await this.makeRequest<{ deletionScheduledFor: string }>('/auth/account', {
+      method: 'DELETE',
+      body: JSON.stringify({ password }),
+    });
+    await this.removeAuthToken();
+    return response.data!;
+  }
+
+  async restoreAccount(): Promise<void> {
+    await this.makeRequest('/auth/account/restore', {
+      method: 'POST',
+    });
+  }
+
+  // Signed-in devices
+  async getSessions(): Promise<any> {
+    const response = await this.makeRequest('/auth/sessions');
+    return response.data;
+  }
+
+  async revokeSession(sessionId: string): Promise<void> {
+    await this.makeRequest(`/auth/sessions/${sessionId}`, {
+      method: 'DELETE',
+    });
+  }
+
   // Dream Methods
   async getDreams(params?: { 
     page?: number; 
     limit?: number; 
     search?: string;
+    mode?: 'keyword' | 'semantic';
     startDate?: string;
     endDate?: string;
   }): Promise<any> {
@@ -195,6 +482,7 @@ class ApiClient {
     if (params?.page) queryParams.append('page', params.page.toString());
     if (params?.limit) queryParams.append('limit', params.limit.toString());
     if (params?.search) queryParams.append('search', params.search);
+    if (params?.mode) queryParams.append('mode', params.mode);
     if (params?.startDate) queryParams.append('startDate', params.startDate);
     if (params?.endDate) queryParams.append('endDate', params.endDate);
 
@@ -208,6 +496,11 @@ class ApiClient {
     return response.data;
   }
 
+  async getSimilarDreams(id: string, limit: number = 5): Promise<any> {
+    const response = await this.makeRequest(`/dreams/${id}/similar?limit=${limit}`);
+    return response.data;
+  }
+
   async createDream(dreamData: CreateDreamRequest): Promise<any> {
     const response = await this.makeRequest('/dreams', {
       method: 'POST',
@@ -232,10 +525,146 @@ class ApiClient {
   }
 
   // Dream Analysis
-  async analyzeDream(dreamId: string): Promise<any> {
-    const response = await this.makeRequest(`/dreams/${dreamId}/analyze`, {
+  // Returns either a cached analysis or a queued job to poll with getAnalysisJob.
+  // regenerate skips the cached one and writes a new version.
+  async analyzeDream(dreamId: string, analysisType: string = 'BASIC', regenerate: boolean = false): Promise<any> {
+    const response = await this.makeRequest(`/analysis/dreams/${dreamId}/analyze`, {
       method: 'POST',
+      body: JSON.stringify({ analysisType, regenerate }),
+    });
+    return response.data;
+  }
+
+  // Runs the analysis while the request is open and reports it as it is written.
+  // fetch can't read a response body as it arrives in React Native, so this
+  // reads the Server-Sent Events off an XMLHttpRequest instead.
+  streamDreamAnalysis(
+    dreamId: string,
+    analysisType: string = 'BASIC',
+    handlers: AnalysisStreamHandlers = {},
+    regenerate: boolean = false,
+    isRetry: boolean = false
+  ): Promise<AnalysisStreamResult> {
+    return new Promise((resolve, reject) => {
+      const xhr = new XMLHttpRequest();
+      const state: { parsed: number; result: AnalysisStreamResult | null; error: string | null } = {
+        parsed: 0,
+        result: null,
+        error: null,
+      };
+
+      const handleEvent = (event: string, data: any) => {
+        switch (event) {
+          case 'interpretation':
+            handlers.onInterpretation?.(data.delta);
+            break;
+          case 'section':
+            handlers.onSection?.(data.field, data.value);
+            break;
+          case 'complete':
+            state.result = { status: 'complete', analysis: data.analysis, cached: data.cached };
+            break;
+          case 'queued':
+            state.result = { status: 'queued', jobId: data.jobId };
+            break;
+          case 'error':
+            state.error = data.error;
+            break;
+        }
+      };
+
+      // Events end with a blank line; one cut off mid-way waits for the next chunk
+      const readEvents = () => {
+        const text = xhr.responseText;
+        let end = text.indexOf('\n\n', state.parsed);
+
+        while (end >= 0) {
+          let event = 'message';
+          const data: string[] = [];
+          for (const line of text.substring(state.parsed, end).split('\n')) {
+            if (line.startsWith('event:')) {
+              event = line.substring(6).trim();
+            } else if (line.startsWith('data:')) {
+              data.push(line.substring(5).trim());
+            }
+          }
+          if (data.length > 0) {
+            handleEvent(event, JSON.parse(data.join('\n')));
+          }
+
+          state.parsed = end + 2;
+          end = text.indexOf('\n\n', state.parsed);
+        }
+      };
+
+      xhr.open('POST', `${this.baseURL}/analysis/dreams/${dreamId}/analyze/stream`);
+      xhr.setRequestHeader('Content-Type', 'application/json');
+      xhr.setRequestHeader('Accept', 'text/event-stream');
+      if (this.authToken) {
+        xhr.setRequestHeader('Authorization', `Bearer ${this.authToken}`);
+      }
+
+      xhr.onprogress = () => {
+        if (xhr.status === 200) {
+          readEvents();
+        }
+      };
+
+      xhr.onload = async () => {
+        this.updateRateLimitStatus(name => xhr.getResponseHeader(name));
+
+        try {
+          if (xhr.status === 401) {
+            if (!isRetry && await this.refreshSession()) {
+              resolve(await this.streamDreamAnalysis(dreamId, analysisType, handlers, regenerate, true));
+              return;
+            }
+
+            await this.removeAuthToken();
+            this.sessionExpiredHandler?.();
+            throw new Error('Authentication required');
+          }
+
+          if (xhr.status !== 200) {
+            const data = JSON.parse(xhr.responseText || '{}');
+            throw new Error(data.error || data.message || 'API request failed');
+          }
+
+          readEvents();
+          if (!state.result) {
+            throw new Error(state.error || 'Analysis stream ended early');
+          }
+          resolve(state.result);
+        } catch (error) {
+          reject(error);
+        }
+      };
+
+      xhr.onerror = () => {
+        reject(new Error('Network error. Please check your connection and try again.'));
+      };
+
+      console.log(`Streaming analysis: POST ${this.baseURL}/analysis/dreams/${dreamId}/analyze/stream`);
+      xhr.send(JSON.stringify({ analysisType, regenerate }));
     });
+  }
+
+  async getAnalysisJob(jobId: string): Promise<any> {
+    const response = await this.makeRequest(`/analysis/jobs/${jobId}`);
+    return response.data;
+  }
+
+  // Every version of a dream's analyses, newest first within each type
+  async getAnalysisHistory(dreamId: string, analysisType?: string): Promise<ServerDreamAnalysis[]> {
+    const query = analysisType ? `?analysisType=${analysisType}` : '';
+    const response = await this.makeRequest<{ analyses: ServerDreamAnalysis[] }>(`/analysis/dreams/${dreamId}${query}`);
+    return response.data!.analyses;
+  }
+
+  async compareAnalyses(fromId: string, toId: string): Promise<any> {
+    const response = await this.makeRequest(
+      `/analysis/compare?from=${encodeURIComponent(fromId)}&to=${encodeURIComponent(toId)}`
+    );
     return response.data;
   }
 
@@ -272,7 +701,119 @@ class ApiClient {
     return response.data;
   }
 
+  // Sync Methods
+  // Per-operation results; stale writes come back with a `conflict` instead of `data`
+  async syncBatch(operations: SyncOperation[]): Promise<any> {
+    const response = await this.makeRequest('/sync/batch', {
+      method: 'POST',
+      body: JSON.stringify({ operations }),
+    });
+    return response.data;
+  }
+
+  async getSyncUpdates(cursor: string, limit: number = 100): Promise<any> {
+    const response = await this.makeRequest(`/sync/updates?cursor=${cursor}&limit=${limit}`);
+    return response.data;
+  }
+
+  async getLastSyncTime(): Promise<any> {
+    const response = await this.makeRequest('/sync/last-sync-time');
+    return response.data;
+  }
+
+  // Notification Methods
+  // Call on every launch; it keeps the device's last-seen time and app version current
+  async registerPushToken(
+    pushToken: string,
+    platform?: 'ios' | 'android' | 'web',
+    details?: { deviceName?: string; appVersion?: string }
+  ): Promise<any> {
+    const response = await this.makeRequest('/notifications/register-token', {
+      method: 'POST',
+      body: JSON.stringify({ pushToken, platform, ...details }),
+    });
+    return response.data;
+  }
+
+  // Without a token every device of the account stops receiving notifications
+  async unregisterPushToken(pushToken?: string): Promise<any> {
+    const response = await this.makeRequest('/notifications/unregister-token', {
+      method: 'POST',
+      body: JSON.stringify(pushToken ? { pushToken } : {}),
+    });
+    return response.data;
+  }
+
+  async getDevices(): Promise<any> {
+    const response = await this.makeRequest('/notifications/devices');
+    return response.data;
+  }
+
+  async updateDevice(
+    deviceId: string,
+    changes: { notificationsEnabled?: boolean; deviceName?: string }
+  ): Promise<any> {
+    const response = await this.makeRequest(`/notifications/devices/${deviceId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(changes),
+    });
+    return response.data;
+  }
+
+  async removeDevice(deviceId: string): Promise<any> {
+    const response = await this.makeRequest(`/notifications/devices/${deviceId}`, {
+      method: 'DELETE',
+    });
+    return response.data;
+  }
+
+  async getNotificationSettings(): Promise<NotificationSettings> {
+    const response = await this.makeRequest<NotificationSettings>('/notifications/settings');
+    return response.data!;
+  }
+
+  async updateNotificationSettings(
+    settings: NotificationSettingsUpdate
+  ): Promise<Omit<NotificationSettings, 'hasToken' | 'activeDevices'>> {
+    const response = await this.makeRequest<Omit<NotificationSettings, 'hasToken' | 'activeDevices'>>(
+      '/notifications/settings',
+      {
+        method: 'PUT',
+        body: JSON.stringify(settings),
+      }
+    );
+    return response.data!;
+  }
+
+  async getNotificationHistory(params?: {
+    page?: number;
+    limit?: number;
+    deliveryStatus?: NotificationDeliveryStatus;
+  }): Promise<any> {
+    const queryParams = new URLSearchParams();
+    if (params?.page) queryParams.append('page', params.page.toString());
+    if (params?.limit) queryParams.append('limit', params.limit.toString());
+    if (params?.deliveryStatus) queryParams.append('deliveryStatus', params.deliveryStatus);
+
+    const endpoint = `/notifications/history${queryParams.toString() ? `?${queryParams}` : ''}`;
+    const response = await this.makeRequest(endpoint);
+    return response.data;
+  }
+
+  // Privacy Methods
+  // Dry run of the retention purge; pass days to preview a setting before saving it
+  async getRetentionPreview(days?: number): Promise<any> {
+    const response = await this.makeRequest(`/privacy/retention/preview${days !== undefined ? `?days=${days}` : ''}`);
+    return response.data;
+  }
+
   // Subscription Methods
+  // What the current plan includes; locked features are listed with enabled: false
+  async getEntitlements(): Promise<Entitlements> {
+    const response = await this.makeRequest<Entitlements>('/subscriptions/entitlements');
+    return response.data!;
+  }
+
   async getSubscriptionStatus(): Promise<any> {
     const response = await this.makeRequest('/subscription/status');
     return response.data;
@@ -1,5 +1,6 @@
 import * as Notifications from 'expo-notifications';
 import { Platform } from 'react-native';
+import { apiClient } from './apiClient';
 
 export interface NotificationSchedule {
   time: string; // HH:MM format
@@ -65,6 +66,25 @@ class NotificationService {
     }
   }
 
+  // Hands this device's Expo push token to the server so it can reach the user.
+  // Call after signing in; repeating it on every launch keeps the device current.
+  async registerDevice(): Promise<boolean> {
+    if (!this.isInitialized) {
+      const initialized = await this.initialize();
+      if (!initialized) return false;
+    }
+
+    try {
+      const { data: pushToken } = await Notifications.getExpoPushTokenAsync();
+      const platform = Platform.OS === 'ios' || Platform.OS === 'android' ? Platform.OS : 'web';
+      await apiClient.registerPushToken(pushToken, platform);
+      return true;
+    } catch (error) {
+      console.error('Error registering device for push notifications:', error);
+      return false;
+    }
+  }
+
   async scheduleDreamReminder(schedule: NotificationSchedule): Promise<string | null> {
     if (!this.isInitialized) {
       const initialized = await this.initialize();
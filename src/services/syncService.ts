@@ -0,0 +1,50 @@
+import { AppState, AppStateStatus, NativeEventSubscription } from 'react-native';
+import { useDreamStore } from '../store/dreamStore';
+
+const SYNC_INTERVAL_MS = 30 * 1000;
+
+// Replays the dream outbox and pulls remote changes on an interval while the app
+// is in the foreground, and immediately whenever it returns to the foreground.
+class SyncService {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private appStateSubscription: NativeEventSubscription | null = null;
+
+  start() {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(this.sync, SYNC_INTERVAL_MS);
+    this.appStateSubscription = AppState.addEventListener('change', this.handleAppStateChange);
+    this.sync();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+  }
+
+  private handleAppStateChange = (state: AppStateStatus) => {
+    if (state === 'active') {
+      this.sync();
+    }
+  };
+
+  private sync = () => {
+    if (AppState.currentState !== 'active') {
+      return;
+    }
+
+    useDreamStore.getState().syncNow().catch((error) => {
+      console.error('Background sync failed:', error);
+    });
+  };
+}
+
+const syncService = new SyncService();
+
+export default syncService;
@@ -9,6 +9,7 @@ export interface User {
   firstName: string;
   lastName: string;
   subscriptionStatus: string;
+  isVerified?: boolean;
   createdAt: Date;
 }
 
@@ -28,6 +29,8 @@ interface AuthStore {
   }) => Promise<void>;
   logout: () => Promise<void>;
   refreshProfile: () => Promise<void>;
+  verifyEmail: (token: string) => Promise<void>;
+  resendVerification: () => Promise<void>;
   
   // Utility
   setError: (error: string | null) => void;
@@ -177,6 +180,19 @@ export const useAuthStore = create<AuthStore>()(
         }
       },
 
+      verifyEmail: async (token: string) => {
+        await apiClient.verifyEmail(token);
+
+        const { user } = get();
+        if (user) {
+          set({ user: { ...user, isVerified: true } });
+        }
+      },
+
+      resendVerification: async () => {
+        await apiClient.resendVerification();
+      },
+
       setError: (error) => set({ error }),
       clearError: () => set({ error: null }),
       setLoading: (loading) => set({ isLoading: loading }),
@@ -206,4 +222,12 @@ export const useAuthStore = create<AuthStore>()(
 export const useUser = () => useAuthStore((state) => state.user);
 export const useIsAuthenticated = () => useAuthStore((state) => state.isAuthenticated);
 export const useAuthLoading = () => useAuthStore((state) => state.isLoading);
-export const useAuthError = () => useAuthStore((state) => state.error);
\ No newline at end of file
+export const useAuthError = () => useAuthStore((state) => state.error);
+// When the refresh token is rejected the session is over on the server; drop to the sign-in screen
+apiClient.setSessionExpiredHandler(() => {
+  useAuthStore.setState({
+    user: null,
+    isAuthenticated: false,
+    error: 'Your session has expired. Please sign in again.',
+  });
+});
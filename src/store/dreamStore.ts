@@ -1,8 +1,16 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { DreamEntry, DreamAnalysis, UserPreferences, Pattern } from '../types/dream';
-import { apiClient } from '../services/apiClient';
+import {
+  DreamEntry,
+  DreamAnalysis,
+  UserPreferences,
+  Pattern,
+  SyncConflict,
+  ConflictResolution,
+  OutboxItem,
+} from '../types/dream';
+import { apiClient, SyncOperation } from '../services/apiClient';
 import notificationService from '../services/notificationService';
 
 interface DreamStore {
@@ -12,8 +20,11 @@ interface DreamStore {
   userPreferences: UserPreferences;
   isLoading: boolean;
   error: string | null;
+  syncConflicts: SyncConflict[];
+  outbox: OutboxItem[];
+  syncCursor: string | null;
   
-  // Dream CRUD operations
+  // Dream CRUD operations (applied locally first, then queued for the server)
   addDream: (dream: Omit<DreamEntry, 'id' | 'createdAt' | 'updatedAt'>) => Promise<void>;
   updateDream: (id: string, updates: Partial<DreamEntry>) => Promise<void>;
   deleteDream: (id: string) => Promise<void>;
@@ -34,6 +45,14 @@ interface DreamStore {
   // Preferences
   updatePreferences: (preferences: Partial<UserPreferences>) => void;
   
+  // Sync
+  syncNow: () => Promise<void>;
+  flushOutbox: () => Promise<void>;
+  pullUpdates: () => Promise<void>;
+  retryFailedOperations: () => Promise<void>;
+  getSyncStatus: (dreamId: string) => 'pending' | 'failed' | undefined;
+  resolveConflict: (recordId: string, resolution: ConflictResolution, merged?: any) => Promise<void>;
+  
   // Statistics
   getDreamStatistics: () => DreamStatistics;
   
@@ -75,49 +94,155 @@ const defaultPreferences: UserPreferences = {
   privacySettings: {
     shareAnalytics: false,
     sharePatterns: false,
-    dataRetentionDays: 365,
+    dataRetentionDays: 0, // Keep forever; the server deletes anything older once this is set
     allowVoiceProcessing: true,
   },
 };
 
-// Transform backend dream format to frontend format
-const transformBackendDream = (backendDream: any): DreamEntry => {
+// Transform backend dream format to frontend format. The server only keeps emotion
+// names, so the richer local emotion entries are reused when they still match.
+const transformBackendDream = (backendDream: any, localDream?: DreamEntry): DreamEntry => {
+  const emotionNames: string[] = backendDream.emotions || [];
+
   return {
     id: backendDream.id,
     title: backendDream.title,
     narrative: backendDream.content,
-    date: new Date(backendDream.recordedAt || backendDream.createdAt),
-    lucidity: backendDream.lucidityLevel || 5,
-    vividness: backendDream.vividnessLevel || 5,
-    sleepQuality: backendDream.sleepQuality || 7,
-    emotions: backendDream.emotions ? JSON.parse(backendDream.emotions) : [],
-    symbols: backendDream.symbols ? JSON.parse(backendDream.symbols) : [],
-    lifeTags: backendDream.tags ? JSON.parse(backendDream.tags) : [],
-    voiceRecording: backendDream.voiceFileUrl ? {
-      uri: backendDream.voiceFileUrl,
-      duration: backendDream.voiceDuration || 0,
-      transcription: backendDream.voiceTranscription || '',
-    } : undefined,
-    aiInterpretation: backendDream.aiAnalysis,
+    date: new Date(backendDream.dreamDate || backendDream.createdAt),
+    lucidity: backendDream.lucidity ?? 5,
+    vividness: backendDream.vividness ?? 5,
+    sleepQuality: backendDream.sleepQuality ?? 7,
+    wakeUpTime: new Date(backendDream.wakeTime || backendDream.dreamDate || backendDream.createdAt),
+    sleepDuration: localDream?.sleepDuration ?? 0,
+    emotions: emotionNames.map((name) =>
+      localDream?.emotions.find((emotion) => emotion.name === name) ||
+      { id: name.toLowerCase(), name, intensity: 5, category: 'anticipation' }
+    ),
+    symbols: backendDream.symbols || [],
+    lifeTags: backendDream.lifeTags || [],
+    status: backendDream.isDraft ? 'draft' : 'complete',
+    voiceRecordingUri: localDream?.voiceRecordingUri,
+    aiInterpretation: localDream?.aiInterpretation,
+    revision: backendDream.revision,
     createdAt: new Date(backendDream.createdAt),
     updatedAt: new Date(backendDream.updatedAt),
   };
 };
 
-// Transform frontend dream format to backend format
-const transformFrontendDream = (frontendDream: Omit<DreamEntry, 'id' | 'createdAt' | 'updatedAt'>) => {
-  return {
-    title: frontendDream.title,
-    content: frontendDream.narrative,
-    mood: frontendDream.emotions[0]?.name || 'neutral',
-    lucidityLevel: frontendDream.lucidity,
-    vividnessLevel: frontendDream.vividness,
-    sleepQuality: frontendDream.sleepQuality,
-    emotions: JSON.stringify(frontendDream.emotions),
-    symbols: JSON.stringify(frontendDream.symbols),
-    tags: JSON.stringify(frontendDream.lifeTags),
-    recordedAt: frontendDream.date.toISOString(),
-  };
+// Transform frontend dream fields to backend column names. Sync operations are
+// written straight to the database, so only real Dream columns may appear here.
+const transformFrontendDream = (frontendDream: Partial<DreamEntry>) => {
+  const backendDream: any = {};
+
+  if (frontendDream.title !== undefined) backendDream.title = frontendDream.title;
+  if (frontendDream.narrative !== undefined) backendDream.content = frontendDream.narrative;
+  if (frontendDream.date !== undefined) backendDream.dreamDate = new Date(frontendDream.date).toISOString();
+  if (frontendDream.wakeUpTime !== undefined) backendDream.wakeTime = new Date(frontendDream.wakeUpTime).toISOString();
+  if (frontendDream.lucidity !== undefined) backendDream.lucidity = frontendDream.lucidity;
+  if (frontendDream.vividness !== undefined) backendDream.vividness = frontendDream.vividness;
+  if (frontendDream.sleepQuality !== undefined) backendDream.sleepQuality = frontendDream.sleepQuality;
+  if (frontendDream.emotions !== undefined) {
+    backendDream.emotions = frontendDream.emotions.map((emotion) => emotion.name);
+    backendDream.mood = frontendDream.emotions[0]?.name || 'neutral';
+  }
+  if (frontendDream.symbols !== undefined) backendDream.symbols = frontendDream.symbols;
+  if (frontendDream.lifeTags !== undefined) backendDream.lifeTags = frontendDream.lifeTags;
+  if (frontendDream.status !== undefined) backendDream.isDraft = frontendDream.status === 'draft';
+
+  return backendDream;
+};
+
+// Ids are chosen on the device so offline dreams keep the same id once synced
+const generateDreamId = () =>
+  `c${Date.now().toString(36)}${Math.random().toString(36).slice(2, 12)}`;
+
+// Dream dates come back from storage as strings
+const DATE_FIELDS = ['date', 'wakeUpTime', 'createdAt', 'updatedAt'];
+
+const OUTBOX_BATCH_SIZE = 50; // Server limit per sync batch
+const OUTBOX_MAX_ATTEMPTS = 5;
+
+// Settings writes are queued like dreams; the server applies them to the signed-in user
+const USER_RECORD_ID = 'user';
+
+const createOutboxItem = (
+  action: OutboxItem['action'],
+  recordId: string,
+  data: any,
+  baseRevision?: number,
+  type: OutboxItem['type'] = 'dream'
+): OutboxItem => ({
+  id: `${type}-${action}-${recordId}-${Date.now()}`,
+  type,
+  action,
+  recordId,
+  data: { id: recordId, ...data },
+  baseRevision,
+  status: 'pending',
+  attempts: 0,
+  queuedAt: new Date().toISOString(),
+});
+
+// Operations currently on the wire; they must not be merged with newer edits
+const inFlightOperations = new Set<string>();
+let isFlushing = false;
+
+// Send a single write through the sync endpoint so stale edits are detected
+const sendSyncOperation = async (operation: SyncOperation): Promise<{ data?: any; conflict?: SyncConflict }> => {
+  const { results } = await apiClient.syncBatch([operation]);
+  const result = results[0];
+
+  if (result.conflict) {
+    return { conflict: { operationId: operation.id, ...result.conflict } };
+  }
+  if (!result.success) {
+    throw new Error(result.error || 'Sync failed');
+  }
+
+  return { data: result.data };
+};
+
+// Default merge: list fields are unioned, settings objects combined key by key,
+// and for everything else the local edit wins
+const mergeConflict = (conflict: SyncConflict): any => {
+  const merged: any = { ...conflict.clientVersion };
+
+  for (const [field, mine] of Object.entries<any>(conflict.clientVersion || {})) {
+    const theirs = conflict.serverVersion[field];
+
+    if (Array.isArray(mine) && Array.isArray(theirs)) {
+      merged[field] = Array.from(new Set([...theirs, ...mine]));
+    } else if (mine && theirs && typeof mine === 'object' && typeof theirs === 'object') {
+      merged[field] = { ...theirs, ...mine };
+    }
+  }
+
+  return merged;
+};
+
+const ANALYSIS_POLL_INTERVAL_MS = 2000;
+const ANALYSIS_POLL_TIMEOUT_MS = 3 * 60 * 1000;
+
+// Analysis runs as a background job on the server; poll until it settles
+const waitForAnalysis = async (queued: any): Promise<{ analysis: any }> => {
+  if (!queued.jobId) {
+    return queued;
+  }
+
+  const deadline = Date.now() + ANALYSIS_POLL_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, ANALYSIS_POLL_INTERVAL_MS));
+    const { job, analysis } = await apiClient.getAnalysisJob(queued.jobId);
+
+    if (job.status === 'COMPLETED') {
+      return { analysis };
+    }
+    if (job.status === 'DEAD_LETTER') {
+      throw new Error(job.error || 'Dream analysis failed');
+    }
+  }
+
+  throw new Error('Dream analysis is taking longer than expected. We will notify you when it is ready.');
 };
 
 export const useDreamStore = create<DreamStore>()(
@@ -129,13 +254,35 @@ export const useDreamStore = create<DreamStore>()(
       userPreferences: defaultPreferences,
       isLoading: false,
       error: null,
+      syncConflicts: [],
+      outbox: [],
+      syncCursor: null,
 
       fetchDreams: async () => {
         try {
           set({ isLoading: true, error: null });
+
+          // Take the feed position first so nothing written during the fetch is missed
+          const { cursor } = await apiClient.getLastSyncTime();
           const response = await apiClient.getDreams();
-          const transformedDreams = response.dreams?.map(transformBackendDream) || [];
-          set({ dreams: transformedDreams, isLoading: false });
+          const backendDreams: any[] = Array.isArray(response) ? response : response.dreams || [];
+
+          // Local edits that haven't reached the server yet win over the fetched copy
+          set((state) => {
+            const queuedIds = new Set(state.outbox.map((item) => item.recordId));
+            const localDreams = state.dreams.filter((dream) => queuedIds.has(dream.id));
+            const serverDreams = backendDreams
+              .filter((backendDream) => !queuedIds.has(backendDream.id))
+              .map((backendDream) =>
+                transformBackendDream(backendDream, state.dreams.find((dream) => dream.id === backendDream.id))
+              );
+
+            return {
+              dreams: [...localDreams, ...serverDreams],
+              syncCursor: cursor,
+              isLoading: false,
+            };
+          });
         } catch (error) {
           console.error('Failed to fetch dreams:', error);
           set({ 
@@ -146,76 +293,80 @@ export const useDreamStore = create<DreamStore>()(
       },
 
       addDream: async (dreamData) => {
-        try {
-          set({ isLoading: true, error: null });
-          const backendData = transformFrontendDream(dreamData);
-          const response = await apiClient.createDream(backendData);
-          const newDream = transformBackendDream(response.dream);
-          
-          set((state) => ({
-            dreams: [newDream, ...state.dreams],
-            isLoading: false,
-          }));
-        } catch (error) {
-          console.error('Failed to add dream:', error);
-          set({ 
-            error: error instanceof Error ? error.message : 'Failed to add dream',
-            isLoading: false 
-          });
-          throw error;
-        }
+        const now = new Date();
+        const newDream: DreamEntry = {
+          ...dreamData,
+          id: generateDreamId(),
+          createdAt: now,
+          updatedAt: now,
+        };
+
+        set((state) => ({
+          dreams: [newDream, ...state.dreams],
+          outbox: [...state.outbox, createOutboxItem('create', newDream.id, transformFrontendDream(dreamData))],
+          error: null,
+        }));
+
+        get().syncNow().catch((error) => console.error('Sync after adding dream failed:', error));
       },
 
       updateDream: async (id, updates) => {
-        try {
-          set({ isLoading: true, error: null });
-          const backendUpdates: any = {};
-          
-          if (updates.title) backendUpdates.title = updates.title;
-          if (updates.narrative) backendUpdates.content = updates.narrative;
-          if (updates.emotions) backendUpdates.emotions = JSON.stringify(updates.emotions);
-          if (updates.symbols) backendUpdates.symbols = JSON.stringify(updates.symbols);
-          if (updates.lifeTags) backendUpdates.tags = JSON.stringify(updates.lifeTags);
-          if (updates.lucidity !== undefined) backendUpdates.lucidityLevel = updates.lucidity;
-          if (updates.vividness !== undefined) backendUpdates.vividnessLevel = updates.vividness;
-          if (updates.sleepQuality !== undefined) backendUpdates.sleepQuality = updates.sleepQuality;
-          
-          const response = await apiClient.updateDream({ id, ...backendUpdates });
-          const updatedDream = transformBackendDream(response.dream);
-          
-          set((state) => ({
+        const existing = get().dreams.find((dream) => dream.id === id);
+        if (!existing) {
+          throw new Error('Dream not found');
+        }
+
+        const changes = transformFrontendDream(updates);
+
+        set((state) => {
+          // Fold the edit into a queued create or update for the same dream when possible
+          const queued = state.outbox.find((item) =>
+            item.recordId === id &&
+            item.action !== 'delete' &&
+            !inFlightOperations.has(item.id)
+          );
+
+          const outbox = queued
+            ? state.outbox.map((item) =>
+                item === queued
+                  ? { ...item, data: { ...item.data, ...changes }, status: 'pending' as const, attempts: 0 }
+                  : item
+              )
+            : [...state.outbox, createOutboxItem('update', id, changes, existing.revision)];
+
+          return {
             dreams: state.dreams.map((dream) =>
-              dream.id === id ? updatedDream : dream
+              dream.id === id ? { ...dream, ...updates, updatedAt: new Date() } : dream
             ),
-            isLoading: false,
-          }));
-        } catch (error) {
-          console.error('Failed to update dream:', error);
-          set({ 
-            error: error instanceof Error ? error.message : 'Failed to update dream',
-            isLoading: false 
-          });
-          throw error;
-        }
+            outbox,
+            error: null,
+          };
+        });
+
+        get().syncNow().catch((error) => console.error('Sync after updating dream failed:', error));
       },
 
       deleteDream: async (id) => {
-        try {
-          set({ isLoading: true, error: null });
-          await apiClient.deleteDream(id);
-          
-          set((state) => ({
+        const existing = get().dreams.find((dream) => dream.id === id);
+
+        set((state) => {
+          const queued = state.outbox.filter((item) =>
+            item.recordId === id && !inFlightOperations.has(item.id)
+          );
+          const neverSent = queued.some((item) => item.action === 'create');
+          const outbox = state.outbox.filter((item) => !queued.includes(item));
+
+          return {
             dreams: state.dreams.filter((dream) => dream.id !== id),
-            isLoading: false,
-          }));
-        } catch (error) {
-          console.error('Failed to delete dream:', error);
-          set({ 
-            error: error instanceof Error ? error.message : 'Failed to delete dream',
-            isLoading: false 
-          });
-          throw error;
-        }
+            // A dream that never reached the server only needs its queued writes dropped
+            outbox: neverSent
+              ? outbox
+              : [...outbox, createOutboxItem('delete', id, {}, existing?.revision)],
+            error: null,
+          };
+        });
+
+        get().syncNow().catch((error) => console.error('Sync after deleting dream failed:', error));
       },
 
       getDream: (id) => {
@@ -289,7 +440,7 @@ export const useDreamStore = create<DreamStore>()(
       analyzeDream: async (dreamId) => {
         try {
           set({ isAnalyzing: true, error: null });
-          const response = await apiClient.analyzeDream(dreamId);
+          const response = await waitForAnalysis(await apiClient.analyzeDream(dreamId));
           
           // Update the dream with analysis
           set((state) => ({
@@ -348,6 +499,25 @@ export const useDreamStore = create<DreamStore>()(
           userPreferences: newPrefs,
         }));
 
+        // Privacy settings are enforced server-side (data retention), so they are synced
+        if ('privacySettings' in preferences) {
+          set((state) => ({
+            outbox: [
+              ...state.outbox.filter((item) =>
+                item.recordId !== USER_RECORD_ID || inFlightOperations.has(item.id)
+              ),
+              createOutboxItem(
+                'update',
+                USER_RECORD_ID,
+                { preferences: { privacySettings: newPrefs.privacySettings } },
+                undefined,
+                'user'
+              ),
+            ],
+          }));
+          get().syncNow().catch((error) => console.error('Sync after updating privacy settings failed:', error));
+        }
+
         // Handle notification scheduling
         if ('reminderEnabled' in preferences || 'reminderTime' in preferences) {
           try {
@@ -389,6 +559,238 @@ export const useDreamStore = create<DreamStore>()(
         }
       },
 
+      syncNow: async () => {
+        await get().flushOutbox();
+        await get().pullUpdates();
+      },
+
+      flushOutbox: async () => {
+        if (isFlushing) {
+          return;
+        }
+
+        const batch = get().outbox
+          .filter((item) => item.attempts < OUTBOX_MAX_ATTEMPTS)
+          .slice(0, OUTBOX_BATCH_SIZE);
+        if (batch.length === 0) {
+          return;
+        }
+
+        isFlushing = true;
+        batch.forEach((item) => inFlightOperations.add(item.id));
+
+        try {
+          let results: any[];
+          try {
+            ({ results } = await apiClient.syncBatch(batch.map((item) => ({
+              id: item.id,
+              type: item.type,
+              action: item.action,
+              data: item.data,
+              baseRevision: item.baseRevision,
+            }))));
+          } catch (error) {
+            // Offline or unreachable: everything stays queued for the next attempt
+            console.log('Outbox flush deferred:', error instanceof Error ? error.message : error);
+            return;
+          }
+
+          for (const result of results) {
+            const item = batch.find((queued) => queued.id === result.id);
+            if (!item) {
+              continue;
+            }
+
+            if (result.success) {
+              set((state) => {
+                const outbox = state.outbox.filter((queued) => queued.id !== item.id);
+                const serverRevision = result.data?.revision;
+
+                if (item.action === 'delete' || serverRevision === undefined) {
+                  return { outbox };
+                }
+
+                // Later edits to the same dream were made on top of this write
+                const hasLaterEdits = outbox.some((queued) => queued.recordId === item.recordId);
+
+                return {
+                  outbox: outbox.map((queued) =>
+                    queued.recordId === item.recordId && queued.action !== 'create'
+                      ? { ...queued, baseRevision: serverRevision }
+                      : queued
+                  ),
+                  dreams: state.dreams.map((dream) => {
+                    if (dream.id !== item.recordId) {
+                      return dream;
+                    }
+                    return hasLaterEdits
+                      ? { ...dream, revision: serverRevision }
+                      : transformBackendDream(result.data, dream);
+                  }),
+                };
+              });
+            } else if (result.conflict) {
+              // Hand the write over to conflict resolution instead of retrying it
+              const conflict: SyncConflict = { operationId: item.id, ...result.conflict };
+              set((state) => ({
+                outbox: state.outbox.filter((queued) => queued.id !== item.id),
+                syncConflicts: [
+                  ...state.syncConflicts.filter((c) => c.recordId !== conflict.recordId),
+                  conflict,
+                ],
+              }));
+            } else {
+              set((state) => ({
+                outbox: state.outbox.map((queued) =>
+                  queued.id === item.id
+                    ? { ...queued, status: 'failed' as const, attempts: queued.attempts + 1, lastError: result.error }
+                    : queued
+                ),
+              }));
+            }
+          }
+        } finally {
+          batch.forEach((item) => inFlightOperations.delete(item.id));
+          isFlushing = false;
+        }
+      },
+
+      pullUpdates: async () => {
+        const startCursor = get().syncCursor;
+        if (startCursor === null) {
+          return; // fetchDreams sets the starting point
+        }
+
+        let cursor: string = startCursor;
+        let hasMore = true;
+        while (hasMore) {
+          const page = await apiClient.getSyncUpdates(cursor);
+
+          set((state) => {
+            // Dreams with queued local writes are left alone until those writes land
+            const queuedIds = new Set(state.outbox.map((item) => item.recordId));
+            const deletedIds = new Set<string>(page.deleted.dreams);
+            let dreams = state.dreams.filter((dream) => !deletedIds.has(dream.id) || queuedIds.has(dream.id));
+
+            for (const backendDream of page.dreams) {
+              if (queuedIds.has(backendDream.id)) {
+                continue;
+              }
+
+              const localDream = dreams.find((dream) => dream.id === backendDream.id);
+              const updatedDream = transformBackendDream(backendDream, localDream);
+              dreams = localDream
+                ? dreams.map((dream) => (dream.id === backendDream.id ? updatedDream : dream))
+                : [updatedDream, ...dreams];
+            }
+
+            // Privacy settings changed on another device, unless a local change is still queued
+            const serverPrivacy = page.user?.preferences?.privacySettings;
+            if (serverPrivacy && !queuedIds.has(USER_RECORD_ID)) {
+              return {
+                dreams,
+                syncCursor: page.cursor,
+                userPreferences: {
+                  ...state.userPreferences,
+                  privacySettings: { ...state.userPreferences.privacySettings, ...serverPrivacy },
+                },
+              };
+            }
+
+            return { dreams, syncCursor: page.cursor };
+          });
+
+          cursor = page.cursor;
+          hasMore = page.hasMore;
+        }
+      },
+
+      retryFailedOperations: async () => {
+        set((state) => ({
+          outbox: state.outbox.map((item) =>
+            item.status === 'failed' ? { ...item, status: 'pending' as const, attempts: 0 } : item
+          ),
+        }));
+        await get().syncNow();
+      },
+
+      getSyncStatus: (dreamId) => {
+        const queued = get().outbox.filter((item) => item.recordId === dreamId);
+        if (queued.length === 0) {
+          return undefined;
+        }
+        return queued.some((item) => item.status === 'failed') ? 'failed' : 'pending';
+      },
+
+      resolveConflict: async (recordId, resolution, merged) => {
+        const conflict = get().syncConflicts.find((c) => c.recordId === recordId);
+        if (!conflict) {
+          return;
+        }
+
+        const removeConflict = () => set((state) => ({
+          syncConflicts: state.syncConflicts.filter((c) => c.recordId !== recordId),
+        }));
+
+        // Keep theirs: adopt the server copy locally, nothing to send
+        if (resolution === 'theirs') {
+          if (conflict.type === 'dream') {
+            set((state) => {
+              const localDream = state.dreams.find((dream) => dream.id === recordId);
+              const serverDream = transformBackendDream(conflict.serverVersion, localDream);
+              return {
+                // A local delete that lost the conflict brings the dream back
+                dreams: localDream
+                  ? state.dreams.map((dream) => (dream.id === recordId ? serverDream : dream))
+                  : [serverDream, ...state.dreams],
+              };
+            });
+          } else if (conflict.type === 'user') {
+            set((state) => ({
+              userPreferences: { ...state.userPreferences, ...conflict.serverVersion.preferences },
+            }));
+          }
+          removeConflict();
+          return;
+        }
+
+        // Keep mine or merge: rewrite on top of the server revision we now know about
+        const isDelete = conflict.clientVersion === null;
+        const operation: SyncOperation = {
+          id: `${conflict.type}-resolve-${recordId}-${Date.now()}`,
+          type: conflict.type,
+          action: isDelete ? 'delete' : 'update',
+          data: isDelete
+            ? { id: recordId }
+            : { id: recordId, ...(resolution === 'merge' ? merged ?? mergeConflict(conflict) : conflict.clientVersion) },
+          baseRevision: conflict.serverRevision,
+        };
+
+        try {
+          const { data, conflict: newConflict } = await sendSyncOperation(operation);
+
+          if (newConflict) {
+            set((state) => ({
+              syncConflicts: state.syncConflicts.map((c) => (c.recordId === recordId ? newConflict : c)),
+            }));
+            return;
+          }
+
+          if (conflict.type === 'dream') {
+            set((state) => ({
+              dreams: isDelete
+                ? state.dreams.filter((dream) => dream.id !== recordId)
+                : state.dreams.map((dream) => (dream.id === recordId ? transformBackendDream(data, dream) : dream)),
+            }));
+          }
+          removeConflict();
+        } catch (error) {
+          console.error('Failed to resolve sync conflict:', error);
+          set({ error: error instanceof Error ? error.message : 'Failed to resolve sync conflict' });
+          throw error;
+        }
+      },
+
       getDreamStatistics: () => {
         const { dreams } = get();
         
@@ -501,16 +903,27 @@ export const useDreamStore = create<DreamStore>()(
           patterns: [],
           isAnalyzing: false,
           error: null,
+          syncConflicts: [],
+          outbox: [],
+          syncCursor: null,
           userPreferences: defaultPreferences,
         }));
       },
     }),
     {
       name: 'dream-store',
-      storage: createJSONStorage(() => AsyncStorage),
-      // Only persist user preferences, not dreams (they come from backend)
+      storage: createJSONStorage(() => AsyncStorage, {
+        reviver: (key, value) =>
+          DATE_FIELDS.includes(key) && typeof value === 'string' ? new Date(value) : value,
+      }),
+      // Dreams are kept on the device so the journal works offline; the outbox and
+      // cursor survive restarts so queued writes are never lost
       partialize: (state) => ({ 
-        userPreferences: state.userPreferences 
+        userPreferences: state.userPreferences,
+        dreams: state.dreams,
+        outbox: state.outbox,
+        syncCursor: state.syncCursor,
+        syncConflicts: state.syncConflicts,
       }),
       onRehydrateStorage: () => (state) => {
         // Initialize services when store is rehydrated
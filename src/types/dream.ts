@@ -15,6 +15,7 @@ export interface DreamEntry {
   patterns?: Pattern[];
   status: 'draft' | 'complete';
   voiceRecordingUri?: string;
+  revision?: number; // Server revision this copy was last synced at
   createdAt: Date;
   updatedAt: Date;
 }
@@ -79,6 +80,34 @@ export interface UserPreferences {
 export interface PrivacySettings {
   shareAnalytics: boolean;
   sharePatterns: boolean;
-  dataRetentionDays: number;
+  dataRetentionDays: number; // 0 keeps everything
   allowVoiceProcessing: boolean;
-}
\ No newline at end of file
+}
+export type SyncRecordType = 'dream' | 'voiceRecording' | 'user';
+
+export type ConflictResolution = 'mine' | 'theirs' | 'merge';
+
+export interface SyncConflict {
+  operationId: string;
+  type: SyncRecordType;
+  recordId: string;
+  baseRevision: number;
+  serverRevision: number;
+  clientVersion: any;
+  serverVersion: any;
+  conflictingFields: string[];
+}
+
+// A local write waiting to be replayed through the sync batch endpoint
+export interface OutboxItem {
+  id: string; // Doubles as the sync operation id
+  type: 'dream' | 'user';
+  action: 'create' | 'update' | 'delete';
+  recordId: string; // USER_RECORD_ID for settings writes
+  data: any; // Backend field names
+  baseRevision?: number;
+  status: 'pending' | 'failed';
+  attempts: number;
+  lastError?: string;
+  queuedAt: string;
+}